@@ -0,0 +1,119 @@
+/**
+ * Encryption Round-Trip Check
+ *
+ * Protects a generated PDF with every supported algorithm, then makes sure
+ * the result can be converted, extracted and unlocked with its password and
+ * is rejected with 401 when the password is missing or wrong.
+ *
+ * Usage: npm run check:encryption
+ */
+
+import { AddressInfo } from 'net';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { createApp } from '../src/app';
+import { ENCRYPTION_ALGORITHMS } from '../src/services/pdfEncryption.service';
+import { pdfWorkerPool } from '../src/workers/pdfWorkerPool';
+
+const USER_PASSWORD = 'round-trip';
+
+let failures = 0;
+
+/**
+ * Record the outcome of a single check
+ */
+const check = (label: string, passed: boolean, detail = ''): void => {
+  if (!passed) {
+    failures++;
+  }
+  console.log(`${passed ? '✅' : '❌'} ${label}${detail && !passed ? ` (${detail})` : ''}`);
+};
+
+/**
+ * Build a small two-page PDF with text, so extraction has something to find
+ */
+const createSamplePdf = async (): Promise<Buffer> => {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  for (let i = 1; i <= 2; i++) {
+    pdfDoc.addPage([300, 400]).drawText(`Page ${i}`, { x: 50, y: 300, size: 24, font });
+  }
+  return Buffer.from(await pdfDoc.save());
+};
+
+/**
+ * POST a PDF with form fields to an endpoint
+ */
+const post = (url: string, pdf: Buffer, fields: Record<string, string> = {}): Promise<Response> => {
+  const form = new FormData();
+  form.append('pdf', new Blob([pdf], { type: 'application/pdf' }), 'document.pdf');
+  for (const [name, value] of Object.entries(fields)) {
+    form.append(name, value);
+  }
+  return fetch(url, { method: 'POST', body: form });
+};
+
+const run = async (baseUrl: string): Promise<void> => {
+  const samplePdf = await createSamplePdf();
+
+  for (const algorithm of ENCRYPTION_ALGORITHMS) {
+    const protectResponse = await post(`${baseUrl}/pdf/protect`, samplePdf, { userPassword: USER_PASSWORD, algorithm });
+    check(`${algorithm}: protect`, protectResponse.status === 200, `status ${protectResponse.status}`);
+    if (protectResponse.status !== 200) {
+      continue;
+    }
+    const encryptedPdf = Buffer.from(await protectResponse.arrayBuffer());
+
+    for (const endpoint of ['convert', 'extract', 'unlock']) {
+      const url = `${baseUrl}/pdf/${endpoint}`;
+
+      const opened = await post(url, encryptedPdf, { password: USER_PASSWORD });
+      check(`${algorithm}: ${endpoint} with password`, opened.status === 200, `status ${opened.status}`);
+
+      if (endpoint === 'unlock' && opened.status === 200) {
+        const unlockedPdf = await PDFDocument.load(await opened.arrayBuffer());
+        check(`${algorithm}: unlocked PDF keeps its pages`, unlockedPdf.getPageCount() === 2);
+      } else {
+        await opened.body?.cancel();
+      }
+
+      const missing = await post(url, encryptedPdf);
+      const missingBody = await missing.json() as { details?: { code?: string } };
+      check(
+        `${algorithm}: ${endpoint} without password is rejected`,
+        missing.status === 401 && missingBody.details?.code === 'PASSWORD_REQUIRED',
+        `status ${missing.status}, code ${missingBody.details?.code}`
+      );
+
+      const wrong = await post(url, encryptedPdf, { password: 'not-the-password' });
+      const wrongBody = await wrong.json() as { details?: { code?: string } };
+      check(
+        `${algorithm}: ${endpoint} with wrong password is rejected`,
+        wrong.status === 401 && wrongBody.details?.code === 'INCORRECT_PASSWORD',
+        `status ${wrong.status}, code ${wrongBody.details?.code}`
+      );
+    }
+  }
+};
+
+const main = async (): Promise<void> => {
+  const app = createApp();
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    await run(`http://127.0.0.1:${port}/api`);
+  } finally {
+    server.close();
+    server.closeAllConnections();
+    await pdfWorkerPool.destroy();
+  }
+
+  console.log(failures === 0 ? '\nAll encryption checks passed' : `\n${failures} encryption check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+};
+
+main().catch(error => {
+  console.error('Encryption check crashed:', error);
+  process.exit(1);
+});
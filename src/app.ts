@@ -31,10 +31,11 @@ export const createApp = (): Application => {
   app.use(corsMiddleware);
 
   // DoS Protection - Payload size, concurrent requests, timeout
+  // (uploads check the body limit of their own route as well)
   app.use(dosProtection({
     requestTimeoutMs: 60000,      // 60 second timeout
     maxConcurrentPerIp: 5,        // Max 5 concurrent requests per IP
-    maxBodySize: 15 * 1024 * 1024 // 15MB max payload
+    maxBodySize: Math.max(...Object.values(env.UPLOAD_LIMITS).map(limits => limits.maxBodyBytes)), // Largest route limit
   }));
 
   // Rate limiting - Prevent abuse
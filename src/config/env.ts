@@ -7,6 +7,7 @@
 
 import { config } from 'dotenv';
 import { join } from 'path';
+import { cpus, tmpdir } from 'os';
 
 // Load environment variables from .env file
 config({ path: join(__dirname, '../../.env') });
@@ -28,6 +29,15 @@ function getEnvVar(key: string, defaultValue?: string): string {
   return value;
 }
 
+/**
+ * Reads an optional environment variable
+ * @param key - Environment variable name
+ * @returns The environment variable value, or undefined if not set
+ */
+function getOptionalEnvVar(key: string): string | undefined {
+  return process.env[key] || undefined;
+}
+
 /**
  * Converts string to number with validation
  */
@@ -47,6 +57,45 @@ function getEnvNumber(key: string, defaultValue: number): number {
   return num;
 }
 
+/**
+ * Reads an environment variable that must be one of a fixed set of values
+ * @throws Error if the value is not one of the choices
+ */
+function getEnvChoice<T extends string>(key: string, choices: readonly T[], defaultValue: T): T {
+  const value = process.env[key] || defaultValue;
+  
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new Error(`Environment variable ${key} must be one of: ${choices.join(', ')}`);
+  }
+  
+  return value as T;
+}
+
+/**
+ * Upload limits of a group of routes
+ */
+export interface UploadLimits {
+  maxFileBytes: number;         // Size of each uploaded file
+  maxFiles: number;             // Files per request
+  maxPages: number;             // Pages per PDF (combined when several PDFs are merged)
+  maxBodyBytes: number;         // Size of the whole request body
+}
+
+/**
+ * Reads the upload limits of a group of routes, e.g. BATCH_MAX_FILE_BYTES,
+ * BATCH_MAX_FILES, BATCH_MAX_PAGES and BATCH_MAX_BODY_BYTES for the prefix
+ * "BATCH". Limits that are not set fall back to the group's defaults, then
+ * to the UPLOAD_ defaults.
+ */
+function getUploadLimits(prefix: string, defaults: Partial<UploadLimits> = {}): UploadLimits {
+  return {
+    maxFileBytes: getEnvNumber(`${prefix}_MAX_FILE_BYTES`, defaults.maxFileBytes ?? getEnvNumber('UPLOAD_MAX_FILE_BYTES', 10 * 1024 * 1024)), // 10MB
+    maxFiles: getEnvNumber(`${prefix}_MAX_FILES`, defaults.maxFiles ?? getEnvNumber('UPLOAD_MAX_FILES', 20)),
+    maxPages: getEnvNumber(`${prefix}_MAX_PAGES`, defaults.maxPages ?? getEnvNumber('UPLOAD_MAX_PAGES', 100)),
+    maxBodyBytes: getEnvNumber(`${prefix}_MAX_BODY_BYTES`, defaults.maxBodyBytes ?? getEnvNumber('UPLOAD_MAX_BODY_BYTES', 15 * 1024 * 1024)), // 15MB
+  };
+}
+
 /**
  * Application environment configuration
  */
@@ -60,6 +109,9 @@ export const env = {
   
   // API configuration
   API_PREFIX: getEnvVar('API_PREFIX', '/api'),
+  // Public base URL used in links sent to other servers, e.g. https://api.example.com
+  // (default: derived from the request)
+  PUBLIC_URL: getOptionalEnvVar('PUBLIC_URL'),
   
   // Security
   CORS_ORIGIN: getEnvVar('CORS_ORIGIN', '*'),
@@ -70,6 +122,50 @@ export const env = {
   // Rate limiting
   RATE_LIMIT_WINDOW_MS: getEnvNumber('RATE_LIMIT_WINDOW_MS', 15 * 60 * 1000), // 15 minutes
   RATE_LIMIT_MAX_REQUESTS: getEnvNumber('RATE_LIMIT_MAX_REQUESTS', 100),
+  
+  // Worker pool for rendering and conversion (0 runs them on the main thread)
+  WORKER_POOL_SIZE: getEnvNumber('WORKER_POOL_SIZE', Math.max(1, cpus().length - 1)),
+  WORKER_TASK_TIMEOUT_MS: getEnvNumber('WORKER_TASK_TIMEOUT_MS', 60000), // 60 seconds
+  
+  // Asynchronous jobs
+  JOBS_DIR: getEnvVar('JOBS_DIR', join(tmpdir(), 'pdf-converter-jobs')),
+  JOB_CONCURRENCY: getEnvNumber('JOB_CONCURRENCY', 2),
+  JOB_QUEUE_LIMIT: getEnvNumber('JOB_QUEUE_LIMIT', 100),
+  JOB_TIMEOUT_MS: getEnvNumber('JOB_TIMEOUT_MS', 30 * 60 * 1000), // 30 minutes
+  JOB_TTL_MS: getEnvNumber('JOB_TTL_MS', 60 * 60 * 1000), // 1 hour
+  JOB_EVENTS_MAX_STREAMS: getEnvNumber('JOB_EVENTS_MAX_STREAMS', 20), // Open event streams per IP
+  
+  // Batch conversion
+  BATCH_CONCURRENCY: getEnvNumber('BATCH_CONCURRENCY', 2),
+  
+  // Uploads are kept in memory, or written to UPLOAD_DIR (UPLOAD_STORAGE=disk)
+  // and removed when the response has been sent
+  UPLOAD_STORAGE: getEnvChoice('UPLOAD_STORAGE', ['memory', 'disk'], 'memory'),
+  UPLOAD_DIR: getEnvVar('UPLOAD_DIR', join(tmpdir(), 'pdf-converter-uploads')),
+  
+  // Upload limits per group of routes (see getUploadLimits for the variable names)
+  UPLOAD_LIMITS: {
+    pdf: getUploadLimits('PDF'),                        // /api/pdf endpoints except /batch
+    batch: getUploadLimits('BATCH', { maxFiles: 50 }),  // /api/pdf/batch
+    jobs: getUploadLimits('JOB'),                       // /api/jobs
+    pipeline: getUploadLimits('PIPELINE'),              // /api/pipeline
+    convert: getUploadLimits('CONVERT'),                // /api/convert
+  },
+  
+  // Conversion result cache (a maximum of 0 disables the memory tier; CACHE_DISK_DIR enables the disk tier)
+  CACHE_TTL_MS: getEnvNumber('CACHE_TTL_MS', 60 * 60 * 1000), // 1 hour
+  CACHE_MAX_ENTRY_BYTES: getEnvNumber('CACHE_MAX_ENTRY_BYTES', 20 * 1024 * 1024), // 20MB
+  CACHE_MEMORY_MAX_BYTES: getEnvNumber('CACHE_MEMORY_MAX_BYTES', 100 * 1024 * 1024), // 100MB
+  CACHE_DISK_DIR: getOptionalEnvVar('CACHE_DISK_DIR'),
+  CACHE_DISK_MAX_BYTES: getEnvNumber('CACHE_DISK_MAX_BYTES', 1024 * 1024 * 1024), // 1GB
+  
+  // Job webhooks (callbackUrl is only accepted when a secret is configured)
+  WEBHOOK_SECRET: getOptionalEnvVar('WEBHOOK_SECRET'),
+  WEBHOOK_ALLOWED_HOSTS: getOptionalEnvVar('WEBHOOK_ALLOWED_HOSTS'), // Comma-separated; default: any public host
+  WEBHOOK_ALLOW_PRIVATE: getEnvChoice('WEBHOOK_ALLOW_PRIVATE', ['true', 'false'], 'false') === 'true', // Private, loopback and link-local addresses
+  WEBHOOK_MAX_ATTEMPTS: getEnvNumber('WEBHOOK_MAX_ATTEMPTS', 5),
+  WEBHOOK_RETRY_DELAY_MS: getEnvNumber('WEBHOOK_RETRY_DELAY_MS', 1000), // Doubles after each attempt
+  WEBHOOK_TIMEOUT_MS: getEnvNumber('WEBHOOK_TIMEOUT_MS', 10000), // 10 seconds
 } as const;
 
 /**
@@ -2,22 +2,25 @@
  * File Upload Configuration
  * 
  * Configures Multer for handling PDF and image file uploads.
- * Uses memory storage for compatibility with serverless/cloud platforms like Render.
+ * Uses memory storage for compatibility with serverless/cloud platforms like
+ * Render, or a managed temporary directory for large documents
+ * (UPLOAD_STORAGE=disk). File size, file count and body size are limited per
+ * group of routes (UPLOAD_LIMITS).
  */
 
 import multer from 'multer';
-import { Request } from 'express';
-
-/**
- * Maximum file size in bytes (10MB)
- */
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+import { readFile } from 'fs/promises';
+import { Request, RequestHandler } from 'express';
+import { env, UploadLimits } from './env';
+import { payloadSizeLimiter, formatSize } from '../middleware/dosProtection';
+import { uploadStorageService } from '../services/uploadStorage.service';
+import { asyncHandler } from '../utils/asyncHandler';
 
 /**
  * Configure Multer storage
- * Using memory storage for serverless/cloud compatibility
+ * Memory storage for serverless/cloud compatibility, or files in UPLOAD_DIR
  */
-const storage = multer.memoryStorage();
+const storage = env.UPLOAD_STORAGE === 'disk' ? uploadStorageService.storage() : multer.memoryStorage();
 
 /**
  * File filter to accept only PDF files
@@ -68,52 +71,204 @@ const textFileFilter = (
 };
 
 /**
- * Multer upload configuration for PDF files
+ * File filter for a PDF accompanied by an image (e.g. a watermark)
+ * The "pdf" field accepts only PDF files, all other fields only images
+ */
+const pdfWithImageFileFilter = (
+  req: Request,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback
+): void => {
+  if (file.fieldname === 'pdf') {
+    pdfFileFilter(req, file, cb);
+  } else {
+    imageFileFilter(req, file, cb);
+  }
+};
+
+/**
+ * File filter for asynchronous jobs and pipelines
+ * The "pdf" and "pdfs" fields accept only PDF files, "text" only text files and "images" only images
+ */
+const jobFileFilter = (
+  req: Request,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback
+): void => {
+  if (file.fieldname === 'pdf' || file.fieldname === 'pdfs') {
+    pdfFileFilter(req, file, cb);
+  } else if (file.fieldname === 'text') {
+    textFileFilter(req, file, cb);
+  } else {
+    imageFileFilter(req, file, cb);
+  }
+};
+
+/**
+ * Options of an upload configuration
+ */
+interface UploadOptions {
+  fileFilter?: multer.Options['fileFilter'];
+  // Leave files on disk (UPLOAD_STORAGE=disk) for the route to read from
+  // file.path, instead of reading them into file.buffer once received
+  keepOnDisk?: boolean;
+}
+
+/**
+ * Upload error annotated with the limits of the upload that failed
+ */
+interface UploadLimitError extends Error {
+  uploadLimits?: UploadLimits;
+}
+
+/**
+ * Multer upload configuration with the limits of a group of routes
+ *
+ * single(), array() and fields() work as in Multer, but return a chain of
+ * middleware: requests with a larger body are rejected before anything is
+ * received, and files on disk are read into file.buffer once received (unless
+ * kept on disk) and removed when the response has finished.
+ */
+export interface LimitedUpload {
+  limits: UploadLimits;
+  single(fieldName: string): RequestHandler[];
+  array(fieldName: string, maxCount?: number): RequestHandler[];   // maxCount defaults to limits.maxFiles
+  fields(fields: readonly multer.Field[]): RequestHandler[];
+}
+
+/**
+ * Files uploaded with single(), array() or fields()
+ */
+const uploadedFiles = (req: Request): Express.Multer.File[] => {
+  if (req.file) {
+    return [req.file];
+  }
+  return Array.isArray(req.files) ? req.files : Object.values(req.files || {}).flat();
+};
+
+/**
+ * Read files kept on disk into memory, so routes handle them like memory uploads
  */
-export const upload = multer({
-  storage,
-  fileFilter: pdfFileFilter,
-  limits: {
-    fileSize: MAX_FILE_SIZE,
-  },
+const readUploads = asyncHandler(async (req, _res, next) => {
+  await Promise.all(uploadedFiles(req).map(async file => {
+    file.buffer = await readFile(file.path);
+  }));
+  next();
 });
 
+/**
+ * Create an upload configuration for a group of routes
+ */
+const createUpload = (limits: UploadLimits, options: UploadOptions = {}): LimitedUpload => {
+  const multerUpload = multer({
+    storage,
+    fileFilter: options.fileFilter,
+    limits: {
+      fileSize: limits.maxFileBytes,
+      files: limits.maxFiles,
+    },
+  });
+
+  const disk = env.UPLOAD_STORAGE === 'disk';
+
+  const chain = (handler: RequestHandler): RequestHandler[] => [
+    payloadSizeLimiter(limits.maxBodyBytes),
+    (req, res, next) => {
+      if (disk) {
+        uploadStorageService.cleanupAfter(req, res);
+      }
+
+      handler(req, res, (error?: unknown) => {
+        // Let getUploadErrorMessage() report the limits that applied
+        if (error instanceof Error) {
+          (error as UploadLimitError).uploadLimits = limits;
+        }
+        next(error);
+      });
+    },
+    ...(disk && !options.keepOnDisk ? [readUploads] : []),
+  ];
+
+  return {
+    limits,
+    single: fieldName => chain(multerUpload.single(fieldName)),
+    array: (fieldName, maxCount = limits.maxFiles) => chain(multerUpload.array(fieldName, maxCount)),
+    fields: fields => chain(multerUpload.fields(fields)),
+  };
+};
+
+/**
+ * Multer upload configuration for PDF files
+ */
+export const upload = createUpload(env.UPLOAD_LIMITS.pdf, { fileFilter: pdfFileFilter });
+
+/**
+ * Multer upload configuration for a PDF converted in the worker pool
+ * (convert, extract, pdf-to-docx). Files on disk are validated from a sample
+ * and read by the worker, so large documents are never held by the main thread.
+ */
+export const workerPdfUpload = createUpload(env.UPLOAD_LIMITS.pdf, { fileFilter: pdfFileFilter, keepOnDisk: true });
+
 /**
  * Multer upload configuration for image files (PNG and JPEG)
  */
-export const imageUpload = multer({
-  storage,
-  fileFilter: imageFileFilter,
-  limits: {
-    fileSize: MAX_FILE_SIZE,
-    files: 20, // Maximum 20 images per request
-  },
-});
+export const imageUpload = createUpload(env.UPLOAD_LIMITS.pdf, { fileFilter: imageFileFilter });
 
 /**
  * Multer upload configuration for text files
  */
-export const textUpload = multer({
-  storage,
-  fileFilter: textFileFilter,
-  limits: {
-    fileSize: MAX_FILE_SIZE,
-  },
-});
+export const textUpload = createUpload(env.UPLOAD_LIMITS.pdf, { fileFilter: textFileFilter });
+
+/**
+ * Multer upload configuration for a PDF file plus an image file
+ */
+export const pdfWithImageUpload = createUpload(
+  { ...env.UPLOAD_LIMITS.pdf, maxFiles: 2 }, // One PDF and one image
+  { fileFilter: pdfWithImageFileFilter }
+);
+
+/**
+ * Multer upload configuration for asynchronous jobs (a PDF, a text file or images)
+ */
+export const jobUpload = createUpload(env.UPLOAD_LIMITS.jobs, { fileFilter: jobFileFilter });
+
+/**
+ * Multer upload configuration for pipelines (PDFs, text files or images)
+ */
+export const pipelineUpload = createUpload(env.UPLOAD_LIMITS.pipeline, { fileFilter: jobFileFilter });
+
+/**
+ * Multer upload configuration for batch conversion
+ * Files are not filtered by type here; each file is validated on its own so
+ * that a wrong file is reported in the batch manifest instead of failing the
+ * request. Files on disk are read one at a time by the batch service.
+ */
+export const batchUpload = createUpload(env.UPLOAD_LIMITS.batch, { keepOnDisk: true });
+
+/**
+ * Multer upload configuration for the generic conversion endpoint
+ * Files are not filtered by type here; they are validated against the
+ * requested source type once the query has been read
+ */
+export const convertUpload = createUpload(env.UPLOAD_LIMITS.convert);
 
 /**
  * Custom error messages for upload errors
+ * Size and count limits are those of the upload that failed (default: the
+ * /api/pdf limits)
  */
 export const getUploadErrorMessage = (error: any): string => {
+  const limits: UploadLimits = error?.uploadLimits ?? env.UPLOAD_LIMITS.pdf;
+
   if (error instanceof multer.MulterError) {
     if (error.code === 'LIMIT_FILE_SIZE') {
-      return `File size exceeds the maximum limit of ${MAX_FILE_SIZE / 1024 / 1024}MB`;
+      return `File size exceeds the maximum limit of ${formatSize(limits.maxFileBytes)}`;
     }
     if (error.code === 'LIMIT_UNEXPECTED_FILE') {
       return 'Unexpected field in upload';
     }
     if (error.code === 'LIMIT_FILE_COUNT') {
-      return 'Maximum 20 images allowed per request';
+      return `Maximum ${limits.maxFiles} files allowed per request`;
     }
     return `Upload error: ${error.message}`;
   }
@@ -132,4 +287,3 @@ export const getUploadErrorMessage = (error: any): string => {
   
   return 'An error occurred during file upload';
 };
-
@@ -0,0 +1,317 @@
+/**
+ * Converter Registry
+ *
+ * Describes every conversion the service offers in one place: the file types
+ * it reads and writes, its options and its limits. Routes, jobs, batches and
+ * pipelines prepare their work through the registry, the generic
+ * /api/convert endpoint finds multi-step paths through it, and the health
+ * and capabilities listings are generated from it.
+ */
+
+import { TaskOptions } from '../workers/workerPool';
+
+/**
+ * File types that are passed between conversions
+ */
+export const ARTIFACT_TYPES = ['pdf', 'png', 'jpeg', 'webp', 'avif', 'tiff', 'txt', 'docx'] as const;
+
+export type ArtifactType = typeof ARTIFACT_TYPES[number];
+
+/**
+ * Content type of each file type
+ */
+export const ARTIFACT_CONTENT_TYPES: Record<ArtifactType, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  tiff: 'image/tiff',
+  txt: 'text/plain; charset=utf-8',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+/**
+ * A file produced or consumed by a conversion
+ */
+export interface Artifact {
+  name: string;                 // Filename without extension; the extension is the type
+  type: ArtifactType;
+  buffer: Buffer;               // Empty for uploads kept on disk (path)
+  path?: string;                // Upload kept on disk, read by the worker that converts it
+}
+
+/**
+ * A result of a conversion
+ */
+export interface ConvertedFile {
+  // Name relative to the input, e.g. "page-1" or "page-1-images/page-1-image-1";
+  // absent when the input converts to a single file. Combined results are
+  // named after the conversion, e.g. "merged".
+  path?: string;
+  type: ArtifactType;
+  extension?: string;           // When it differs from the type, e.g. "jpg" for extracted JPEG images
+  buffer: Buffer;
+}
+
+/**
+ * Request-wide settings: worker pool options plus the password used to open
+ * encrypted PDFs
+ */
+export interface ConverterContext extends TaskOptions {
+  password?: string;
+  name?: string;                // Name of a combined result (default: the converter's own)
+}
+
+/**
+ * A documented option of a converter
+ */
+export interface OptionSpec {
+  name: string;
+  type: 'string' | 'integer' | 'number' | 'boolean' | 'enum' | 'json' | 'file';
+  description: string;
+  default?: string | number | boolean;
+  values?: readonly string[];   // Allowed values of enum options, file types of file options
+}
+
+/**
+ * Limits of a converter, matching its synchronous endpoint
+ */
+export interface ConverterLimits {
+  maxFiles: number;             // Files per request
+  maxPages?: number;            // Pages per PDF input (combined for converters that merge)
+}
+
+/**
+ * Prepared work, common part
+ */
+interface PreparedConversion {
+  outputs: readonly ArtifactType[];     // Types of the results
+  options: object;                      // Parsed options, e.g. for cache keys (without the password)
+}
+
+/**
+ * Work that converts each input on its own; results are produced one at a
+ * time, so pages can be streamed as they are rendered
+ */
+export interface FileConversion extends PreparedConversion {
+  convertFile(input: Artifact, context: ConverterContext): AsyncIterable<ConvertedFile>;
+}
+
+/**
+ * Work that combines all inputs into one result
+ */
+export interface CombiningConversion extends PreparedConversion {
+  combine(inputs: Artifact[], context: ConverterContext): Promise<ConvertedFile>;
+}
+
+export type Conversion = FileConversion | CombiningConversion;
+
+/**
+ * A registered converter
+ */
+export interface Converter {
+  description: string;
+  endpoint?: {
+    name: string;               // Key in the health listing, e.g. "imagesToPdf"
+    path: string;               // Route under /api/pdf, e.g. "/images-to-pdf"
+    // Entry in the health listing's supportedFormats: the input types (plus
+    // attachment types) or the output types, under the endpoint name unless
+    // an earlier version used another key (e.g. "pdfToImages")
+    supportedFormats?: { key?: string; types: 'inputs' | 'outputs' };
+  };
+  from: readonly ArtifactType[];
+  to: readonly ArtifactType[];
+  // Whether /api/convert may use the converter as a step (default: true);
+  // off for converters that duplicate another one or mix output types
+  routable?: boolean;
+  options: readonly OptionSpec[];
+  limits: ConverterLimits;
+  /**
+   * Validate the options and prepare the work
+   *
+   * @param params - Raw parameter values (strings from the form or query)
+   * @param target - Output type to produce, for converters with several
+   * @throws Error if an option is invalid
+   */
+  prepare(params: Record<string, unknown>, target?: ArtifactType): Conversion;
+}
+
+/**
+ * One step of a path found by ConverterRegistry.findPath
+ */
+export interface ConversionHop<K extends string = string> {
+  id: K;
+  converter: Converter;
+  output: ArtifactType;
+}
+
+/**
+ * Public description of a converter (capabilities listing)
+ */
+export interface ConverterDescription {
+  id: string;
+  description: string;
+  endpoint?: string;
+  from: readonly ArtifactType[];
+  to: readonly ArtifactType[];
+  routable: boolean;
+  options: readonly OptionSpec[];
+  limits: ConverterLimits;
+}
+
+/**
+ * Whether a prepared conversion combines its inputs
+ */
+export const isCombining = (conversion: Conversion): conversion is CombiningConversion =>
+  'combine' in conversion;
+
+/**
+ * Results of a prepared conversion for one input, produced one at a time
+ * (a combining conversion combines just that input)
+ */
+export async function* convertInput(
+  conversion: Conversion,
+  input: Artifact,
+  context: ConverterContext = {}
+): AsyncGenerator<ConvertedFile, void, undefined> {
+  if (isCombining(conversion)) {
+    yield await conversion.combine([input], context);
+    return;
+  }
+  yield* conversion.convertFile(input, context);
+}
+
+/**
+ * Run a prepared conversion over artifacts
+ *
+ * Results of per-file conversions are named after their input, followed by
+ * their path (e.g. "report_page-1"); combined results are named after the
+ * conversion.
+ *
+ * @param conversion - Prepared conversion
+ * @param inputs - Input files
+ * @param context - Worker pool options and password
+ * @returns All results, in input order
+ */
+export const runConversion = async (
+  conversion: Conversion,
+  inputs: Artifact[],
+  context: ConverterContext = {}
+): Promise<Artifact[]> => {
+  if (isCombining(conversion)) {
+    const result = await conversion.combine(inputs, context);
+    return [{ name: result.path ?? 'result', type: result.type, buffer: result.buffer }];
+  }
+
+  const outputs: Artifact[] = [];
+  for (const input of inputs) {
+    for await (const result of convertInput(conversion, input, context)) {
+      outputs.push({
+        name: result.path ? `${input.name}_${result.path}` : input.name,
+        type: result.type,
+        buffer: result.buffer,
+      });
+    }
+  }
+  return outputs;
+};
+
+/**
+ * Converter Registry Class
+ *
+ * Typed by its converter table, so known ids can be looked up without checks.
+ */
+export class ConverterRegistry<T extends Record<string, Converter>> {
+  constructor(private readonly converters: T) {}
+
+  /**
+   * Look up a converter by id
+   */
+  get(id: keyof T & string): Converter {
+    return this.converters[id];
+  }
+
+  /**
+   * Whether a converter is registered under an id
+   */
+  has(id: string): id is keyof T & string {
+    return Object.prototype.hasOwnProperty.call(this.converters, id);
+  }
+
+  /**
+   * Ids of all converters, in registration order
+   */
+  ids(): Array<keyof T & string> {
+    return Object.keys(this.converters) as Array<keyof T & string>;
+  }
+
+  /**
+   * Find the shortest chain of converters from one file type to another
+   *
+   * Only routable converters that change the file type are used. Among paths
+   * of the same length, converters registered earlier win.
+   *
+   * @param from - Type of the input files
+   * @param to - Type of the result
+   * @returns Steps in order, or undefined if the types are equal or no path exists
+   */
+  findPath(from: ArtifactType, to: ArtifactType): Array<ConversionHop<keyof T & string>> | undefined {
+    if (from === to) {
+      return undefined;
+    }
+
+    // Breadth-first search over file types, remembering how each was reached
+    const reachedBy = new Map<ArtifactType, { previous: ArtifactType; hop: ConversionHop<keyof T & string> }>();
+    const queue: ArtifactType[] = [from];
+
+    while (queue.length > 0) {
+      const type = queue.shift()!;
+
+      if (type === to) {
+        const hops: Array<ConversionHop<keyof T & string>> = [];
+        for (let current = to; current !== from;) {
+          const { previous, hop } = reachedBy.get(current)!;
+          hops.unshift(hop);
+          current = previous;
+        }
+        return hops;
+      }
+
+      for (const id of this.ids()) {
+        const converter = this.converters[id];
+        if (converter.routable === false || !converter.from.includes(type)) {
+          continue;
+        }
+
+        for (const output of converter.to) {
+          if (output !== from && output !== type && !reachedBy.has(output)) {
+            reachedBy.set(output, { previous: type, hop: { id, converter, output } });
+            queue.push(output);
+          }
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Describe all converters, e.g. for the capabilities listing
+   */
+  describe(): ConverterDescription[] {
+    return this.ids().map(id => {
+      const { description, endpoint, from, to, routable = true, options, limits } = this.converters[id];
+      return {
+        id,
+        description,
+        endpoint: endpoint && `POST /api/pdf${endpoint.path}`,
+        from,
+        to,
+        routable,
+        options,
+        limits,
+      };
+    });
+  }
+}
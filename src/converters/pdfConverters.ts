@@ -0,0 +1,633 @@
+/**
+ * PDF Converters
+ *
+ * The conversions of the PDF service, registered with the file types they
+ * read and write, their options and their limits. The options are parsed by
+ * the same service methods the /api/pdf endpoints always used, so every
+ * entry point validates them the same way.
+ */
+
+import { env } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { COLOR_MODES } from '../utils/colorMode';
+import { formatPageRange } from '../utils/pageRanges';
+import { TIFF_COMPRESSIONS } from '../utils/tiffWriter';
+import { TaskOptions } from '../workers/workerPool';
+import { pdfWorkerPool } from '../workers/pdfWorkerPool';
+import { PdfSource } from '../workers/pdfTasks';
+import { PDFConverterService, ImageFormat, IMAGE_FORMATS } from '../services/pdfConverter.service';
+import { ImageToPdfService } from '../services/imageToPdf.service';
+import { PdfToDocxService } from '../services/pdfToDocx.service';
+import { pdfMergeService, PdfMergeService } from '../services/pdfMerge.service';
+import { pdfSplitService, PdfSplitService } from '../services/pdfSplit.service';
+import { pdfOrganizeService, PdfOrganizeService } from '../services/pdfOrganize.service';
+import { watermarkService, WatermarkService, DEFAULT_WATERMARK_OPTIONS } from '../services/watermark.service';
+import { stampService, StampService, DEFAULT_STAMP_OPTIONS } from '../services/stamp.service';
+import { pdfEncryptionService, PdfEncryptionService, ENCRYPTION_ALGORITHMS } from '../services/pdfEncryption.service';
+import { pdfMetadataService, PdfMetadataService } from '../services/pdfMetadata.service';
+import { pdfFormsService, PdfFormsService } from '../services/pdfForms.service';
+import {
+  ConverterRegistry,
+  Converter,
+  ConverterContext,
+  OptionSpec,
+  Artifact,
+  ArtifactType,
+  ARTIFACT_CONTENT_TYPES,
+} from './converterRegistry';
+
+/**
+ * Limits of the /api/pdf endpoints (PDF_MAX_FILES, PDF_MAX_PAGES)
+ */
+const { maxFiles: MAX_FILES, maxPages: MAX_PAGES } = env.UPLOAD_LIMITS.pdf;
+
+/**
+ * Worker pool options of a conversion: cancellation, progress, warnings and time limit
+ */
+const taskOptions = ({ signal, timeoutMs, onProgress, onWarning }: ConverterContext): TaskOptions => ({
+  signal,
+  timeoutMs,
+  onProgress,
+  onWarning,
+});
+
+/**
+ * PDF input of a worker task: the upload on disk if it was kept there
+ */
+const pdfSource = (input: Artifact): PdfSource => input.path ?? input.buffer;
+
+/**
+ * Read a parameter that must be a string (query parameters may be arrays)
+ */
+const stringParam = (params: Record<string, unknown>, name: string): string | undefined => {
+  const value = params[name];
+  return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * Parse the image format of a rendering converter; the target type of a
+ * multi-step conversion takes the place of the format option
+ */
+const parseImageFormat = (
+  params: Record<string, unknown>,
+  target: ArtifactType | undefined,
+  allowTiff: boolean
+): ImageFormat | 'tiff' => {
+  const format = target ?? (String(params.format ?? '').toLowerCase() || 'png');
+  if (allowTiff && format === 'tiff') {
+    return format;
+  }
+  if (!PDFConverterService.isValidFormat(format)) {
+    throw new Error(`Invalid format. Supported formats: ${[...IMAGE_FORMATS, ...(allowTiff ? ['tiff'] : [])].join(', ')}`);
+  }
+  return format;
+};
+
+/**
+ * Options of PDFConverterService.parseRenderOptions
+ */
+const RENDER_OPTIONS: OptionSpec[] = [
+  { name: 'pages', type: 'string', description: 'Page ranges, e.g. "1,3-5" (default: all pages)' },
+  { name: 'dpi', type: 'integer', description: 'Rendering resolution, 18-1200', default: 144 },
+  { name: 'quality', type: 'integer', description: 'JPEG, WebP and AVIF quality, 1-100', default: 95 },
+  { name: 'lossless', type: 'boolean', description: 'Lossless WebP encoding', default: false },
+  { name: 'maxWidth', type: 'integer', description: 'Fit each page into this width in pixels (never enlarged)' },
+  { name: 'maxHeight', type: 'integer', description: 'Fit each page into this height in pixels (never enlarged)' },
+  { name: 'colorMode', type: 'enum', description: 'Color, grayscale or black and white', default: 'color', values: COLOR_MODES },
+  { name: 'threshold', type: 'integer', description: 'Black and white threshold, gray level 1-255', default: 128 },
+  { name: 'dither', type: 'boolean', description: 'Floyd-Steinberg dithering for black and white', default: false },
+  { name: 'background', type: 'string', description: 'white, transparent or #hex color', default: 'white' },
+];
+
+/**
+ * Options of PdfMetadataService.parseMetadata
+ */
+const METADATA_OPTIONS: OptionSpec[] = [
+  { name: 'metadata', type: 'json', description: 'JSON object with the properties below, instead of individual fields' },
+  ...['title', 'author', 'subject', 'keywords', 'creator', 'producer'].map((name): OptionSpec => ({
+    name,
+    type: 'string',
+    description: `Document ${name} (empty removes it)`,
+  })),
+  { name: 'creationDate', type: 'string', description: 'ISO 8601 date' },
+  { name: 'modificationDate', type: 'string', description: 'ISO 8601 date (default: now)' },
+  { name: 'custom', type: 'json', description: 'JSON object of custom Info dictionary keys' },
+];
+
+/**
+ * Options of StampService.parseOptions
+ */
+const STAMP_OPTIONS: OptionSpec[] = [
+  { name: 'header', type: 'string', description: 'Header template with {page}, {total}, {filename}, {date} and {bates}' },
+  { name: 'footer', type: 'string', description: 'Footer template, e.g. "Page {page} of {total}"' },
+  { name: 'headerAlign', type: 'enum', description: 'Header alignment', default: DEFAULT_STAMP_OPTIONS.headerAlign, values: ['left', 'center', 'right'] },
+  { name: 'footerAlign', type: 'enum', description: 'Footer alignment', default: DEFAULT_STAMP_OPTIONS.footerAlign, values: ['left', 'center', 'right'] },
+  { name: 'font', type: 'string', description: 'Standard font name', default: DEFAULT_STAMP_OPTIONS.font },
+  { name: 'fontSize', type: 'number', description: 'Text size in points, 4-72', default: DEFAULT_STAMP_OPTIONS.fontSize },
+  { name: 'color', type: 'string', description: 'Text color as hex', default: DEFAULT_STAMP_OPTIONS.color },
+  { name: 'marginX', type: 'number', description: 'Distance from the left and right edges in points', default: DEFAULT_STAMP_OPTIONS.marginX },
+  { name: 'marginY', type: 'number', description: 'Distance from the top and bottom edges in points', default: DEFAULT_STAMP_OPTIONS.marginY },
+  { name: 'skipFirstPage', type: 'boolean', description: 'Do not stamp the first page', default: false },
+  { name: 'date', type: 'string', description: 'Value for {date} (default: today, YYYY-MM-DD)' },
+  { name: 'batesPrefix', type: 'string', description: 'Bates number prefix' },
+  { name: 'batesStart', type: 'integer', description: 'First Bates number', default: DEFAULT_STAMP_OPTIONS.batesStart },
+  { name: 'batesDigits', type: 'integer', description: 'Bates number digits, 1-20', default: DEFAULT_STAMP_OPTIONS.batesDigits },
+];
+
+const CONVERT_TYPES: readonly ArtifactType[] = [...IMAGE_FORMATS, 'tiff'];
+
+/**
+ * Registered converters, by id; ids match the pipeline operations
+ */
+export const pdfConverters = {
+  convert: {
+    description: 'Convert PDF pages to images (png/jpeg/webp/avif) or a multi-page TIFF',
+    endpoint: { name: 'convert', path: '/convert', supportedFormats: { key: 'pdfToImages', types: 'outputs' } },
+    from: ['pdf'],
+    to: CONVERT_TYPES,
+    options: [
+      { name: 'format', type: 'enum', description: 'Image format (the target type in /api/convert)', default: 'png', values: CONVERT_TYPES },
+      ...RENDER_OPTIONS,
+      { name: 'compression', type: 'enum', description: 'TIFF compression', default: 'lzw-color', values: TIFF_COMPRESSIONS },
+    ],
+    limits: { maxFiles: 1, maxPages: MAX_PAGES },
+    prepare: (params, target) => {
+      const format = parseImageFormat(params, target, true);
+      const renderOptions = PDFConverterService.parseRenderOptions(params);
+
+      if (format === 'tiff') {
+        const compression = PDFConverterService.parseTiffCompression(params.compression);
+
+        return {
+          outputs: ['tiff'],
+          options: { format, ...renderOptions, compression },
+          async *convertFile(input, context) {
+            yield {
+              type: 'tiff',
+              buffer: await pdfWorkerPool.run(
+                'convertPdfToTiff',
+                [pdfSource(input), { ...renderOptions, compression, password: context.password }],
+                taskOptions(context)
+              ),
+            };
+          },
+        };
+      }
+
+      return {
+        outputs: [format],
+        options: { format, ...renderOptions },
+        async *convertFile(input, context) {
+          // Each page is rendered when the consumer asks for it
+          const convertedPages = pdfWorkerPool.stream(
+            'streamPdfToImages',
+            [pdfSource(input), { format, ...renderOptions, password: context.password }],
+            taskOptions(context)
+          );
+
+          for await (const page of convertedPages) {
+            yield { path: `page-${page.pageNumber}`, type: format, buffer: page.buffer };
+          }
+        },
+      };
+    },
+  },
+
+  extract: {
+    description: 'Extract text and images from PDF',
+    endpoint: { name: 'extract', path: '/extract' },
+    from: ['pdf'],
+    to: ['txt', 'png', 'jpeg'],
+    routable: false,
+    options: [],
+    limits: { maxFiles: 1, maxPages: MAX_PAGES },
+    prepare: () => ({
+      outputs: ['txt', 'png', 'jpeg'],
+      options: {},
+      async *convertFile(input, context) {
+        const extractedContent = pdfWorkerPool.stream(
+          'streamPdfContent',
+          [pdfSource(input), { password: context.password }],
+          taskOptions(context)
+        );
+
+        for await (const page of extractedContent) {
+          yield { path: `page-${page.pageNumber}`, type: 'txt', buffer: Buffer.from(page.textContent, 'utf-8') };
+
+          // Images go to a page-specific folder, keeping their own extension (png or jpg)
+          for (const image of page.images) {
+            const extension = image.filename.slice(image.filename.lastIndexOf('.') + 1);
+            yield {
+              path: `page-${page.pageNumber}-images/${image.filename.slice(0, -extension.length - 1)}`,
+              type: extension === 'png' ? 'png' : 'jpeg',
+              extension,
+              buffer: image.buffer,
+            };
+          }
+        }
+      },
+    }),
+  },
+
+  'images-to-pdf': {
+    description: 'Convert multiple images to a single PDF',
+    endpoint: { name: 'imagesToPdf', path: '/images-to-pdf', supportedFormats: { types: 'inputs' } },
+    from: ['png', 'jpeg'],
+    to: ['pdf'],
+    options: METADATA_OPTIONS,
+    limits: { maxFiles: MAX_FILES },
+    prepare: params => {
+      const metadata = PdfMetadataService.parseMetadata(params);
+
+      return {
+        outputs: ['pdf'],
+        options: { metadata },
+        async combine(inputs, context) {
+          const name = context.name ?? 'images-to-pdf';
+          const images = inputs.map(input => ({
+            buffer: input.buffer,
+            mimetype: ARTIFACT_CONTENT_TYPES[input.type],
+            originalname: `${input.name}.${input.type}`,
+          }));
+          ImageToPdfService.validateImages(images);
+
+          // The filename is the default document title
+          const buffer = await pdfWorkerPool.run(
+            'convertImagesToPdf',
+            [images, { filename: `${name}.pdf`, metadata }],
+            taskOptions(context)
+          );
+          return { path: name, type: 'pdf', buffer };
+        },
+      };
+    },
+  },
+
+  'pdf-to-docx': {
+    description: 'Convert PDF to DOCX (Microsoft Word)',
+    endpoint: { name: 'pdfToDocx', path: '/pdf-to-docx', supportedFormats: { types: 'outputs' } },
+    from: ['pdf'],
+    to: ['docx'],
+    options: [
+      { name: 'includeImages', type: 'boolean', description: 'Include images in the document', default: true },
+      { name: 'preservePageBreaks', type: 'boolean', description: 'Add page breaks between PDF pages', default: true },
+    ],
+    limits: { maxFiles: 1, maxPages: MAX_PAGES },
+    prepare: params => {
+      const options = {
+        includeImages: params.includeImages !== 'false', // Default true
+        preservePageBreaks: params.preservePageBreaks !== 'false', // Default true
+      };
+      PdfToDocxService.validateOptions(options);
+
+      return {
+        outputs: ['docx'],
+        options,
+        async *convertFile(input, context) {
+          yield {
+            type: 'docx',
+            buffer: await pdfWorkerPool.run(
+              'convertPdfToDocx',
+              [pdfSource(input), { ...options, password: context.password }],
+              taskOptions(context)
+            ),
+          };
+        },
+      };
+    },
+  },
+
+  'text-to-pdf': {
+    description: 'Convert text file to PDF',
+    endpoint: { name: 'textToPdf', path: '/text-to-pdf', supportedFormats: { types: 'inputs' } },
+    from: ['txt'],
+    to: ['pdf'],
+    options: [...STAMP_OPTIONS, ...METADATA_OPTIONS],
+    limits: { maxFiles: 1 },
+    prepare: params => {
+      // Optional header/footer stamping and document properties
+      const parsedStamp = params.header || params.footer
+        ? StampService.parseOptions(params as Record<string, string | undefined>)
+        : undefined;
+      // {date} defaults to today; resolved here so it is part of the options (and of cache keys)
+      const stamp = parsedStamp && { ...parsedStamp, date: parsedStamp.date ?? new Date().toISOString().slice(0, 10) };
+      const metadata = PdfMetadataService.parseMetadata(params);
+
+      return {
+        outputs: ['pdf'],
+        options: { stamp, metadata },
+        async *convertFile(input, context) {
+          yield {
+            type: 'pdf',
+            buffer: await pdfWorkerPool.run(
+              'convertTextToPdf',
+              [input.buffer.toString('utf-8'), { stamp: stamp && { ...stamp, filename: `${input.name}.pdf` }, metadata }],
+              taskOptions(context)
+            ),
+          };
+        },
+      };
+    },
+  },
+
+  merge: {
+    description: 'Merge multiple PDFs into a single PDF',
+    endpoint: { name: 'merge', path: '/merge', supportedFormats: { types: 'inputs' } },
+    from: ['pdf'],
+    to: ['pdf'],
+    options: [
+      { name: 'order', type: 'string', description: 'File order, 1-based, e.g. "3,1,2" or "[3,1,2]"' },
+    ],
+    limits: { maxFiles: MAX_FILES, maxPages: MAX_PAGES },
+    prepare: params => {
+      const order = params.order ? PdfMergeService.parseOrder(String(params.order)) : undefined;
+
+      return {
+        outputs: ['pdf'],
+        options: { order },
+        async combine(inputs, context) {
+          if (order) {
+            try {
+              PdfMergeService.validateOrder(order, inputs.length);
+            } catch (error) {
+              // The number of inputs is only known now; still an option error
+              throw new AppError(400, error instanceof Error ? error.message : 'Invalid merge order');
+            }
+          }
+
+          const buffer = await pdfMergeService.mergePdfs(
+            inputs.map(input => ({ buffer: input.buffer, originalname: `${input.name}.pdf` })),
+            { order }
+          );
+          return { path: context.name ?? 'merged', type: 'pdf', buffer };
+        },
+      };
+    },
+  },
+
+  split: {
+    description: 'Split a PDF into multiple PDFs by page ranges, page count or size',
+    endpoint: { name: 'split', path: '/split', supportedFormats: { types: 'inputs' } },
+    from: ['pdf'],
+    to: ['pdf'],
+    options: [
+      { name: 'ranges', type: 'string', description: 'One document per page range, e.g. "1-3,4,5-end"' },
+      { name: 'every', type: 'integer', description: 'Number of pages per document' },
+      { name: 'bySize', type: 'string', description: 'Maximum size per document, e.g. "2MB"' },
+    ],
+    limits: { maxFiles: 1, maxPages: MAX_PAGES },
+    prepare: params => {
+      const options = PdfSplitService.parseOptions({
+        ranges: stringParam(params, 'ranges'),
+        every: stringParam(params, 'every'),
+        bySize: stringParam(params, 'bySize'),
+      });
+
+      return {
+        outputs: ['pdf'],
+        options,
+        async *convertFile(input) {
+          // Each document is named after its page range
+          for (const document of await pdfSplitService.splitPdf(input.buffer, options)) {
+            const label = document.range.start === document.range.end ? 'page' : 'pages';
+            yield { path: `${label}-${formatPageRange(document.range)}`, type: 'pdf', buffer: document.buffer };
+          }
+        },
+      };
+    },
+  },
+
+  organize: {
+    description: 'Reorder, delete, duplicate and rotate PDF pages',
+    endpoint: { name: 'organize', path: '/organize', supportedFormats: { types: 'inputs' } },
+    from: ['pdf'],
+    to: ['pdf'],
+    options: [
+      { name: 'instructions', type: 'json', description: 'Pages in output order, e.g. [{"page":3},{"page":1,"rotate":180}]' },
+    ],
+    limits: { maxFiles: 1, maxPages: MAX_PAGES },
+    prepare: params => {
+      if (!params.instructions) {
+        throw new Error('"instructions" is required, e.g. [{"page":3},{"page":1,"rotate":180}]');
+      }
+      const instructions = PdfOrganizeService.parseInstructions(String(params.instructions));
+
+      return {
+        outputs: ['pdf'],
+        options: { instructions },
+        async *convertFile(input) {
+          yield { type: 'pdf', buffer: await pdfOrganizeService.organizePdf(input.buffer, instructions) };
+        },
+      };
+    },
+  },
+
+  watermark: {
+    description: 'Stamp a text or image watermark onto PDF pages',
+    endpoint: { name: 'watermark', path: '/watermark', supportedFormats: { types: 'inputs' } },
+    from: ['pdf'],
+    to: ['pdf'],
+    options: [
+      { name: 'text', type: 'string', description: 'Watermark text (use either text or image)' },
+      { name: 'image', type: 'file', description: 'Watermark image (use either text or image)', values: ['png', 'jpeg'] },
+      { name: 'fontSize', type: 'number', description: 'Text size in points', default: DEFAULT_WATERMARK_OPTIONS.fontSize },
+      { name: 'font', type: 'string', description: 'Standard font name', default: DEFAULT_WATERMARK_OPTIONS.font },
+      { name: 'color', type: 'string', description: 'Text color as hex', default: DEFAULT_WATERMARK_OPTIONS.color },
+      { name: 'scale', type: 'number', description: 'Image width as a fraction of the page width', default: DEFAULT_WATERMARK_OPTIONS.scale },
+      { name: 'opacity', type: 'number', description: 'Opacity, 0-1', default: DEFAULT_WATERMARK_OPTIONS.opacity },
+      { name: 'rotation', type: 'number', description: 'Counter-clockwise degrees', default: DEFAULT_WATERMARK_OPTIONS.rotation },
+      { name: 'position', type: 'string', description: 'Page position or tile', default: DEFAULT_WATERMARK_OPTIONS.position },
+      { name: 'margin', type: 'number', description: 'Distance from the page edges in points', default: DEFAULT_WATERMARK_OPTIONS.margin },
+      { name: 'pages', type: 'string', description: 'Page ranges to watermark (default: all pages)' },
+    ],
+    limits: { maxFiles: 1, maxPages: MAX_PAGES },
+    prepare: params => {
+      // An uploaded image is passed as an object; text fields cannot provide one
+      const image = typeof params.image === 'object' && params.image !== null
+        ? params.image as { buffer: Buffer; mimetype: string }
+        : undefined;
+      const options = WatermarkService.parseOptions(params as Record<string, string | undefined>, image);
+
+      return {
+        outputs: ['pdf'],
+        options,
+        async *convertFile(input) {
+          yield { type: 'pdf', buffer: await watermarkService.watermarkPdf(input.buffer, options) };
+        },
+      };
+    },
+  },
+
+  stamp: {
+    description: 'Stamp headers, footers, page numbers and Bates numbers onto PDF pages',
+    endpoint: { name: 'stamp', path: '/stamp', supportedFormats: { types: 'inputs' } },
+    from: ['pdf'],
+    to: ['pdf'],
+    options: STAMP_OPTIONS,
+    limits: { maxFiles: 1, maxPages: MAX_PAGES },
+    prepare: params => {
+      const options = StampService.parseOptions(params as Record<string, string | undefined>);
+
+      return {
+        outputs: ['pdf'],
+        options,
+        async *convertFile(input) {
+          yield { type: 'pdf', buffer: await stampService.stampPdf(input.buffer, { ...options, filename: `${input.name}.pdf` }) };
+        },
+      };
+    },
+  },
+
+  protect: {
+    description: 'Encrypt a PDF with user/owner passwords and permissions',
+    endpoint: { name: 'protect', path: '/protect', supportedFormats: { types: 'inputs' } },
+    from: ['pdf'],
+    to: ['pdf'],
+    options: [
+      { name: 'userPassword', type: 'string', description: 'Password required to open the PDF' },
+      { name: 'ownerPassword', type: 'string', description: 'Password that grants full access (default: random)' },
+      { name: 'algorithm', type: 'enum', description: 'Encryption algorithm', default: 'aes-256', values: ENCRYPTION_ALGORITHMS },
+      { name: 'permissions', type: 'string', description: 'Comma-separated allowed actions, or "none" (default: all)' },
+    ],
+    limits: { maxFiles: 1, maxPages: MAX_PAGES },
+    prepare: params => {
+      const options = PdfEncryptionService.parseProtectOptions(params as Record<string, string | undefined>);
+
+      return {
+        outputs: ['pdf'],
+        options,
+        async *convertFile(input) {
+          yield { type: 'pdf', buffer: await pdfEncryptionService.protectPdf(input.buffer, options) };
+        },
+      };
+    },
+  },
+
+  unlock: {
+    description: 'Remove encryption from a PDF using its password',
+    endpoint: { name: 'unlock', path: '/unlock', supportedFormats: { types: 'inputs' } },
+    from: ['pdf'],
+    to: ['pdf'],
+    options: [],
+    limits: { maxFiles: 1, maxPages: MAX_PAGES },
+    prepare: () => ({
+      outputs: ['pdf'],
+      options: {},
+      async *convertFile(input, context) {
+        yield { type: 'pdf', buffer: await pdfEncryptionService.unlockPdf(input.buffer, context.password) };
+      },
+    }),
+  },
+
+  metadata: {
+    description: 'Set document properties (Info dictionary and XMP)',
+    endpoint: { name: 'metadata', path: '/metadata', supportedFormats: { types: 'inputs' } },
+    from: ['pdf'],
+    to: ['pdf'],
+    options: METADATA_OPTIONS,
+    limits: { maxFiles: 1, maxPages: MAX_PAGES },
+    prepare: params => {
+      const metadata = PdfMetadataService.parseMetadata(params, true);
+
+      return {
+        outputs: ['pdf'],
+        options: { metadata },
+        async *convertFile(input) {
+          yield { type: 'pdf', buffer: await pdfMetadataService.updateMetadata(input.buffer, metadata) };
+        },
+      };
+    },
+  },
+
+  'fill-form': {
+    description: 'Fill AcroForm fields and optionally flatten the form',
+    endpoint: { name: 'formFill', path: '/forms/fill', supportedFormats: { key: 'forms', types: 'inputs' } },
+    from: ['pdf'],
+    to: ['pdf'],
+    options: [
+      { name: 'values', type: 'json', description: 'Field names to values, e.g. {"name":"Jane Doe","agree":true}' },
+      { name: 'flatten', type: 'boolean', description: 'Merge the filled fields into the page content', default: false },
+    ],
+    limits: { maxFiles: 1, maxPages: MAX_PAGES },
+    prepare: params => {
+      if (!params.values) {
+        throw new Error('"values" is required, e.g. {"name":"Jane Doe","agree":true}');
+      }
+      const values = PdfFormsService.parseValues(String(params.values));
+      const flatten = params.flatten === 'true';
+
+      return {
+        outputs: ['pdf'],
+        options: { values, flatten },
+        async *convertFile(input) {
+          yield { type: 'pdf', buffer: await pdfFormsService.fillForm(input.buffer, values, { flatten }) };
+        },
+      };
+    },
+  },
+
+  thumbnail: {
+    description: 'Render a page preview or a contact sheet as a single image',
+    endpoint: { name: 'thumbnail', path: '/thumbnail', supportedFormats: { types: 'outputs' } },
+    from: ['pdf'],
+    to: IMAGE_FORMATS,
+    routable: false,
+    options: [
+      { name: 'format', type: 'enum', description: 'Image format', default: 'png', values: IMAGE_FORMATS },
+      { name: 'page', type: 'integer', description: 'Page to render', default: 1 },
+      { name: 'sheet', type: 'boolean', description: 'Compose all pages into a contact sheet', default: false },
+      { name: 'columns', type: 'integer', description: 'Contact sheet columns, 1-20', default: 4 },
+      ...RENDER_OPTIONS.map(option => ['maxWidth', 'maxHeight'].includes(option.name)
+        ? { ...option, description: `${option.description}; the cell size on a contact sheet`, default: 256 }
+        : option),
+    ],
+    limits: { maxFiles: 1, maxPages: MAX_PAGES },
+    prepare: (params, target) => {
+      const format = parseImageFormat(params, target, false) as ImageFormat;
+      const renderOptions = PDFConverterService.parseRenderOptions(params);
+      const { page, sheet, columns } = PDFConverterService.parseThumbnailOptions(params);
+
+      return {
+        outputs: [format],
+        options: { format, ...renderOptions, page, sheet, columns },
+        async *convertFile(input, context) {
+          const { password } = context;
+          const buffer = sheet
+            ? await pdfWorkerPool.run('renderContactSheet', [input.buffer, { ...renderOptions, format, columns, password }], taskOptions(context))
+            : await pdfWorkerPool.run('renderThumbnail', [input.buffer, { ...renderOptions, format, page, password }], taskOptions(context));
+
+          yield { path: sheet ? 'sheet' : `page-${page ?? 1}`, type: format, buffer };
+        },
+      };
+    },
+  },
+
+  'pdf-to-text': {
+    description: 'Extract the text of a PDF as a single text file',
+    from: ['pdf'],
+    to: ['txt'],
+    options: [],
+    limits: { maxFiles: 1, maxPages: MAX_PAGES },
+    prepare: () => ({
+      outputs: ['txt'],
+      options: {},
+      async *convertFile(input, context) {
+        const pages: string[] = [];
+        const extractedContent = pdfWorkerPool.stream(
+          'streamPdfContent',
+          [input.buffer, { password: context.password, includeImages: false }],
+          taskOptions(context)
+        );
+
+        for await (const page of extractedContent) {
+          pages.push(page.textContent);
+        }
+        yield { type: 'txt', buffer: Buffer.from(pages.join('\n\n'), 'utf-8') };
+      },
+    }),
+  },
+} satisfies Record<string, Converter>;
+
+export type ConverterId = keyof typeof pdfConverters;
+
+export const converterRegistry = new ConverterRegistry(pdfConverters);
@@ -10,6 +10,7 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { open } from 'fs/promises';
 
 /**
  * Configuration for DoS protection
@@ -43,6 +44,28 @@ export const DEFAULT_DOS_CONFIG: DosProtectionConfig = {
  */
 const concurrentRequests: Map<string, number> = new Map();
 
+/**
+ * Release of the concurrent request slot held by each response
+ */
+const concurrentSlots = new WeakMap<Response, () => void>();
+
+/**
+ * Track open event streams per IP
+ */
+const openStreams: Map<string, number> = new Map();
+
+/**
+ * Decrement the count of an IP, removing it at zero
+ */
+const decrementCount = (counts: Map<string, number>, clientIp: string): void => {
+    const count = counts.get(clientIp) || 0;
+    if (count <= 1) {
+        counts.delete(clientIp);
+    } else {
+        counts.set(clientIp, count - 1);
+    }
+};
+
 /**
  * Get client IP address, handling proxies
  */
@@ -120,18 +143,59 @@ export const concurrentRequestLimiter = (
         // Increment counter
         concurrentRequests.set(clientIp, currentCount + 1);
 
-        // Decrement counter when request finishes
+        // Decrement counter when request finishes (or when the slot is released early)
         let cleanedUp = false;
         const cleanup = () => {
             if (cleanedUp) return;
             cleanedUp = true;
+            decrementCount(concurrentRequests, clientIp);
+        };
 
-            const count = concurrentRequests.get(clientIp) || 0;
-            if (count <= 1) {
-                concurrentRequests.delete(clientIp);
-            } else {
-                concurrentRequests.set(clientIp, count - 1);
-            }
+        concurrentSlots.set(res, cleanup);
+        res.on('finish', cleanup);
+        res.on('close', cleanup);
+
+        next();
+    };
+};
+
+/**
+ * Event stream limiter
+ * 
+ * For long-lived responses such as Server-Sent Events: releases the
+ * request's concurrent request slot, so open streams do not block other
+ * requests from the same IP, and limits the streams each IP keeps open
+ * instead.
+ */
+export const eventStreamLimiter = (maxStreams: number) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const clientIp = getClientIp(req);
+        const currentCount = openStreams.get(clientIp) || 0;
+
+        if (currentCount >= maxStreams) {
+            console.warn('[SECURITY] Open event stream limit exceeded:', {
+                ip: clientIp,
+                currentCount,
+                maxStreams,
+                path: req.path,
+                timestamp: new Date().toISOString(),
+            });
+
+            res.status(429).json({
+                status: 'error',
+                message: `Too many open event streams (maximum ${maxStreams}). Close a stream before opening another.`,
+            });
+            return;
+        }
+
+        openStreams.set(clientIp, currentCount + 1);
+        concurrentSlots.get(res)?.();
+
+        let cleanedUp = false;
+        const cleanup = () => {
+            if (cleanedUp) return;
+            cleanedUp = true;
+            decrementCount(openStreams, clientIp);
         };
 
         res.on('finish', cleanup);
@@ -141,6 +205,16 @@ export const concurrentRequestLimiter = (
     };
 };
 
+/**
+ * Format a size limit for messages, e.g. "10MB" or "500KB"
+ */
+export const formatSize = (bytes: number): string => {
+    const megabytes = bytes / 1024 / 1024;
+    return megabytes >= 1
+        ? `${Math.round(megabytes * 10) / 10}MB`
+        : `${Math.round(bytes / 1024)}KB`;
+};
+
 /**
  * Payload size limiter
  * 
@@ -164,7 +238,7 @@ export const payloadSizeLimiter = (
 
             res.status(413).json({
                 status: 'error',
-                message: `Request payload too large. Maximum size is ${Math.round(maxSize / 1024 / 1024)}MB.`,
+                message: `Request payload too large. Maximum size is ${formatSize(maxSize)}.`,
             });
             return;
         }
@@ -173,6 +247,42 @@ export const payloadSizeLimiter = (
     };
 };
 
+/**
+ * Parts of a PDF the complexity validator looks at: page markers near the
+ * start, the trailer at the end
+ */
+const PDF_SCAN_HEAD_BYTES = 1024 * 1024;
+const PDF_SCAN_TAIL_BYTES = 64 * 1024;
+
+/**
+ * Read the parts of a PDF on disk that the validators look at, without
+ * reading the whole file
+ * 
+ * validatePdfComplexity and the magic byte check give the same result for
+ * the sample as for the whole file.
+ * 
+ * @param path - File of an upload kept on disk
+ * @returns The start and the end of the file, or the whole file if it is small
+ */
+export const readPdfSample = async (path: string): Promise<Buffer> => {
+    const file = await open(path);
+
+    try {
+        const { size } = await file.stat();
+        if (size <= PDF_SCAN_HEAD_BYTES + PDF_SCAN_TAIL_BYTES) {
+            return await file.readFile();
+        }
+
+        const head = Buffer.alloc(PDF_SCAN_HEAD_BYTES);
+        const tail = Buffer.alloc(PDF_SCAN_TAIL_BYTES);
+        await file.read(head, 0, PDF_SCAN_HEAD_BYTES, 0);
+        await file.read(tail, 0, PDF_SCAN_TAIL_BYTES, size - PDF_SCAN_TAIL_BYTES);
+        return Buffer.concat([head, tail]);
+    } finally {
+        await file.close();
+    }
+};
+
 /**
  * PDF complexity validator
  * 
@@ -184,7 +294,7 @@ export const payloadSizeLimiter = (
 export const validatePdfComplexity = async (
     pdfBuffer: Buffer,
     maxPages: number = DEFAULT_DOS_CONFIG.maxPdfPages
-): Promise<{ valid: boolean; pageCount?: number; error?: string }> => {
+): Promise<{ valid: boolean; pageCount?: number; encrypted?: boolean; error?: string }> => {
     try {
         // Quick check for PDF header
         if (pdfBuffer.length < 5) {
@@ -193,7 +303,12 @@ export const validatePdfComplexity = async (
 
         // Count approximate pages by looking for page object markers
         // This is a fast heuristic, not a full PDF parse
-        const content = pdfBuffer.toString('utf8', 0, Math.min(pdfBuffer.length, 1024 * 1024));
+        const content = pdfBuffer.toString('utf8', 0, Math.min(pdfBuffer.length, PDF_SCAN_HEAD_BYTES));
+
+        // Detect an /Encrypt entry in the trailer (at the end, or near the start of linearized files)
+        const tail = pdfBuffer.toString('latin1', Math.max(0, pdfBuffer.length - PDF_SCAN_TAIL_BYTES));
+        const encryptPattern = /\/Encrypt\s*(\d+\s+\d+\s+R|<<)/;
+        const encrypted = encryptPattern.test(tail) || encryptPattern.test(content);
 
         // Count /Type /Page occurrences (each page has this marker)
         const pageMatches = content.match(/\/Type\s*\/Page[^s]/g);
@@ -210,11 +325,12 @@ export const validatePdfComplexity = async (
             return {
                 valid: false,
                 pageCount,
+                encrypted,
                 error: `PDF has too many pages (${pageCount}). Maximum allowed is ${maxPages} pages.`,
             };
         }
 
-        return { valid: true, pageCount };
+        return { valid: true, pageCount, encrypted };
     } catch (error) {
         return {
             valid: false,
@@ -223,44 +339,96 @@ export const validatePdfComplexity = async (
     }
 };
 
+/**
+ * Options for the PDF complexity middleware
+ */
+export interface PdfComplexityOptions {
+    // Field name to check when files are grouped by field (upload.fields())
+    fieldName?: string;
+    // Let encrypted PDFs through (the route must handle passwords itself)
+    allowEncrypted?: boolean;
+}
+
 /**
  * Middleware to validate PDF complexity after upload
+ * 
+ * Works with upload.single(), upload.array() and upload.fields() (using the
+ * configured field name). When several PDFs are uploaded, the limit applies
+ * to their combined page count.
+ * 
+ * Encrypted PDFs are rejected with an explanation unless allowEncrypted is set.
+ * Uploads kept on disk are checked from a sample (readPdfSample).
  */
 export const pdfComplexityMiddleware = (
-    maxPages: number = DEFAULT_DOS_CONFIG.maxPdfPages
+    maxPages: number = DEFAULT_DOS_CONFIG.maxPdfPages,
+    options: PdfComplexityOptions = {}
 ) => {
+    const { fieldName = 'pdf', allowEncrypted = false } = options;
+
     return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const files = req.file
+            ? [req.file]
+            : Array.isArray(req.files) ? req.files : req.files?.[fieldName] || [];
+
         // Skip if no file uploaded
-        if (!req.file || !req.file.buffer) {
+        if (files.length === 0 || files.some(file => !file.buffer && !file.path)) {
             next();
             return;
         }
 
-        const result = await validatePdfComplexity(req.file.buffer, maxPages);
+        let totalPages = 0;
+        let encrypted = false;
+        let error: string | undefined;
+
+        for (const file of files) {
+            const result = await validatePdfComplexity(file.buffer ?? await readPdfSample(file.path), maxPages);
+            const prefix = files.length > 1 ? `${file.originalname}: ` : '';
+
+            totalPages += result.pageCount || 0;
+            encrypted = encrypted || !!result.encrypted;
+
+            if (!result.valid) {
+                error = result.error ? `${prefix}${result.error}` : undefined;
+                break;
+            }
+
+            if (result.encrypted && !allowEncrypted) {
+                error = `${prefix}PDF is encrypted (password protected) and cannot be processed by this endpoint. ` +
+                    'Remove the password protection and try again.';
+                break;
+            }
+        }
+
+        if (!error && totalPages > maxPages) {
+            error = `PDFs have too many pages combined (${totalPages}). Maximum allowed is ${maxPages} pages.`;
+        }
 
-        if (!result.valid) {
+        if (error) {
             console.warn('[SECURITY] PDF complexity check failed:', {
                 ip: getClientIp(req),
-                filename: req.file.originalname,
-                pageCount: result.pageCount,
+                filename: files.map(file => file.originalname).join(', '),
+                pageCount: totalPages,
+                encrypted,
                 maxPages,
-                error: result.error,
+                error,
                 timestamp: new Date().toISOString(),
             });
 
             res.status(400).json({
                 status: 'error',
-                message: result.error || 'PDF validation failed',
+                message: error,
                 details: {
-                    pageCount: result.pageCount,
+                    pageCount: totalPages,
                     maxAllowed: maxPages,
+                    encrypted,
                 },
             });
             return;
         }
 
-        // Attach page count to request for logging
-        (req as any).pdfPageCount = result.pageCount;
+        // Attach page count and encryption status to request for logging
+        (req as any).pdfPageCount = totalPages;
+        (req as any).pdfEncrypted = encrypted;
 
         next();
     };
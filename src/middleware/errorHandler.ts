@@ -15,10 +15,11 @@ export class AppError extends Error {
   constructor(
     public statusCode: number,
     public message: string,
-    public isOperational: boolean = true
+    public isOperational: boolean = true,
+    public details?: unknown
   ) {
     super(message);
-    Object.setPrototypeOf(this, AppError.prototype);
+    Object.setPrototypeOf(this, new.target.prototype);
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -29,6 +30,7 @@ export class AppError extends Error {
 interface ErrorResponse {
   status: 'error' | 'fail';
   message: string;
+  details?: unknown;
   stack?: string;
   error?: any;
 }
@@ -57,12 +59,23 @@ export const errorHandler = (
     stack: err.stack,
   });
   
+  // A streamed response has already started; let Express close the connection
+  if (res.headersSent) {
+    _next(err);
+    return;
+  }
+  
   // Prepare error response
   const errorResponse: ErrorResponse = {
     status: statusCode >= 500 ? 'error' : 'fail',
     message,
   };
   
+  // Include structured details for client errors (e.g. per-field validation)
+  if (err instanceof AppError && err.details !== undefined) {
+    errorResponse.details = err.details;
+  }
+  
   // Include stack trace in development
   if (!isProduction) {
     errorResponse.stack = err.stack;
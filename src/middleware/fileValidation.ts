@@ -10,6 +10,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { FileValidator, ValidationResult } from '../utils/fileValidator';
+import { readPdfSample } from './dosProtection';
 
 /**
  * Error class for file validation failures
@@ -30,20 +31,22 @@ export class FileValidationError extends Error {
  * Middleware to validate a single PDF file upload
  * 
  * Use after multer's upload.single() middleware.
- * Validates that the uploaded file is an authentic PDF.
+ * Validates that the uploaded file is an authentic PDF; uploads kept on disk
+ * are checked from a sample of the file.
  */
-export const validatePdfUpload = (
+export const validatePdfUpload = async (
     req: Request,
     res: Response,
     next: NextFunction
-): void => {
+): Promise<void> => {
     // Skip if no file uploaded (let route handler deal with it)
     if (!req.file) {
         next();
         return;
     }
 
-    const { buffer, originalname, mimetype } = req.file;
+    const { originalname, mimetype, size } = req.file;
+    const buffer = req.file.buffer ?? await readPdfSample(req.file.path);
 
     const result = FileValidator.validatePdf(buffer, originalname, mimetype);
 
@@ -55,7 +58,7 @@ export const validatePdfUpload = (
             filename: originalname,
             mimetype,
             detectedType: result.detectedType,
-            fileSize: buffer.length,
+            fileSize: size,
             errors: result.errors,
             ip: req.ip,
             timestamp: new Date().toISOString(),
@@ -73,6 +76,64 @@ export const validatePdfUpload = (
     next();
 };
 
+/**
+ * Middleware to validate multiple PDF file uploads
+ * 
+ * Use after multer's upload.array() middleware.
+ * Validates that all uploaded files are authentic PDFs.
+ */
+export const validatePdfUploads = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): void => {
+    // Skip if no files uploaded (let route handler deal with it)
+    if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
+        next();
+        return;
+    }
+
+    const validationErrors: Array<{ filename: string; error: string }> = [];
+
+    for (let i = 0; i < req.files.length; i++) {
+        const file = req.files[i];
+        const { buffer, originalname, mimetype } = file;
+
+        const result = FileValidator.validatePdf(buffer, originalname, mimetype);
+
+        if (!result.isValid) {
+            validationErrors.push({
+                filename: originalname,
+                error: FileValidator.formatValidationError(result),
+            });
+
+            // Log security-relevant information
+            console.warn('[SECURITY] PDF validation failed:', {
+                index: i + 1,
+                filename: originalname,
+                mimetype,
+                detectedType: result.detectedType,
+                fileSize: buffer.length,
+                errors: result.errors,
+                ip: req.ip,
+                timestamp: new Date().toISOString(),
+            });
+        }
+    }
+
+    if (validationErrors.length > 0) {
+        res.status(400).json({
+            status: 'error',
+            message: 'One or more PDFs failed validation',
+            invalidFiles: validationErrors,
+        });
+        return;
+    }
+
+    // All files are valid, proceed
+    next();
+};
+
 /**
  * Middleware to validate multiple image file uploads
  * 
@@ -178,6 +239,66 @@ export const validateTextUpload = (
     next();
 };
 
+/**
+ * Factory function to validate uploads grouped by field
+ * 
+ * Use after multer's upload.fields() middleware.
+ * Each field is validated against its own allowed file types.
+ * Text files have no magic bytes; a field allowing 'txt' is validated as text.
+ * 
+ * @param fieldTypes - Map of field name to allowed file type keys (e.g., { pdf: ['pdf'], image: ['png', 'jpeg'] })
+ * @returns Express middleware function
+ */
+export const validateFieldUploads = (fieldTypes: Record<string, string[]>) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        // Skip if no files uploaded (let route handler deal with it)
+        if (!req.files || Array.isArray(req.files)) {
+            next();
+            return;
+        }
+
+        const errors: Array<{ field: string; filename: string; error: string }> = [];
+
+        for (const [field, allowedTypes] of Object.entries(fieldTypes)) {
+            for (const file of req.files[field] || []) {
+                const { buffer, originalname, mimetype } = file;
+                const result = allowedTypes.includes('txt')
+                    ? FileValidator.validateText(buffer, originalname, mimetype)
+                    : FileValidator.validateFile(buffer, originalname, mimetype, allowedTypes);
+
+                if (!result.isValid) {
+                    errors.push({
+                        field,
+                        filename: originalname,
+                        error: FileValidator.formatValidationError(result),
+                    });
+
+                    console.warn('[SECURITY] File validation failed:', {
+                        field,
+                        filename: originalname,
+                        mimetype,
+                        detectedType: result.detectedType,
+                        errors: result.errors,
+                        ip: req.ip,
+                        timestamp: new Date().toISOString(),
+                    });
+                }
+            }
+        }
+
+        if (errors.length > 0) {
+            res.status(400).json({
+                status: 'error',
+                message: 'One or more files failed validation',
+                invalidFiles: errors,
+            });
+            return;
+        }
+
+        next();
+    };
+};
+
 /**
  * Factory function to create custom file validation middleware
  * 
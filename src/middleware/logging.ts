@@ -58,7 +58,14 @@ export const devLogger = (
       console.log('Query:', req.query);
     }
     if (Object.keys(req.body || {}).length > 0) {
-      console.log('Body:', req.body);
+      // Never log passwords for encrypted PDFs
+      const body = { ...req.body };
+      for (const key of Object.keys(body)) {
+        if (/password/i.test(key)) {
+          body[key] = '[REDACTED]';
+        }
+      }
+      console.log('Body:', body);
     }
   }
   next();
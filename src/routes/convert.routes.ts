@@ -0,0 +1,249 @@
+/**
+ * Convert Routes
+ *
+ * Generic conversion between file types. The converter registry finds the
+ * shortest chain of converters from the uploaded type to the requested one,
+ * e.g. txt to docx through text-to-pdf and pdf-to-docx, so any conversion the
+ * registered converters can reach is available without a dedicated route.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { convertUpload, getUploadErrorMessage } from '../config/upload';
+import { pipelineService, PipelineService, PipelineStep } from '../services/pipeline.service';
+import { Artifact, ArtifactType, ARTIFACT_TYPES, ARTIFACT_CONTENT_TYPES } from '../converters/converterRegistry';
+import { converterRegistry } from '../converters/pdfConverters';
+import { FileValidator } from '../utils/fileValidator';
+import { streamZip, ZipEntry } from '../utils/zipStream';
+import { asyncHandler } from '../utils/asyncHandler';
+import { validatePdfComplexity } from '../middleware/dosProtection';
+
+export const convertRouter: Router = Router();
+
+/**
+ * File types that can be uploaded; each file is validated by its content
+ */
+const UPLOAD_TYPES: readonly ArtifactType[] = ['pdf', 'png', 'jpeg', 'txt'];
+
+/**
+ * Read the optional password for encrypted PDFs from the multipart form
+ * (never from the query string, so it does not end up in request logs)
+ */
+const getPassword = (req: Request): string | undefined => {
+  const password = req.body?.password;
+  return typeof password === 'string' && password !== '' ? password : undefined;
+};
+
+/**
+ * Abort signal for worker tasks that fires when the response is closed,
+ * e.g. when the client disconnects or the request timeout has responded
+ */
+const responseSignal = (res: Response): AbortSignal => {
+  const controller = new AbortController();
+  res.once('close', () => controller.abort());
+  return controller.signal;
+};
+
+/**
+ * Parse the "from" or "to" parameter
+ *
+ * @throws Error if the type is missing or not one of the allowed types
+ */
+const parseType = (value: unknown, name: string, allowed: readonly ArtifactType[]): ArtifactType => {
+  const type = typeof value === 'string' ? value.trim().toLowerCase().replace(/^jpg$/, 'jpeg') : '';
+  if (!(allowed as readonly string[]).includes(type)) {
+    throw new Error(`Invalid "${name}" type. Supported types: ${allowed.join(', ')}`);
+  }
+  return type as ArtifactType;
+};
+
+/**
+ * Archive entries for the results, with a counter for repeated filenames
+ */
+const toZipEntries = (artifacts: Artifact[]): ZipEntry[] => {
+  const used = new Set<string>();
+
+  return artifacts.map(artifact => {
+    let name = `${artifact.name}.${artifact.type}`;
+    for (let counter = 2; used.has(name.toLowerCase()); counter++) {
+      name = `${artifact.name} (${counter}).${artifact.type}`;
+    }
+    used.add(name.toLowerCase());
+    return { name, source: artifact.buffer };
+  });
+};
+
+/**
+ * POST /?from=X&to=Y
+ *
+ * Convert the uploaded files from one file type to another, in as many steps
+ * as needed, e.g. txt to docx, png to docx or txt to png. The steps are the
+ * converters behind the /api/pdf endpoints and take the same options.
+ *
+ * Query Parameters (or form fields):
+ *   - from: Type of the uploaded files - pdf, png, jpeg or txt (required)
+ *   - to: Type of the result - pdf, png, jpeg, webp, avif, tiff, txt or docx (required)
+ *   - Any option of the converters on the path, e.g. dpi or title; options
+ *     that no step declares are rejected. The target type of each step takes
+ *     the place of its format option.
+ *
+ * Request Body (multipart/form-data):
+ *   - files: Files of the "from" type (max CONVERT_MAX_FILES, default 20, or
+ *     fewer if the first converter takes fewer, e.g. one PDF)
+ *   - password: Optional password for encrypted PDFs
+ *
+ * Response:
+ *   - The result file if there is one, otherwise a ZIP archive of all results
+ *   - 400 if no converters lead from one type to the other
+ */
+convertRouter.post(
+  '/',
+  convertUpload.array('files'),
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Check if files were uploaded
+    if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No files uploaded. Please provide files in the "files" field.',
+      });
+      return;
+    }
+
+    // Options can be sent as query parameters or form fields; the password only in the form
+    const { from: fromParam, to: toParam, password: _password, ...params }: Record<string, unknown> = {
+      ...(req.body || {}),
+      ...req.query,
+    };
+
+    // Find the path and prepare every step before converting anything
+    let from: ArtifactType;
+    let to: ArtifactType;
+    let steps: PipelineStep[];
+
+    try {
+      from = parseType(fromParam, 'from', UPLOAD_TYPES);
+      to = parseType(toParam, 'to', ARTIFACT_TYPES);
+      steps = PipelineService.planConversion(from, to, params);
+    } catch (error) {
+      res.status(400).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Invalid conversion',
+      });
+      return;
+    }
+
+    // The first converter may take fewer files than the upload allows, e.g. a single PDF
+    const { limits } = converterRegistry.get(steps[0].operation);
+
+    if (req.files.length > limits.maxFiles) {
+      res.status(400).json({
+        status: 'error',
+        message: `Too many files (${req.files.length}). ${steps[0].operation} accepts at most ${limits.maxFiles} per request.`,
+      });
+      return;
+    }
+
+    const invalidFiles = req.files.flatMap(file => {
+      const result = from === 'txt'
+        ? FileValidator.validateText(file.buffer, file.originalname, file.mimetype)
+        : FileValidator.validateFile(file.buffer, file.originalname, file.mimetype, [from]);
+
+      return result.isValid
+        ? []
+        : [{ field: 'files', filename: file.originalname, error: FileValidator.formatValidationError(result) }];
+    });
+
+    if (invalidFiles.length > 0) {
+      res.status(400).json({
+        status: 'error',
+        message: 'One or more files failed validation',
+        invalidFiles,
+      });
+      return;
+    }
+
+    if (from === 'pdf') {
+      for (const file of req.files) {
+        const complexity = await validatePdfComplexity(file.buffer, convertUpload.limits.maxPages);
+        if (!complexity.valid) {
+          res.status(400).json({
+            status: 'error',
+            message: `${file.originalname}: ${complexity.error || 'PDF is too complex to process'}`,
+          });
+          return;
+        }
+      }
+    }
+
+    try {
+      const inputs = req.files.map((file): Artifact => ({
+        name: file.originalname.replace(/\.[^.]+$/, '') || 'file',
+        type: from,
+        buffer: file.buffer,
+      }));
+
+      const outputs = await pipelineService.run(steps, inputs, {
+        signal: responseSignal(res),
+        password: getPassword(req),
+      }, convertUpload.limits.maxPages);
+
+      if (outputs.length === 1) {
+        const [output] = outputs;
+
+        res.setHeader('Content-Type', ARTIFACT_CONTENT_TYPES[output.type]);
+        res.setHeader('Content-Disposition', `attachment; filename="${output.name}.${output.type}"`);
+        res.setHeader('Content-Length', output.buffer.length);
+
+        res.send(output.buffer);
+        return;
+      }
+
+      // Several results: stream them as a ZIP download
+      const timestamp = Date.now();
+      await streamZip(res, `${from}-to-${to}-${timestamp}.zip`, toZipEntries(outputs));
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * GET /capabilities
+ *
+ * List the registered converters with their file types, options and limits,
+ * and every from/to pair POST / can convert, with the steps it takes.
+ */
+convertRouter.get('/capabilities', (_req: Request, res: Response) => {
+  const conversions = UPLOAD_TYPES.flatMap(from => ARTIFACT_TYPES.flatMap(to => {
+    const hops = converterRegistry.findPath(from, to);
+    return hops ? [{ from, to, steps: hops.map(hop => hop.id) }] : [];
+  }));
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      uploadTypes: UPLOAD_TYPES,
+      conversions,
+      converters: converterRegistry.describe(),
+    },
+  });
+});
+
+/**
+ * Error handler for multer errors
+ * This middleware catches file upload errors
+ */
+convertRouter.use((err: any, _req: Request, res: Response, next: NextFunction) => {
+  // Check if it's a multer error
+  if (err.name === 'MulterError') {
+    res.status(400).json({
+      status: 'error',
+      message: getUploadErrorMessage(err),
+    });
+    return;
+  }
+
+  // Pass to global error handler
+  next(err);
+});
@@ -7,6 +7,7 @@
 import { Router, Request, Response } from 'express';
 import { asyncHandler } from '../utils/asyncHandler';
 import { env } from '../config/env';
+import { pdfWorkerPool } from '../workers/pdfWorkerPool';
 
 export const healthRouter: Router = Router();
 
@@ -47,3 +48,21 @@ healthRouter.get(
   })
 );
 
+/**
+ * GET /health/workers
+ * Returns worker pool state, queue depth and task counters
+ */
+healthRouter.get(
+  '/workers',
+  asyncHandler(async (_req: Request, res: Response) => {
+    res.status(200).json({
+      status: 'success',
+      data: {
+        ...pdfWorkerPool.getMetrics(),
+        taskTimeoutMs: env.WORKER_TASK_TIMEOUT_MS,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  })
+);
+
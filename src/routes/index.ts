@@ -7,6 +7,9 @@
 import { Router } from 'express';
 import { healthRouter } from './health.routes';
 import { pdfRouter } from './pdf.routes';
+import { jobsRouter } from './jobs.routes';
+import { pipelineRouter } from './pipeline.routes';
+import { convertRouter } from './convert.routes';
 
 /**
  * Main router that combines all route modules
@@ -20,6 +23,15 @@ export const createRouter = (): Router => {
   // PDF conversion routes
   router.use('/pdf', pdfRouter);
   
+  // Asynchronous conversion jobs
+  router.use('/jobs', jobsRouter);
+  
+  // Multi-step pipelines
+  router.use('/pipeline', pipelineRouter);
+  
+  // Generic conversion between file types
+  router.use('/convert', convertRouter);
+  
   // Add more route modules here as the application grows
   // Example:
   // router.use('/users', userRouter);
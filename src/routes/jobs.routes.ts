@@ -0,0 +1,445 @@
+/**
+ * Job Routes
+ *
+ * API endpoints for running conversions as asynchronous jobs.
+ * A job accepts the same files and options as the synchronous route of its
+ * type; the result is kept on disk until the job expires. Progress can be
+ * polled or followed as Server-Sent Events.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { createReadStream } from 'fs';
+import { jobUpload, getUploadErrorMessage } from '../config/upload';
+import { env } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { jobService, isFinished, JobContext, JobTask, JobType, JOB_TYPES } from '../services/jobs.service';
+import { WebhookService } from '../services/webhook.service';
+import {
+  Artifact,
+  Conversion,
+  ConverterContext,
+  ARTIFACT_CONTENT_TYPES,
+  convertInput,
+  runConversion,
+} from '../converters/converterRegistry';
+import { converterRegistry } from '../converters/pdfConverters';
+import { FileValidator } from '../utils/fileValidator';
+import { ZipEntry } from '../utils/zipStream';
+import { asyncHandler } from '../utils/asyncHandler';
+import { validateFieldUploads } from '../middleware/fileValidation';
+import { pdfComplexityMiddleware, eventStreamLimiter } from '../middleware/dosProtection';
+
+export const jobsRouter: Router = Router();
+
+/**
+ * Files and options of a job request
+ */
+interface JobInput {
+  params: Record<string, unknown>;
+  files: Record<string, Express.Multer.File[]>;
+  password?: string;
+}
+
+/**
+ * Read the optional password for encrypted PDFs from the multipart form
+ * (never from the query string, so it does not end up in request logs)
+ */
+const getPassword = (req: Request): string | undefined => {
+  const password = req.body?.password;
+  return typeof password === 'string' && password !== '' ? password : undefined;
+};
+
+/**
+ * Interval of comment lines that keep idle event streams open through proxies
+ */
+const SSE_HEARTBEAT_MS = 15 * 1000;
+
+/**
+ * Converter options for a job: cancellation, progress, warnings, the job time
+ * limit and the password
+ */
+const converterContext = ({ signal, onProgress, onWarning }: JobContext, password?: string): ConverterContext => ({
+  signal,
+  onProgress,
+  onWarning,
+  timeoutMs: env.JOB_TIMEOUT_MS,
+  password,
+});
+
+/**
+ * Write a Server-Sent Event
+ */
+const sendEvent = (res: Response, event: string, data: unknown): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  // The compression middleware buffers output; deliver the event now
+  res.flush();
+};
+
+/**
+ * Get the uploaded PDF of a job, named without its extension
+ */
+const requirePdf = (files: JobInput['files']): Artifact => {
+  const pdf = files.pdf?.[0];
+  if (!pdf) {
+    throw new Error('No PDF file uploaded. Please provide a PDF file in the "pdf" field.');
+  }
+  return { name: pdf.originalname.replace(/\.pdf$/i, ''), type: 'pdf', buffer: pdf.buffer };
+};
+
+/**
+ * Run a conversion that produces a single file
+ */
+const convertToBuffer = async (conversion: Conversion, inputs: Artifact[], context: ConverterContext): Promise<Buffer> => {
+  const [result] = await runConversion(conversion, inputs, context);
+  return result.buffer;
+};
+
+/**
+ * Archive entries of a conversion that produces several files, named by
+ * their path (e.g. page-1.png)
+ */
+async function* zipEntries(conversion: Conversion, input: Artifact, context: ConverterContext): AsyncGenerator<ZipEntry> {
+  for await (const result of convertInput(conversion, input, context)) {
+    yield { name: `${result.path}.${result.extension ?? result.type}`, source: result.buffer };
+  }
+}
+
+/**
+ * Parse the options of a job and describe its work, per job type
+ *
+ * Option errors are thrown as plain Errors (400 responses), exactly like the
+ * synchronous routes report them, since both prepare the same converters.
+ */
+const jobBuilders: Record<JobType, (input: JobInput) => JobTask> = {
+  convert: ({ params, files, password }) => {
+    const pdf = requirePdf(files);
+    const conversion = converterRegistry.get('convert').prepare(params);
+
+    // tiff produces a single multi-page file, other formats one image per page
+    if (conversion.outputs.includes('tiff')) {
+      return {
+        filename: `${pdf.name}.tiff`,
+        contentType: ARTIFACT_CONTENT_TYPES.tiff,
+        produce: context => convertToBuffer(conversion, [pdf], converterContext(context, password)),
+      };
+    }
+
+    return {
+      filename: `${pdf.name}_converted.zip`,
+      contentType: 'application/zip',
+      produce: context => zipEntries(conversion, pdf, converterContext(context, password)),
+    };
+  },
+
+  extract: ({ files, password }) => {
+    const pdf = requirePdf(files);
+    const conversion = converterRegistry.get('extract').prepare({});
+
+    return {
+      filename: `${pdf.name}_extracted.zip`,
+      contentType: 'application/zip',
+      produce: context => zipEntries(conversion, pdf, converterContext(context, password)),
+    };
+  },
+
+  'pdf-to-docx': ({ params, files, password }) => {
+    const pdf = requirePdf(files);
+    const conversion = converterRegistry.get('pdf-to-docx').prepare(params);
+
+    return {
+      filename: `${pdf.name}.docx`,
+      contentType: ARTIFACT_CONTENT_TYPES.docx,
+      produce: context => convertToBuffer(conversion, [pdf], converterContext(context, password)),
+    };
+  },
+
+  'text-to-pdf': ({ params, files }) => {
+    const text = files.text?.[0];
+    if (!text) {
+      throw new Error('No text file uploaded. Please provide a .txt file in the "text" field.');
+    }
+
+    // Optional header/footer stamping and document properties
+    const conversion = converterRegistry.get('text-to-pdf').prepare(params);
+    const input: Artifact = { name: text.originalname.replace(/\.txt$/i, ''), type: 'txt', buffer: text.buffer };
+
+    return {
+      filename: `${input.name}.pdf`,
+      contentType: ARTIFACT_CONTENT_TYPES.pdf,
+      produce: context => convertToBuffer(conversion, [input], converterContext(context)),
+    };
+  },
+
+  'images-to-pdf': ({ params, files }) => {
+    if (!files.images?.length) {
+      throw new Error('No images uploaded. Please provide at least one image in the "images" field.');
+    }
+
+    const conversion = converterRegistry.get('images-to-pdf').prepare(params);
+    const images = files.images.map((file): Artifact => ({
+      name: file.originalname,
+      type: FileValidator.detectFileType(file.buffer) === 'png' ? 'png' : 'jpeg',
+      buffer: file.buffer,
+    }));
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+    const pdfName = `images-to-pdf-${timestamp}`;
+
+    return {
+      filename: `${pdfName}.pdf`,
+      contentType: ARTIFACT_CONTENT_TYPES.pdf,
+      produce: context => convertToBuffer(conversion, images, { ...converterContext(context), name: pdfName }),
+    };
+  },
+
+  thumbnail: ({ params, files, password }) => {
+    const pdf = requirePdf(files);
+    const conversion = converterRegistry.get('thumbnail').prepare(params);
+    const [format] = conversion.outputs;
+    const { page, sheet } = conversion.options as { page?: number; sheet: boolean };
+
+    return {
+      filename: `${pdf.name}_${sheet ? 'sheet' : `page-${page ?? 1}`}.${format}`,
+      contentType: ARTIFACT_CONTENT_TYPES[format],
+      produce: context => convertToBuffer(conversion, [pdf], converterContext(context, password)),
+    };
+  },
+};
+
+const isJobType = (value: unknown): value is JobType =>
+  typeof value === 'string' && (JOB_TYPES as readonly string[]).includes(value);
+
+/**
+ * POST /
+ *
+ * Start a conversion job and return its id immediately.
+ *
+ * Query Parameters (or form fields):
+ *   - type: Conversion to run - convert, extract, pdf-to-docx, text-to-pdf,
+ *     images-to-pdf or thumbnail
+ *   - callbackUrl: Optional URL that receives a signed POST when the job
+ *     completes or fails (requires WEBHOOK_SECRET)
+ *   - Any option of the matching synchronous route (e.g. format, pages, dpi)
+ *
+ * Request Body (multipart/form-data):
+ *   - pdf: PDF file (convert, extract, pdf-to-docx, thumbnail)
+ *   - text: Text file (text-to-pdf)
+ *   - images: Image files, max JOB_MAX_FILES, default 20 (images-to-pdf)
+ *   - password: Optional password for encrypted PDFs
+ *
+ * Response:
+ *   - 202 with the queued job; the Location header points to its status
+ */
+jobsRouter.post(
+  '/',
+  jobUpload.fields([
+    { name: 'pdf', maxCount: 1 },
+    { name: 'text', maxCount: 1 },
+    { name: 'images', maxCount: jobUpload.limits.maxFiles },
+  ]),
+  validateFieldUploads({ pdf: ['pdf'], text: ['txt'], images: ['png', 'jpeg'] }),
+  pdfComplexityMiddleware(jobUpload.limits.maxPages, { allowEncrypted: true }), // Password handled by the job
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Options can be sent as query parameters or form fields
+    const params: Record<string, unknown> = { ...(req.body || {}), ...req.query };
+
+    if (!isJobType(params.type)) {
+      res.status(400).json({
+        status: 'error',
+        message: `Invalid job type. Supported types: ${JOB_TYPES.join(', ')}`,
+      });
+      return;
+    }
+
+    const type = params.type;
+    const files = (req.files && !Array.isArray(req.files) ? req.files : {}) as JobInput['files'];
+
+    // Parse the options up front, so invalid requests fail before a job is queued
+    let task: JobTask;
+    let callbackUrl: string | undefined;
+
+    try {
+      callbackUrl = await WebhookService.parseCallbackUrl(params.callbackUrl);
+      task = jobBuilders[type]({ params, files, password: getPassword(req) });
+    } catch (error) {
+      if (error instanceof AppError) {
+        next(error);
+        return;
+      }
+      res.status(400).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Invalid job options',
+      });
+      return;
+    }
+
+    try {
+      const job = jobService.create(type, task, {
+        callbackUrl,
+        baseUrl: env.PUBLIC_URL?.replace(/\/+$/, '') ?? `${req.protocol}://${req.get('host')}`,
+      });
+
+      res.setHeader('Location', `${env.API_PREFIX}/jobs/${job.id}`);
+      res.status(202).json({
+        status: 'success',
+        data: jobService.toJSON(job),
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  })
+);
+
+/**
+ * GET /:id
+ *
+ * Get the status of a job, its progress (e.g. pages done / total) and, once
+ * completed, the result download URL.
+ */
+jobsRouter.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const job = jobService.get(req.params.id as string);
+
+    res.status(200).json({
+      status: 'success',
+      data: jobService.toJSON(job),
+    });
+  })
+);
+
+/**
+ * GET /:id/events
+ *
+ * Follow a job as Server-Sent Events (text/event-stream).
+ *
+ * Events:
+ *   - status: Current job state, sent on connect and when the job starts
+ *   - progress: Stage and pages done / total, e.g. one event per rendered page
+ *   - warning: Content that was skipped, e.g. an image that could not be extracted
+ *   - completed / failed / cancelled: Final job state; the stream then ends
+ *
+ * Open streams do not count as concurrent requests; each IP may keep
+ * JOB_EVENTS_MAX_STREAMS open.
+ */
+jobsRouter.get(
+  '/:id/events',
+  eventStreamLimiter(env.JOB_EVENTS_MAX_STREAMS),
+  asyncHandler(async (req: Request, res: Response) => {
+    const job = jobService.get(req.params.id as string);
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+    res.flushHeaders();
+
+    // Current state first, so clients that connect late are up to date
+    sendEvent(res, 'status', jobService.toJSON(job));
+
+    if (isFinished(job)) {
+      sendEvent(res, job.status, jobService.toJSON(job));
+      res.end();
+      return;
+    }
+
+    const heartbeat = setInterval(() => {
+      res.write(': keep-alive\n\n');
+      res.flush();
+    }, SSE_HEARTBEAT_MS);
+
+    const unsubscribe = jobService.subscribe(job.id, event => {
+      switch (event.type) {
+        case 'progress':
+          sendEvent(res, 'progress', event.progress);
+          break;
+        case 'warning':
+          sendEvent(res, 'warning', event.warning);
+          break;
+        case 'status':
+          if (isFinished(event.job)) {
+            sendEvent(res, event.job.status, jobService.toJSON(event.job));
+            res.end();
+          } else {
+            sendEvent(res, 'status', jobService.toJSON(event.job));
+          }
+          break;
+      }
+    });
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  })
+);
+
+/**
+ * GET /:id/result
+ *
+ * Download the result of a completed job.
+ *
+ * Response:
+ *   - Result file; 409 while the job is not completed
+ */
+jobsRouter.get(
+  '/:id/result',
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const job = jobService.get(req.params.id as string);
+
+    if (job.status !== 'completed' || !job.result) {
+      throw new AppError(409, `Job ${job.id} is ${job.status}; the result is only available once it has completed`);
+    }
+
+    const { filename, contentType, size, path } = job.result;
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Content-Length', size);
+
+    createReadStream(path)
+      .on('error', next)
+      .pipe(res);
+  })
+);
+
+/**
+ * DELETE /:id
+ *
+ * Cancel a queued or running job. A finished job is deleted together with
+ * its result.
+ */
+jobsRouter.delete(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const job = await jobService.cancel(req.params.id as string);
+
+    res.status(200).json({
+      status: 'success',
+      data: jobService.toJSON(job),
+    });
+  })
+);
+
+/**
+ * Error handler for multer errors
+ * This middleware catches file upload errors
+ */
+jobsRouter.use((err: any, _req: Request, res: Response, next: NextFunction) => {
+  // Check if it's a multer error
+  if (err.name === 'MulterError' ||
+    err.message === 'Only PDF files are allowed' ||
+    err.message === 'Only PNG and JPEG images are allowed' ||
+    err.message === 'Only text files (.txt) are allowed') {
+    res.status(400).json({
+      status: 'error',
+      message: getUploadErrorMessage(err),
+    });
+    return;
+  }
+
+  // Pass to global error handler
+  next(err);
+});
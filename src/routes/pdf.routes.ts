@@ -5,37 +5,223 @@
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
-import archiver from 'archiver';
-import { upload, imageUpload, textUpload, getUploadErrorMessage } from '../config/upload';
-import { pdfConverterService, PDFConverterService, ImageFormat } from '../services/pdfConverter.service';
-import { imageToPdfService, ImageToPdfService } from '../services/imageToPdf.service';
-import { pdfToDocxService, PdfToDocxService } from '../services/pdfToDocx.service';
-import { textToPdfService } from '../services/textToPdf.service';
+import { upload, workerPdfUpload, imageUpload, textUpload, pdfWithImageUpload, batchUpload, getUploadErrorMessage } from '../config/upload';
+import { PdfMergeService } from '../services/pdfMerge.service';
+import { pdfInfoService } from '../services/pdfInfo.service';
+import { pdfFormsService } from '../services/pdfForms.service';
+import { conversionCache, ConversionCacheService } from '../services/conversionCache.service';
+import { pdfBatchService, PdfBatchService, BatchOperation, BatchProcessor } from '../services/pdfBatch.service';
+import {
+  Artifact,
+  ArtifactType,
+  Conversion,
+  ConvertedFile,
+  ARTIFACT_CONTENT_TYPES,
+  convertInput,
+  runConversion,
+} from '../converters/converterRegistry';
+import { converterRegistry, ConverterId } from '../converters/pdfConverters';
+import { env } from '../config/env';
+import { streamZip, ZipEntry } from '../utils/zipStream';
+import { FileValidator } from '../utils/fileValidator';
 import { asyncHandler } from '../utils/asyncHandler';
-import { validatePdfUpload, validateImageUploads, validateTextUpload } from '../middleware/fileValidation';
-import { pdfComplexityMiddleware } from '../middleware/dosProtection';
+import {
+  validatePdfUpload,
+  validatePdfUploads,
+  validateImageUploads,
+  validateTextUpload,
+  validateFieldUploads,
+} from '../middleware/fileValidation';
+import { pdfComplexityMiddleware, formatSize } from '../middleware/dosProtection';
 
 export const pdfRouter: Router = Router();
 
+/**
+ * Read the optional password for encrypted PDFs from the multipart form
+ * (never from the query string, so it does not end up in request logs)
+ */
+const getPassword = (req: Request): string | undefined => {
+  const password = req.body?.password;
+  return typeof password === 'string' && password !== '' ? password : undefined;
+};
+
+/**
+ * Abort signal for worker tasks that fires when the response is closed,
+ * e.g. when the client disconnects or the request timeout has responded
+ */
+const responseSignal = (res: Response): AbortSignal => {
+  const controller = new AbortController();
+  res.once('close', () => controller.abort());
+  return controller.signal;
+};
+
+/**
+ * Whether an If-None-Match header matches an ETag (weak comparison)
+ */
+const matchesEtag = (ifNoneMatch: string | undefined, etag: string): boolean => {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  return ifNoneMatch
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === '*' || tag === etag);
+};
+
+/**
+ * Answer a conversion from the cache
+ *
+ * Sets the X-Cache header and, on a hit, the ETag of the cached result.
+ * Requests whose If-None-Match matches that ETag are answered with 304
+ * without converting; other hits are sent as they are. Without a cached
+ * result there is nothing to compare with, so the request is converted.
+ *
+ * @param filename - Download filename for Content-Disposition
+ * @returns true if the response was sent, false on a cache miss
+ */
+const sendCached = async (req: Request, res: Response, key: string, filename: string): Promise<boolean> => {
+  const cached = await conversionCache.get(key);
+  res.setHeader('X-Cache', cached ? 'HIT' : 'MISS');
+
+  if (!cached) {
+    return false;
+  }
+
+  res.setHeader('ETag', cached.etag);
+
+  if (matchesEtag(req.headers['if-none-match'], cached.etag)) {
+    res.status(304).end();
+    return true;
+  }
+
+  res.setHeader('Content-Type', cached.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('Content-Length', cached.body.length);
+  res.send(cached.body);
+  return true;
+};
+
+/**
+ * Validate the options of a registered converter and prepare its work,
+ * answering invalid options with 400
+ *
+ * @param fallbackMessage - Message for errors that have none
+ * @returns The prepared conversion, or undefined if the response was sent
+ */
+const prepareConversion = (
+  res: Response,
+  id: ConverterId,
+  params: Record<string, unknown>,
+  fallbackMessage: string
+): Conversion | undefined => {
+  try {
+    return converterRegistry.get(id).prepare(params);
+  } catch (error) {
+    res.status(400).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : fallbackMessage,
+    });
+    return undefined;
+  }
+};
+
+/**
+ * Input of a conversion: an uploaded file, named without its extension
+ */
+const toArtifact = (file: Express.Multer.File, type: ArtifactType): Artifact => ({
+  name: file.originalname.replace(new RegExp(`\\.${type}$`, 'i'), ''),
+  type,
+  // Uploads kept on disk are read by the worker that converts them
+  ...(file.buffer ? { buffer: file.buffer } : { buffer: Buffer.alloc(0), path: file.path }),
+});
+
+/**
+ * Cache key of a conversion of one uploaded file, read from disk in chunks
+ * for uploads kept there
+ */
+const uploadCacheKey = (operation: string, file: Express.Multer.File, options: Record<string, unknown>): Promise<string> =>
+  file.buffer
+    ? Promise.resolve(ConversionCacheService.key(operation, [file.buffer], options))
+    : ConversionCacheService.fileKey(operation, file.path, options);
+
+/**
+ * Archive entry name of a conversion result: its path, or the given name for
+ * results without one, plus the file extension
+ */
+const entryName = (result: ConvertedFile, name: string): string =>
+  `${result.path ?? name}.${result.extension ?? result.type}`;
+
+/**
+ * Converter behind each batch operation
+ */
+const BATCH_CONVERTERS: Record<BatchOperation, ConverterId> = {
+  images: 'convert',
+  extract: 'extract',
+  docx: 'pdf-to-docx',
+  text: 'pdf-to-text',
+};
+
+/**
+ * Build the per-file conversion of a batch operation
+ *
+ * @throws Error if the options of the operation are invalid
+ */
+const batchProcessor = (
+  operation: BatchOperation,
+  params: Record<string, unknown>,
+  password: string | undefined,
+  signal: AbortSignal
+): BatchProcessor => {
+  const conversion = converterRegistry.get(BATCH_CONVERTERS[operation]).prepare(params);
+
+  // Results are named by their path (e.g. page-1.png) or after the file's folder
+  return async (file, folder) => {
+    const entries: ZipEntry[] = [];
+    const input: Artifact = { name: folder, type: 'pdf', buffer: file.buffer };
+
+    for await (const result of convertInput(conversion, input, { signal, password })) {
+      entries.push({ name: entryName(result, folder), source: result.buffer });
+    }
+    return entries;
+  };
+};
+
 /**
  * POST /convert
  * 
- * Convert a PDF file to images and return as a ZIP archive.
+ * Convert a PDF file to images and return as a ZIP archive, or as a single
+ * multi-page TIFF file when format is tiff.
  * 
- * Query Parameters:
- *   - format: Image format (png or jpeg), default: png
+ * Query Parameters (or form fields):
+ *   - format: Image format (png, jpeg, webp, avif or tiff), default: png
+ *   - pages: Page ranges to convert, e.g. "1,3-5" (default: all pages)
+ *   - dpi: Rendering resolution (default: 144); reduced for pages that would
+ *     exceed the pixel budget (MAX_PIXELS_PER_PAGE)
+ *   - quality: JPEG, WebP and AVIF quality 1-100 (default: 95)
+ *   - lossless: Lossless WebP encoding (true/false), default: false
+ *   - maxWidth / maxHeight: Fit each page into this box in pixels (never enlarged)
+ *   - colorMode: color, grayscale or bw (black and white), default: color
+ *   - threshold: Black and white threshold, gray level 1-255 (default: 128)
+ *   - dither: Floyd-Steinberg dithering for black and white (true/false)
+ *   - background: white, transparent or #hex color (default: white);
+ *     transparent is not available for jpeg and tiff
+ *   - compression: TIFF compression - g4 (CCITT Group 4 bilevel), lzw-gray or
+ *     lzw-color, default: lzw-color
  * 
  * Request Body (multipart/form-data):
  *   - pdf: PDF file to convert
+ *   - password: Optional password for encrypted PDFs
  * 
  * Response:
- *   - ZIP file containing all converted pages
+ *   - ZIP file containing all converted pages, or a multi-page TIFF file
+ *   - Repeated conversions are served from the cache (X-Cache: HIT); the
+ *     ETag can be sent back in If-None-Match to get 304 Not Modified
  */
 pdfRouter.post(
   '/convert',
-  upload.single('pdf'),
+  workerPdfUpload.single('pdf'),
   validatePdfUpload,
-  pdfComplexityMiddleware(100), // Max 100 pages
+  pdfComplexityMiddleware(workerPdfUpload.limits.maxPages, { allowEncrypted: true }), // Password handled below
   asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     // Check if file was uploaded
     if (!req.file) {
@@ -46,53 +232,57 @@ pdfRouter.post(
       return;
     }
 
-    // Get and validate format parameter
-    const formatParam = (req.query.format as string)?.toLowerCase() || 'png';
+    // Options can be sent as query parameters or form fields
+    const params: Record<string, unknown> = { ...(req.body || {}), ...req.query };
 
-    if (!PDFConverterService.isValidFormat(formatParam)) {
-      res.status(400).json({
-        status: 'error',
-        message: 'Invalid format. Supported formats: png, jpeg',
-      });
+    // Validate the format, page selection, resolution and sizing
+    const conversion = prepareConversion(res, 'convert', params, 'Invalid conversion options');
+    if (!conversion) {
       return;
     }
 
-    const format: ImageFormat = formatParam;
-
     try {
-      // Convert PDF to images
-      const convertedPages = await pdfConverterService.convertPdfToImages(
-        req.file.buffer,
-        { format }
-      );
+      const input = toArtifact(req.file, 'pdf');
+      const password = getPassword(req);
 
-      // Set response headers for ZIP download
-      const originalFilename = req.file.originalname.replace(/\.pdf$/i, '');
-      const zipFilename = `${originalFilename}_converted.zip`;
+      // tiff produces a single multi-page file, other formats one image per page
+      const tiff = conversion.outputs.includes('tiff');
 
-      res.setHeader('Content-Type', 'application/zip');
-      res.setHeader('Content-Disposition', `attachment; filename="${zipFilename}"`);
+      // Serve repeated conversions from the cache
+      const cacheKey = await uploadCacheKey('convert', req.file, { ...conversion.options, password });
+      const downloadFilename = tiff ? `${input.name}.tiff` : `${input.name}_converted.zip`;
 
-      // Create ZIP archive
-      const archive = archiver('zip', {
-        zlib: { level: 9 }, // Maximum compression
-      });
+      if (await sendCached(req, res, cacheKey, downloadFilename)) {
+        return;
+      }
 
-      // Handle archive errors
-      archive.on('error', (err) => {
-        throw err;
-      });
+      if (tiff) {
+        // Convert PDF to a multi-page TIFF
+        const [tiffFile] = await runConversion(conversion, [input], { signal: responseSignal(res), password });
+        res.setHeader('ETag', conversionCache.set(cacheKey, { body: tiffFile.buffer, contentType: ARTIFACT_CONTENT_TYPES.tiff }));
+
+        res.setHeader('Content-Type', ARTIFACT_CONTENT_TYPES.tiff);
+        res.setHeader('Content-Disposition', `attachment; filename="${downloadFilename}"`);
+        res.setHeader('Content-Length', tiffFile.buffer.length);
+
+        res.send(tiffFile.buffer);
+        return;
+      }
 
-      // Pipe archive to response
-      archive.pipe(res);
+      // Convert PDF to images, rendering each page as the archive asks for it
+      const convertedPages = convertInput(conversion, input, { signal: responseSignal(res), password });
 
-      // Add each converted page to the archive
-      for (const page of convertedPages) {
-        archive.append(page.buffer, { name: page.filename });
+      async function* entries(): AsyncGenerator<ZipEntry> {
+        for await (const page of convertedPages) {
+          yield { name: entryName(page, input.name), source: page.buffer };
+        }
       }
 
-      // Finalize the archive
-      await archive.finalize();
+      // Stream the ZIP download; archives small enough to cache are sent in one piece with their ETag
+      await streamZip(res, downloadFilename, entries(), {
+        keepUpTo: env.CACHE_MAX_ENTRY_BYTES,
+        beforeSend: zip => res.setHeader('ETag', conversionCache.set(cacheKey, { body: zip, contentType: 'application/zip' })),
+      });
 
     } catch (error) {
       // Pass error to error handler
@@ -112,15 +302,17 @@ pdfRouter.post(
  * 
  * Request Body (multipart/form-data):
  *   - pdf: PDF file to extract content from
+ *   - password: Optional password for encrypted PDFs
  * 
  * Response:
  *   - ZIP file containing organized text files and image folders
+ *   - Served from the cache for repeated requests (X-Cache and ETag headers)
  */
 pdfRouter.post(
   '/extract',
-  upload.single('pdf'),
+  workerPdfUpload.single('pdf'),
   validatePdfUpload,
-  pdfComplexityMiddleware(100), // Max 100 pages
+  pdfComplexityMiddleware(workerPdfUpload.limits.maxPages, { allowEncrypted: true }), // Password handled below
   asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     // Check if file was uploaded
     if (!req.file) {
@@ -132,53 +324,32 @@ pdfRouter.post(
     }
 
     try {
-      // Extract text and images from PDF
-      const extractedContent = await pdfConverterService.extractPdfContent(
-        req.file.buffer
-      );
+      const input = toArtifact(req.file, 'pdf');
+      const zipFilename = `${input.name}_extracted.zip`;
+      const password = getPassword(req);
 
-      // Set response headers for ZIP download
-      const originalFilename = req.file.originalname.replace(/\.pdf$/i, '');
-      const zipFilename = `${originalFilename}_extracted.zip`;
-
-      res.setHeader('Content-Type', 'application/zip');
-      res.setHeader('Content-Disposition', `attachment; filename="${zipFilename}"`);
-
-      // Create ZIP archive
-      const archive = archiver('zip', {
-        zlib: { level: 9 }, // Maximum compression
-      });
+      // Serve repeated extractions from the cache
+      const cacheKey = await uploadCacheKey('extract', req.file, { password });
+      if (await sendCached(req, res, cacheKey, zipFilename)) {
+        return;
+      }
 
-      // Handle archive errors
-      archive.on('error', (err) => {
-        throw err;
-      });
+      // Extract text and images from PDF, one page at a time: page-{N}.txt
+      // and the page's images in page-{N}-images/
+      const conversion = converterRegistry.get('extract').prepare({});
+      const extractedContent = convertInput(conversion, input, { signal: responseSignal(res), password });
 
-      // Pipe archive to response
-      archive.pipe(res);
-
-      // Add content for each page
-      for (const page of extractedContent) {
-        const pageNum = page.pageNumber;
-
-        // Add text file for the page
-        archive.append(page.textContent, {
-          name: `page-${pageNum}.txt`
-        });
-
-        // Add images if any exist for this page
-        if (page.images.length > 0) {
-          for (const image of page.images) {
-            // Add images to page-specific folder
-            archive.append(image.buffer, {
-              name: `page-${pageNum}-images/${image.filename}`
-            });
-          }
+      async function* entries(): AsyncGenerator<ZipEntry> {
+        for await (const content of extractedContent) {
+          yield { name: entryName(content, input.name), source: content.buffer };
         }
       }
 
-      // Finalize the archive
-      await archive.finalize();
+      // Stream the ZIP download; archives small enough to cache are sent in one piece with their ETag
+      await streamZip(res, zipFilename, entries(), {
+        keepUpTo: env.CACHE_MAX_ENTRY_BYTES,
+        beforeSend: zip => res.setHeader('ETag', conversionCache.set(cacheKey, { body: zip, contentType: 'application/zip' })),
+      });
 
     } catch (error) {
       // Pass error to error handler
@@ -196,15 +367,18 @@ pdfRouter.post(
  * 
  * Request Body (multipart/form-data):
  *   - images: Array of image files (PNG or JPEG)
- *   - Max 20 images per request
- *   - Max 10MB per image
+ *   - Max 20 images per request, 10MB per image (PDF_MAX_FILES,
+ *     PDF_MAX_FILE_BYTES)
+ *   - title / author / subject / keywords / creator / producer: Optional document properties
+ *     (accepts the same metadata fields as POST /metadata)
  * 
  * Response:
  *   - PDF file for download
+ *   - Served from the cache for repeated requests (X-Cache and ETag headers)
  */
 pdfRouter.post(
   '/images-to-pdf',
-  imageUpload.array('images', 20),
+  imageUpload.array('images'),
   validateImageUploads,
   asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     // Check if files were uploaded
@@ -216,30 +390,42 @@ pdfRouter.post(
       return;
     }
 
+    // Parse optional document properties
+    const conversion = prepareConversion(res, 'images-to-pdf', req.body || {}, 'Invalid metadata');
+    if (!conversion) {
+      return;
+    }
+
     try {
-      // Prepare image data for conversion
-      const images = req.files.map(file => ({
-        buffer: file.buffer,
-        mimetype: file.mimetype,
-        originalname: file.originalname,
-      }));
+      // Images are processed in upload order, typed by their content
+      const images = req.files.map(file => toArtifact(file, FileValidator.detectFileType(file.buffer) === 'png' ? 'png' : 'jpeg'));
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+      const pdfFilename = `images-to-pdf-${timestamp}.pdf`;
 
-      // Validate images
-      ImageToPdfService.validateImages(images);
+      // Serve repeated conversions from the cache; the document is named without
+      // the timestamp, so its default title is the same for every request
+      const cacheKey = ConversionCacheService.key(
+        'images-to-pdf',
+        images.map(image => image.buffer),
+        { mimetypes: images.map(image => ARTIFACT_CONTENT_TYPES[image.type]), ...conversion.options }
+      );
+      if (await sendCached(req, res, cacheKey, pdfFilename)) {
+        return;
+      }
 
       // Convert images to PDF
-      const pdfBuffer = await imageToPdfService.convertImagesToPdf(images);
+      const [pdf] = await runConversion(conversion, images, { signal: responseSignal(res), name: 'images-to-pdf' });
+      res.setHeader('ETag', conversionCache.set(cacheKey, { body: pdf.buffer, contentType: ARTIFACT_CONTENT_TYPES.pdf }));
 
       // Set response headers for PDF download
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-      const pdfFilename = `images-to-pdf-${timestamp}.pdf`;
 
-      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Type', ARTIFACT_CONTENT_TYPES.pdf);
       res.setHeader('Content-Disposition', `attachment; filename="${pdfFilename}"`);
-      res.setHeader('Content-Length', pdfBuffer.length);
+      res.setHeader('Content-Length', pdf.buffer.length);
 
       // Send the PDF buffer
-      res.send(pdfBuffer);
+      res.send(pdf.buffer);
 
     } catch (error) {
       // Pass error to error handler
@@ -256,6 +442,7 @@ pdfRouter.post(
  * 
  * Request Body (multipart/form-data):
  *   - pdf: PDF file to convert
+ *   - password: Optional password for encrypted PDFs
  * 
  * Query Parameters (optional):
  *   - includeImages: Include images in DOCX (default: true)
@@ -263,12 +450,13 @@ pdfRouter.post(
  * 
  * Response:
  *   - DOCX file for download
+ *   - Served from the cache for repeated requests (X-Cache and ETag headers)
  */
 pdfRouter.post(
   '/pdf-to-docx',
-  upload.single('pdf'),
+  workerPdfUpload.single('pdf'),
   validatePdfUpload,
-  pdfComplexityMiddleware(100), // Max 100 pages
+  pdfComplexityMiddleware(workerPdfUpload.limits.maxPages, { allowEncrypted: true }), // Password handled below
   asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     // Check if file was uploaded
     if (!req.file) {
@@ -279,31 +467,35 @@ pdfRouter.post(
       return;
     }
 
+    // Parse and validate options (query parameters)
+    const conversion = prepareConversion(res, 'pdf-to-docx', req.query, 'Invalid conversion options');
+    if (!conversion) {
+      return;
+    }
+
     try {
-      // Parse query parameters
-      const includeImages = req.query.includeImages !== 'false'; // Default true
-      const preservePageBreaks = req.query.preservePageBreaks !== 'false'; // Default true
+      const input = toArtifact(req.file, 'pdf');
+      const password = getPassword(req);
+      const docxFilename = `${input.name}.docx`;
 
-      // Validate options
-      const options = { includeImages, preservePageBreaks };
-      PdfToDocxService.validateOptions(options);
+      // Serve repeated conversions from the cache
+      const cacheKey = await uploadCacheKey('pdf-to-docx', req.file, { ...conversion.options, password });
+      if (await sendCached(req, res, cacheKey, docxFilename)) {
+        return;
+      }
 
       // Convert PDF to DOCX
-      const docxBuffer = await pdfToDocxService.convertPdfToDocx(
-        req.file.buffer,
-        options
-      );
+      const [docx] = await runConversion(conversion, [input], { signal: responseSignal(res), password });
+      res.setHeader('ETag', conversionCache.set(cacheKey, { body: docx.buffer, contentType: ARTIFACT_CONTENT_TYPES.docx }));
 
       // Set response headers for DOCX download
-      const originalFilename = req.file.originalname.replace(/\.pdf$/i, '');
-      const docxFilename = `${originalFilename}.docx`;
 
-      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      res.setHeader('Content-Type', ARTIFACT_CONTENT_TYPES.docx);
       res.setHeader('Content-Disposition', `attachment; filename="${docxFilename}"`);
-      res.setHeader('Content-Length', docxBuffer.length);
+      res.setHeader('Content-Length', docx.buffer.length);
 
       // Send the DOCX buffer
-      res.send(docxBuffer);
+      res.send(docx.buffer);
 
     } catch (error) {
       // Pass error to error handler
@@ -319,9 +511,14 @@ pdfRouter.post(
  * 
  * Request Body (multipart/form-data):
  *   - text: Text file to convert
+ *   - header / footer: Optional stamp templates, e.g. "Page {page} of {total}"
+ *     (accepts the same stamp fields as POST /stamp)
+ *   - title / author / subject / keywords / creator / producer: Optional document properties
+ *     (accepts the same metadata fields as POST /metadata)
  * 
  * Response:
  *   - PDF file
+ *   - Served from the cache for repeated requests (X-Cache and ETag headers)
  */
 pdfRouter.post(
   '/text-to-pdf',
@@ -337,19 +534,30 @@ pdfRouter.post(
       return;
     }
 
+    // Parse optional header/footer stamping and document properties
+    const conversion = prepareConversion(res, 'text-to-pdf', req.body || {}, 'Invalid text-to-pdf options');
+    if (!conversion) {
+      return;
+    }
+
     try {
-      const pdfBuffer = await textToPdfService.convertTextToPdf(
-        req.file.buffer.toString('utf-8')
-      );
+      const input = toArtifact(req.file, 'txt');
+      const pdfFilename = `${input.name}.pdf`;
 
-      const originalFilename = req.file.originalname.replace(/\.txt$/i, '');
-      const pdfFilename = `${originalFilename}.pdf`;
+      // Serve repeated conversions from the cache ({filename} in stamps depends on the name)
+      const cacheKey = ConversionCacheService.key('text-to-pdf', [req.file.buffer], { ...conversion.options, filename: pdfFilename });
+      if (await sendCached(req, res, cacheKey, pdfFilename)) {
+        return;
+      }
 
-      res.setHeader('Content-Type', 'application/pdf');
+      const [pdf] = await runConversion(conversion, [input], { signal: responseSignal(res) });
+      res.setHeader('ETag', conversionCache.set(cacheKey, { body: pdf.buffer, contentType: ARTIFACT_CONTENT_TYPES.pdf }));
+
+      res.setHeader('Content-Type', ARTIFACT_CONTENT_TYPES.pdf);
       res.setHeader('Content-Disposition', `attachment; filename="${pdfFilename}"`);
-      res.setHeader('Content-Length', pdfBuffer.length);
+      res.setHeader('Content-Length', pdf.buffer.length);
       
-      res.send(pdfBuffer);
+      res.send(pdf.buffer);
 
     } catch (error) {
       next(error);
@@ -358,50 +566,882 @@ pdfRouter.post(
 );
 
 /**
- * Error handler for multer errors
- * This middleware catches file upload errors
+ * POST /merge
+ * 
+ * Merge multiple PDF files into a single PDF document.
+ * Pages are appended in upload order unless an explicit order is given.
+ * Bookmarks from each source file are kept under a parent entry named after the file.
+ * 
+ * Request Body (multipart/form-data):
+ *   - pdfs: Array of PDF files (max PDF_MAX_FILES, default 20)
+ *   - order: Optional file order, 1-based (e.g. "3,1,2" or "[3,1,2]")
+ * 
+ * Response:
+ *   - Merged PDF file for download
  */
-pdfRouter.use((err: any, _req: Request, res: Response, next: NextFunction) => {
-  // Check if it's a multer error
-  if (err.name === 'MulterError' ||
-    err.message === 'Only PDF files are allowed' ||
-    err.message === 'Only PNG and JPEG images are allowed' ||
-    err.message === 'Only text files (.txt) are allowed') {
-    res.status(400).json({
-      status: 'error',
-      message: getUploadErrorMessage(err),
-    });
-    return;
-  }
+pdfRouter.post(
+  '/merge',
+  upload.array('pdfs'),
+  validatePdfUploads,
+  pdfComplexityMiddleware(upload.limits.maxPages), // Combined page count
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Check if files were uploaded
+    if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No PDF files uploaded. Please provide at least one PDF file in the "pdfs" field.',
+      });
+      return;
+    }
 
-  // Pass to global error handler
-  next(err);
-});
+    const pdfs = req.files.map(file => toArtifact(file, 'pdf'));
+
+    // Parse and validate the optional order parameter
+    const orderParam = req.query.order ?? req.body?.order;
+    let conversion: Conversion;
+
+    try {
+      conversion = converterRegistry.get('merge').prepare({
+        order: typeof orderParam === 'string' && orderParam.trim() !== '' ? orderParam : undefined,
+      });
+
+      const { order } = conversion.options as { order?: number[] };
+      if (order) {
+        PdfMergeService.validateOrder(order, pdfs.length);
+      }
+    } catch (error) {
+      res.status(400).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Invalid order',
+      });
+      return;
+    }
+
+    try {
+      // Merge PDFs
+      const [merged] = await runConversion(conversion, pdfs);
+
+      // Set response headers for PDF download
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+      const pdfFilename = `merged-${timestamp}.pdf`;
+
+      res.setHeader('Content-Type', ARTIFACT_CONTENT_TYPES.pdf);
+      res.setHeader('Content-Disposition', `attachment; filename="${pdfFilename}"`);
+      res.setHeader('Content-Length', merged.buffer.length);
+
+      // Send the PDF buffer
+      res.send(merged.buffer);
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
 
 /**
- * GET /health
+ * POST /split
  * 
- * Health check endpoint for PDF conversion service
+ * Split a PDF file into multiple PDF documents and return them as a ZIP archive.
+ * Each output is named after the source file and its page range.
+ * 
+ * Request Body (multipart/form-data) or Query Parameters - exactly one of:
+ *   - ranges: Comma-separated page ranges, one document per range (e.g. "1-3,4,5-end")
+ *   - every: Number of pages per document (e.g. "2")
+ *   - bySize: Maximum size per document (e.g. "2MB", "500KB")
+ * 
+ * Request Body (multipart/form-data):
+ *   - pdf: PDF file to split
+ * 
+ * Response:
+ *   - ZIP file containing the split documents
  */
-pdfRouter.get('/health', (_req: Request, res: Response) => {
-  res.status(200).json({
-    status: 'success',
-    message: 'PDF conversion service is operational',
-    endpoints: {
-      convert: 'POST /convert - Convert PDF pages to images (png/jpeg)',
-      extract: 'POST /extract - Extract text and images from PDF',
-      imagesToPdf: 'POST /images-to-pdf - Convert multiple images to a single PDF',
-      pdfToDocx: 'POST /pdf-to-docx - Convert PDF to DOCX (Microsoft Word)',
-      textToPdf: 'POST /text-to-pdf - Convert text file to PDF',
-    },
-    supportedFormats: {
-      pdfToImages: ['png', 'jpeg'],
-      imagesToPdf: ['png', 'jpeg'],
-      pdfToDocx: ['docx'],
-      textToPdf: ['txt'],
-    },
-    maxFileSize: '10MB',
-    maxImagesPerRequest: 20,
-  });
-});
+pdfRouter.post(
+  '/split',
+  upload.single('pdf'),
+  validatePdfUpload,
+  pdfComplexityMiddleware(upload.limits.maxPages),
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Check if file was uploaded
+    if (!req.file) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No PDF file uploaded. Please provide a PDF file in the "pdf" field.',
+      });
+      return;
+    }
+
+    // Parse and validate split mode (query parameters take precedence)
+    const conversion = prepareConversion(res, 'split', { ...(req.body || {}), ...req.query }, 'Invalid split options');
+    if (!conversion) {
+      return;
+    }
+
+    try {
+      // Split the PDF; each document is named after the source file and its page range
+      const input = toArtifact(req.file, 'pdf');
+      const documents = await runConversion(conversion, [input]);
 
+      const entries = documents.map((document): ZipEntry => ({
+        name: `${document.name}.${document.type}`,
+        source: document.buffer,
+      }));
+
+      // Stream the ZIP download
+      await streamZip(res, `${input.name}_split.zip`, entries);
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * POST /organize
+ * 
+ * Reorder, delete, duplicate and rotate the pages of a PDF file.
+ * The output contains exactly the pages listed in the instructions, in order.
+ * Pages that are not listed are removed; pages listed twice are duplicated.
+ * 
+ * Request Body (multipart/form-data):
+ *   - pdf: PDF file to organize
+ *   - instructions: JSON array, e.g. [{"page":3},{"page":1,"rotate":180},{"page":2}]
+ *     - page: 1-based source page number
+ *     - rotate: Optional clockwise rotation in degrees (multiple of 90)
+ * 
+ * Response:
+ *   - Organized PDF file for download
+ *   - 400 with per-instruction details when instructions are invalid
+ */
+pdfRouter.post(
+  '/organize',
+  upload.single('pdf'),
+  validatePdfUpload,
+  pdfComplexityMiddleware(upload.limits.maxPages),
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Check if file was uploaded
+    if (!req.file) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No PDF file uploaded. Please provide a PDF file in the "pdf" field.',
+      });
+      return;
+    }
+
+    const instructionsParam = req.body?.instructions;
+
+    if (typeof instructionsParam !== 'string' || instructionsParam.trim() === '') {
+      res.status(400).json({
+        status: 'error',
+        message: 'No instructions provided. Please provide a JSON array in the "instructions" field.',
+      });
+      return;
+    }
+
+    try {
+      // Parse instructions and build the organized PDF
+      const conversion = converterRegistry.get('organize').prepare({ instructions: instructionsParam });
+      const [organized] = await runConversion(conversion, [toArtifact(req.file, 'pdf')]);
+      const pdfBuffer = organized.buffer;
+
+      // Set response headers for PDF download
+      const pdfFilename = `${organized.name}_organized.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${pdfFilename}"`);
+      res.setHeader('Content-Length', pdfBuffer.length);
+
+      // Send the PDF buffer
+      res.send(pdfBuffer);
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * POST /watermark
+ * 
+ * Stamp a text or image watermark onto the pages of a PDF file.
+ * 
+ * Request Body (multipart/form-data):
+ *   - pdf: PDF file to watermark
+ *   - text: Watermark text (use either text or image)
+ *   - image: Watermark image, PNG or JPEG (use either text or image)
+ *   - fontSize: Text size in points (default: 48)
+ *   - font: helvetica, helvetica-bold, helvetica-oblique, times, times-bold,
+ *           times-italic, courier, courier-bold (default: helvetica-bold)
+ *   - color: Text color as hex (default: #808080)
+ *   - scale: Image width as a fraction of the page width (default: 0.5)
+ *   - opacity: 0-1 (default: 0.3)
+ *   - rotation: Counter-clockwise degrees (default: 45)
+ *   - position: center, top-left, top-center, top-right, middle-left, middle-right,
+ *               bottom-left, bottom-center, bottom-right or tile (default: center)
+ *   - margin: Distance from the page edges in points (default: 36)
+ *   - pages: Page ranges to watermark, e.g. "1-3,5-end" (default: all pages)
+ * 
+ * Response:
+ *   - Watermarked PDF file for download
+ */
+pdfRouter.post(
+  '/watermark',
+  pdfWithImageUpload.fields([
+    { name: 'pdf', maxCount: 1 },
+    { name: 'image', maxCount: 1 },
+  ]),
+  validateFieldUploads({ pdf: ['pdf'], image: ['png', 'jpeg'] }),
+  pdfComplexityMiddleware(upload.limits.maxPages),
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const pdfFile = files?.pdf?.[0];
+    const imageFile = files?.image?.[0];
+
+    // Check if file was uploaded
+    if (!pdfFile) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No PDF file uploaded. Please provide a PDF file in the "pdf" field.',
+      });
+      return;
+    }
+
+    // Parse and validate watermark options
+    const conversion = prepareConversion(res, 'watermark', { ...(req.body || {}), image: imageFile }, 'Invalid watermark options');
+    if (!conversion) {
+      return;
+    }
+
+    try {
+      // Apply watermark
+      const [watermarked] = await runConversion(conversion, [toArtifact(pdfFile, 'pdf')]);
+      const pdfBuffer = watermarked.buffer;
+
+      // Set response headers for PDF download
+      const pdfFilename = `${watermarked.name}_watermarked.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${pdfFilename}"`);
+      res.setHeader('Content-Length', pdfBuffer.length);
+
+      // Send the PDF buffer
+      res.send(pdfBuffer);
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * POST /stamp
+ * 
+ * Stamp headers and footers (page numbers, Bates numbers, dates) onto a PDF file.
+ * 
+ * Templates support the tokens {page}, {total}, {filename}, {date} and {bates}.
+ * 
+ * Request Body (multipart/form-data):
+ *   - pdf: PDF file to stamp
+ *   - header: Header template (header and/or footer required)
+ *   - footer: Footer template, e.g. "Page {page} of {total}"
+ *   - headerAlign / footerAlign: left, center or right (default: center)
+ *   - font: Standard font name (default: helvetica)
+ *   - fontSize: Text size in points (default: 10)
+ *   - color: Text color as hex (default: #000000)
+ *   - marginX / marginY: Distance from the page edges in points (default: 36 / 24)
+ *   - skipFirstPage: Do not stamp the first page (default: false)
+ *   - date: Value for {date} (default: today, YYYY-MM-DD)
+ *   - batesPrefix / batesStart / batesDigits: Bates numbering (default: "" / 1 / 6)
+ * 
+ * Response:
+ *   - Stamped PDF file for download
+ */
+pdfRouter.post(
+  '/stamp',
+  upload.single('pdf'),
+  validatePdfUpload,
+  pdfComplexityMiddleware(upload.limits.maxPages),
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Check if file was uploaded
+    if (!req.file) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No PDF file uploaded. Please provide a PDF file in the "pdf" field.',
+      });
+      return;
+    }
+
+    // Parse and validate stamp options
+    const conversion = prepareConversion(res, 'stamp', req.body || {}, 'Invalid stamp options');
+    if (!conversion) {
+      return;
+    }
+
+    try {
+      // Stamp headers and footers
+      const [stamped] = await runConversion(conversion, [toArtifact(req.file, 'pdf')]);
+      const pdfBuffer = stamped.buffer;
+
+      // Set response headers for PDF download
+      const pdfFilename = `${stamped.name}_stamped.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${pdfFilename}"`);
+      res.setHeader('Content-Length', pdfBuffer.length);
+
+      // Send the PDF buffer
+      res.send(pdfBuffer);
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * POST /protect
+ * 
+ * Encrypt a PDF file with a user (open) password, an owner password and permissions.
+ * 
+ * Request Body (multipart/form-data):
+ *   - pdf: PDF file to encrypt
+ *   - userPassword: Password required to open the PDF (userPassword and/or ownerPassword required)
+ *   - ownerPassword: Password that grants full access (default: random)
+ *   - algorithm: aes-256, aes-128 or rc4-128 (default: aes-256)
+ *   - permissions: Comma-separated list of allowed actions, or "none" (default: all)
+ *       print, printHighQuality, modify, copy, annotate, fillForms, accessibility, assemble
+ * 
+ * Response:
+ *   - Encrypted PDF file for download
+ */
+pdfRouter.post(
+  '/protect',
+  upload.single('pdf'),
+  validatePdfUpload,
+  pdfComplexityMiddleware(upload.limits.maxPages),
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Check if file was uploaded
+    if (!req.file) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No PDF file uploaded. Please provide a PDF file in the "pdf" field.',
+      });
+      return;
+    }
+
+    // Parse and validate encryption options
+    const conversion = prepareConversion(res, 'protect', req.body || {}, 'Invalid encryption options');
+    if (!conversion) {
+      return;
+    }
+
+    try {
+      // Encrypt the PDF
+      const [encrypted] = await runConversion(conversion, [toArtifact(req.file, 'pdf')]);
+      const pdfBuffer = encrypted.buffer;
+
+      // Set response headers for PDF download
+      const pdfFilename = `${encrypted.name}_protected.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${pdfFilename}"`);
+      res.setHeader('Content-Length', pdfBuffer.length);
+
+      // Send the PDF buffer
+      res.send(pdfBuffer);
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * POST /unlock
+ * 
+ * Remove encryption from a PDF file.
+ * 
+ * Request Body (multipart/form-data):
+ *   - pdf: Encrypted PDF file
+ *   - password: User or owner password (may be omitted if the PDF opens without one)
+ * 
+ * Response:
+ *   - Decrypted PDF file for download
+ */
+pdfRouter.post(
+  '/unlock',
+  upload.single('pdf'),
+  validatePdfUpload,
+  pdfComplexityMiddleware(upload.limits.maxPages, { allowEncrypted: true }),
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Check if file was uploaded
+    if (!req.file) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No PDF file uploaded. Please provide a PDF file in the "pdf" field.',
+      });
+      return;
+    }
+
+    try {
+      // Decrypt the PDF
+      const conversion = converterRegistry.get('unlock').prepare({});
+      const [unlocked] = await runConversion(conversion, [toArtifact(req.file, 'pdf')], { password: getPassword(req) });
+      const pdfBuffer = unlocked.buffer;
+
+      // Set response headers for PDF download
+      const pdfFilename = `${unlocked.name}_unlocked.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${pdfFilename}"`);
+      res.setHeader('Content-Length', pdfBuffer.length);
+
+      // Send the PDF buffer
+      res.send(pdfBuffer);
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * POST /info
+ * 
+ * Inspect a PDF file without rendering it.
+ * 
+ * Request Body (multipart/form-data):
+ *   - pdf: PDF file to inspect
+ *   - password: Optional password for encrypted PDFs
+ * 
+ * Response:
+ *   - JSON with page count, page sizes and rotation, PDF version, document
+ *     information, XMP metadata, encryption, forms, attachments, outline,
+ *     JavaScript and fonts
+ */
+pdfRouter.post(
+  '/info',
+  upload.single('pdf'),
+  validatePdfUpload,
+  pdfComplexityMiddleware(upload.limits.maxPages, { allowEncrypted: true }), // Password handled below
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Check if file was uploaded
+    if (!req.file) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No PDF file uploaded. Please provide a PDF file in the "pdf" field.',
+      });
+      return;
+    }
+
+    try {
+      // Inspect the PDF
+      const info = await pdfInfoService.getPdfInfo(req.file.buffer, { password: getPassword(req) });
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          filename: req.file.originalname,
+          fileSize: req.file.size,
+          ...info,
+        },
+      });
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * POST /metadata
+ * 
+ * Set or remove document properties. The Info dictionary and the XMP
+ * metadata packet are written together so that they stay synchronized.
+ * 
+ * Request Body (multipart/form-data):
+ *   - pdf: PDF file to update
+ *   - metadata: JSON object with the properties below, or send them as individual fields
+ *   - title / author / subject / keywords / creator / producer: Text properties
+ *   - creationDate / modificationDate: ISO 8601 dates (modificationDate default: now)
+ *   - custom: JSON object of custom Info dictionary keys
+ *   Empty values (or null in JSON) remove a property.
+ * 
+ * Response:
+ *   - Updated PDF file for download
+ */
+pdfRouter.post(
+  '/metadata',
+  upload.single('pdf'),
+  validatePdfUpload,
+  pdfComplexityMiddleware(upload.limits.maxPages),
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Check if file was uploaded
+    if (!req.file) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No PDF file uploaded. Please provide a PDF file in the "pdf" field.',
+      });
+      return;
+    }
+
+    // Parse and validate metadata
+    const conversion = prepareConversion(res, 'metadata', req.body || {}, 'Invalid metadata');
+    if (!conversion) {
+      return;
+    }
+
+    try {
+      // Update document properties
+      const [updated] = await runConversion(conversion, [toArtifact(req.file, 'pdf')]);
+      const pdfBuffer = updated.buffer;
+
+      // Set response headers for PDF download
+      const pdfFilename = `${updated.name}_metadata.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${pdfFilename}"`);
+      res.setHeader('Content-Length', pdfBuffer.length);
+
+      // Send the PDF buffer
+      res.send(pdfBuffer);
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * POST /forms/fields
+ * 
+ * List the AcroForm fields of a PDF file.
+ * 
+ * Request Body (multipart/form-data):
+ *   - pdf: PDF file with a form
+ * 
+ * Response:
+ *   - JSON with each field's name, type, current value, options, flags,
+ *     and the page and rectangle of each widget
+ */
+pdfRouter.post(
+  '/forms/fields',
+  upload.single('pdf'),
+  validatePdfUpload,
+  pdfComplexityMiddleware(upload.limits.maxPages),
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Check if file was uploaded
+    if (!req.file) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No PDF file uploaded. Please provide a PDF file in the "pdf" field.',
+      });
+      return;
+    }
+
+    try {
+      // List form fields
+      const fields = await pdfFormsService.listFields(req.file.buffer);
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          fieldCount: fields.length,
+          fields,
+        },
+      });
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * POST /forms/fill
+ * 
+ * Fill the AcroForm fields of a PDF file.
+ * 
+ * Request Body (multipart/form-data):
+ *   - pdf: PDF file with a form
+ *   - values: JSON object mapping field names to values, e.g.
+ *       {"name":"Jane Doe","agree":true,"plan":"Premium","colors":["Red","Blue"]}
+ *     Text fields take strings, checkboxes true/false, radio groups and dropdowns
+ *     one of their options, multi-select lists an array of options; null clears a field
+ *   - flatten: Merge the filled fields into the page content (default: false)
+ * 
+ * Response:
+ *   - Filled PDF file for download
+ */
+pdfRouter.post(
+  '/forms/fill',
+  upload.single('pdf'),
+  validatePdfUpload,
+  pdfComplexityMiddleware(upload.limits.maxPages),
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Check if file was uploaded
+    if (!req.file) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No PDF file uploaded. Please provide a PDF file in the "pdf" field.',
+      });
+      return;
+    }
+
+    const valuesParam = req.body?.values;
+
+    if (typeof valuesParam !== 'string' || valuesParam.trim() === '') {
+      res.status(400).json({
+        status: 'error',
+        message: 'No values provided. Please provide a JSON object in the "values" field.',
+      });
+      return;
+    }
+
+    try {
+      // Parse values and fill the form
+      const conversion = converterRegistry.get('fill-form').prepare({ values: valuesParam, flatten: req.body?.flatten });
+      const [filled] = await runConversion(conversion, [toArtifact(req.file, 'pdf')]);
+      const pdfBuffer = filled.buffer;
+
+      // Set response headers for PDF download
+      const pdfFilename = `${filled.name}_filled.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${pdfFilename}"`);
+      res.setHeader('Content-Length', pdfBuffer.length);
+
+      // Send the PDF buffer
+      res.send(pdfBuffer);
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * POST /thumbnail
+ * 
+ * Render one page of a PDF file to a small image, or compose page thumbnails
+ * into a contact sheet, and return the image directly.
+ * 
+ * Query Parameters (or form fields):
+ *   - page: Page to render (default: 1)
+ *   - format: Image format (png, jpeg, webp or avif), default: png
+ *   - maxWidth / maxHeight: Bounding box in pixels (default: 256, max: 1024);
+ *     the cell size on a contact sheet
+ *   - sheet: Compose all pages into a contact sheet with page numbers (true/false)
+ *   - pages: Pages on the contact sheet, e.g. "1-12" (default: all pages)
+ *   - columns: Contact sheet columns (default: 4)
+ *   - dpi, quality, lossless, colorMode, threshold, dither, background: As for /convert
+ * 
+ * Request Body (multipart/form-data):
+ *   - pdf: PDF file to render
+ *   - password: Optional password for encrypted PDFs
+ * 
+ * Response:
+ *   - Image file (image/png, image/jpeg, image/webp or image/avif)
+ */
+pdfRouter.post(
+  '/thumbnail',
+  upload.single('pdf'),
+  validatePdfUpload,
+  pdfComplexityMiddleware(upload.limits.maxPages, { allowEncrypted: true }), // Password handled below
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Check if file was uploaded
+    if (!req.file) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No PDF file uploaded. Please provide a PDF file in the "pdf" field.',
+      });
+      return;
+    }
+
+    // Options can be sent as query parameters or form fields
+    const params: Record<string, unknown> = { ...(req.body || {}), ...req.query };
+
+    // Validate the format, page, size and rendering options
+    const conversion = prepareConversion(res, 'thumbnail', params, 'Invalid thumbnail options');
+    if (!conversion) {
+      return;
+    }
+
+    try {
+      // Render the page or the contact sheet
+      const [image] = await runConversion(conversion, [toArtifact(req.file, 'pdf')], {
+        signal: responseSignal(res),
+        password: getPassword(req),
+      });
+
+      // Set response headers for inline display (named e.g. report_page-1.png or report_sheet.png)
+      const imageFilename = `${image.name}.${image.type}`;
+
+      res.setHeader('Content-Type', ARTIFACT_CONTENT_TYPES[image.type]);
+      res.setHeader('Content-Disposition', `inline; filename="${imageFilename}"`);
+      res.setHeader('Content-Length', image.buffer.length);
+
+      // Send the image buffer
+      res.send(image.buffer);
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * POST /batch
+ * 
+ * Run one operation over many PDF files and return all results as a single
+ * ZIP archive. Files are processed a few at a time (BATCH_CONCURRENCY) and
+ * each one is validated and converted on its own: a file that is not a PDF,
+ * has too many pages, needs a password or fails to convert is reported in
+ * the manifest and does not fail the rest of the batch.
+ * 
+ * Query Parameters (or form fields):
+ *   - operation: images, extract, docx or text (required)
+ *   - images: format, pages, dpi, quality, lossless, maxWidth, maxHeight,
+ *     colorMode, threshold, dither, background, compression - as for /convert
+ *   - docx: includeImages, preservePageBreaks - as for /pdf-to-docx
+ * 
+ * Request Body (multipart/form-data):
+ *   - pdfs: Array of PDF files (max BATCH_MAX_FILES, default 50; BATCH_MAX_PAGES
+ *     pages each, default 100)
+ *   - password: Optional password, used for every encrypted PDF
+ * 
+ * Response:
+ *   - ZIP file with one folder per input (named after the file) containing
+ *     its results, or error.txt if it failed
+ *   - manifest.json: Operation, counts and per-file status, outputs, duration
+ *     and error message
+ */
+pdfRouter.post(
+  '/batch',
+  batchUpload.array('pdfs'),
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    // Check if files were uploaded
+    if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No PDF files uploaded. Please provide PDF files in the "pdfs" field.',
+      });
+      return;
+    }
+
+    // Options can be sent as query parameters or form fields
+    const params: Record<string, unknown> = { ...(req.body || {}), ...req.query };
+
+    // Parse the operation and its options before processing any file
+    let operation: BatchOperation;
+    let processor: BatchProcessor;
+
+    try {
+      operation = PdfBatchService.parseOperation(params.operation);
+      processor = batchProcessor(operation, params, getPassword(req), responseSignal(res));
+    } catch (error) {
+      res.status(400).json({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Invalid batch options',
+      });
+      return;
+    }
+
+    try {
+      const timestamp = Date.now();
+      const entries = pdfBatchService.process(operation, req.files, processor, { maxPages: batchUpload.limits.maxPages });
+
+      await streamZip(res, `batch-${operation}-${timestamp}.zip`, entries);
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * Error handler for multer errors
+ * This middleware catches file upload errors
+ */
+pdfRouter.use((err: any, _req: Request, res: Response, next: NextFunction) => {
+  // Check if it's a multer error
+  if (err.name === 'MulterError' ||
+    err.message === 'Only PDF files are allowed' ||
+    err.message === 'Only PNG and JPEG images are allowed' ||
+    err.message === 'Only text files (.txt) are allowed') {
+    res.status(400).json({
+      status: 'error',
+      message: getUploadErrorMessage(err),
+    });
+    return;
+  }
+
+  // Pass to global error handler
+  next(err);
+});
+
+/**
+ * GET /health
+ * 
+ * Health check endpoint for PDF conversion service
+ * 
+ * The conversion endpoints and their file types are listed from the
+ * converter registry; endpoints that do not convert are added here.
+ * supportedFormats keeps the keys and values of earlier versions;
+ * endpointFormats lists the input, output and attachment types of each
+ * conversion endpoint.
+ */
+pdfRouter.get('/health', (_req: Request, res: Response) => {
+  const endpoints: Record<string, string> = {};
+  const supportedFormats: Record<string, string[]> = {};
+  const endpointFormats: Record<string, { from: readonly string[]; to: readonly string[]; attachments?: string[] }> = {};
+
+  for (const id of converterRegistry.ids()) {
+    const { endpoint, description, from, to, options } = converterRegistry.get(id);
+    if (!endpoint) {
+      continue;
+    }
+
+    // Types of uploaded files besides the input, e.g. the watermark image
+    const attachments = options.filter(option => option.type === 'file').flatMap(option => option.values ?? []);
+
+    endpoints[endpoint.name] = `POST ${endpoint.path} - ${description}`;
+    endpointFormats[endpoint.name] = attachments.length > 0 ? { from, to, attachments } : { from, to };
+
+    if (endpoint.supportedFormats) {
+      const { key = endpoint.name, types } = endpoint.supportedFormats;
+      supportedFormats[key] = types === 'inputs' ? [...new Set([...from, ...attachments])] : [...to];
+    }
+  }
+
+  res.status(200).json({
+    status: 'success',
+    message: 'PDF conversion service is operational',
+    endpoints: {
+      ...endpoints,
+      info: 'POST /info - Inspect PDF pages, metadata, encryption, forms, attachments and fonts',
+      formFields: 'POST /forms/fields - List AcroForm fields with values, options and positions',
+      batch: 'POST /batch - Run images, extract, docx or text over many PDFs and return one ZIP with a manifest',
+    },
+    supportedFormats: {
+      ...supportedFormats,
+      info: ['pdf'],
+      batch: ['pdf'],
+    },
+    endpointFormats,
+    maxFileSize: formatSize(upload.limits.maxFileBytes),
+    maxImagesPerRequest: converterRegistry.get('images-to-pdf').limits.maxFiles,
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Pipeline Routes
+ *
+ * API endpoint for running several operations on uploaded files in one
+ * request, e.g. images to PDF, page numbers, document properties and DOCX,
+ * without downloading and uploading the intermediate results.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { pipelineUpload, getUploadErrorMessage } from '../config/upload';
+import { pipelineService, PipelineService } from '../services/pipeline.service';
+import { Artifact, ArtifactType, ARTIFACT_CONTENT_TYPES } from '../converters/converterRegistry';
+import { FileValidator } from '../utils/fileValidator';
+import { streamZip, ZipEntry } from '../utils/zipStream';
+import { asyncHandler } from '../utils/asyncHandler';
+import { validateFieldUploads } from '../middleware/fileValidation';
+import { pdfComplexityMiddleware } from '../middleware/dosProtection';
+
+export const pipelineRouter: Router = Router();
+
+/**
+ * Read the optional password for encrypted PDFs from the multipart form
+ * (never from the query string, so it does not end up in request logs)
+ */
+const getPassword = (req: Request): string | undefined => {
+  const password = req.body?.password;
+  return typeof password === 'string' && password !== '' ? password : undefined;
+};
+
+/**
+ * Abort signal for worker tasks that fires when the response is closed,
+ * e.g. when the client disconnects or the request timeout has responded
+ */
+const responseSignal = (res: Response): AbortSignal => {
+  const controller = new AbortController();
+  res.once('close', () => controller.abort());
+  return controller.signal;
+};
+
+/**
+ * Turn the uploaded files into the inputs of the first step
+ */
+const toArtifacts = (files: Record<string, Express.Multer.File[]>): Artifact[] => {
+  const artifact = (file: Express.Multer.File, type: ArtifactType): Artifact => ({
+    name: file.originalname.replace(/\.[^.]+$/, '') || 'file',
+    type,
+    buffer: file.buffer,
+  });
+
+  return [
+    ...(files.pdfs || []).map(file => artifact(file, 'pdf')),
+    ...(files.images || []).map(file => artifact(file, FileValidator.detectFileType(file.buffer) === 'png' ? 'png' : 'jpeg')),
+    ...(files.text || []).map(file => artifact(file, 'txt')),
+  ];
+};
+
+/**
+ * Archive entries for the results, with a counter for repeated filenames
+ */
+const toZipEntries = (artifacts: Artifact[]): ZipEntry[] => {
+  const used = new Set<string>();
+
+  return artifacts.map(artifact => {
+    let name = `${artifact.name}.${artifact.type}`;
+    for (let counter = 2; used.has(name.toLowerCase()); counter++) {
+      name = `${artifact.name} (${counter}).${artifact.type}`;
+    }
+    used.add(name.toLowerCase());
+    return { name, source: artifact.buffer };
+  });
+};
+
+/**
+ * POST /
+ *
+ * Run a recipe of operations on the uploaded files. Each step receives the
+ * files produced by the previous step. The recipe is validated completely
+ * before anything runs, including whether each step accepts the file type
+ * the previous step produces.
+ *
+ * Request Body (multipart/form-data):
+ *   - recipe: JSON array of steps, e.g.
+ *     [{"operation":"images-to-pdf"},
+ *      {"operation":"stamp","options":{"footer":"Page {page} of {total}"}},
+ *      {"operation":"metadata","options":{"title":"Report"}},
+ *      {"operation":"pdf-to-docx"}]
+ *     Operations: images-to-pdf, text-to-pdf, merge, split, organize,
+ *     watermark, stamp, metadata, protect, unlock, fill-form, convert,
+ *     thumbnail, pdf-to-docx, pdf-to-text. Options are the same as for the
+ *     matching /api/pdf endpoint.
+ *   - pdfs: PDF files
+ *   - images: PNG or JPEG images
+ *   - text: Text files
+ *   (max PIPELINE_MAX_FILES files in all, default 20)
+ *   - password: Optional password for encrypted PDFs (unlock, convert,
+ *     thumbnail, pdf-to-docx, pdf-to-text)
+ *
+ * Response:
+ *   - The result file if the last step produced one file, otherwise a ZIP
+ *     archive of all results
+ *   - 400 with per-step details when the recipe is invalid
+ */
+pipelineRouter.post(
+  '/',
+  pipelineUpload.fields([
+    { name: 'pdfs', maxCount: pipelineUpload.limits.maxFiles },
+    { name: 'images', maxCount: pipelineUpload.limits.maxFiles },
+    { name: 'text', maxCount: pipelineUpload.limits.maxFiles },
+  ]),
+  validateFieldUploads({ pdfs: ['pdf'], images: ['png', 'jpeg'], text: ['txt'] }),
+  pdfComplexityMiddleware(pipelineUpload.limits.maxPages, { fieldName: 'pdfs', allowEncrypted: true }), // Password handled by the steps
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const files = (req.files && !Array.isArray(req.files) ? req.files : {}) as Record<string, Express.Multer.File[]>;
+    const inputs = toArtifacts(files);
+
+    // Check if files were uploaded
+    if (inputs.length === 0) {
+      res.status(400).json({
+        status: 'error',
+        message: 'No files uploaded. Please provide files in the "pdfs", "images" or "text" field.',
+      });
+      return;
+    }
+
+    const recipeParam = req.body?.recipe;
+
+    if (typeof recipeParam !== 'string' || recipeParam.trim() === '') {
+      res.status(400).json({
+        status: 'error',
+        message: 'No recipe provided. Please provide a JSON array of steps in the "recipe" field.',
+      });
+      return;
+    }
+
+    try {
+      // Parse and type-check all steps, then run them
+      const steps = PipelineService.parseRecipe(recipeParam, inputs.map(input => input.type));
+      const outputs = await pipelineService.run(steps, inputs, {
+        signal: responseSignal(res),
+        password: getPassword(req),
+      });
+
+      if (outputs.length === 1) {
+        const [output] = outputs;
+
+        res.setHeader('Content-Type', ARTIFACT_CONTENT_TYPES[output.type]);
+        res.setHeader('Content-Disposition', `attachment; filename="${output.name}.${output.type}"`);
+        res.setHeader('Content-Length', output.buffer.length);
+
+        res.send(output.buffer);
+        return;
+      }
+
+      // Several results: stream them as a ZIP download
+      const timestamp = Date.now();
+      await streamZip(res, `pipeline-${timestamp}.zip`, toZipEntries(outputs));
+
+    } catch (error) {
+      // Pass error to error handler
+      next(error);
+    }
+  })
+);
+
+/**
+ * Error handler for multer errors
+ * This middleware catches file upload errors
+ */
+pipelineRouter.use((err: any, _req: Request, res: Response, next: NextFunction) => {
+  // Check if it's a multer error
+  if (err.name === 'MulterError' ||
+    err.message === 'Only PDF files are allowed' ||
+    err.message === 'Only PNG and JPEG images are allowed' ||
+    err.message === 'Only text files (.txt) are allowed') {
+    res.status(400).json({
+      status: 'error',
+      message: getUploadErrorMessage(err),
+    });
+    return;
+  }
+
+  // Pass to global error handler
+  next(err);
+});
@@ -7,6 +7,9 @@
 import { createApp } from './app';
 import { env, isProduction } from './config/env';
 import { Server } from 'http';
+import { pdfWorkerPool } from './workers/pdfWorkerPool';
+import { jobService } from './services/jobs.service';
+import { uploadStorageService } from './services/uploadStorage.service';
 
 /**
  * Start the server
@@ -33,6 +36,11 @@ const startServer = (): Server => {
 const gracefulShutdown = (server: Server, signal: string): void => {
   console.log(`\n${signal} received. Starting graceful shutdown...`);
   
+  // Cancel background jobs; this also ends their open event streams, which
+  // would otherwise keep the server from closing
+  const jobsStopped = jobService.shutdown()
+    .catch(error => console.error('Error during job cleanup:', error));
+  
   server.close((err) => {
     if (err) {
       console.error('Error during server shutdown:', err);
@@ -40,8 +48,17 @@ const gracefulShutdown = (server: Server, signal: string): void => {
     }
     
     console.log('✅ Server closed successfully');
-    console.log('👋 Process terminated');
-    process.exit(0);
+    
+    // Remove leftover uploads and stop the worker threads once in-flight
+    // requests and jobs have finished
+    jobsStopped
+      .then(() => uploadStorageService.shutdown())
+      .catch(error => console.error('Error during upload cleanup:', error))
+      .then(() => pdfWorkerPool.destroy())
+      .finally(() => {
+        console.log('👋 Process terminated');
+        process.exit(0);
+      });
   });
   
   // Force shutdown after 30 seconds
@@ -0,0 +1,325 @@
+/**
+ * Conversion Cache Service
+ *
+ * Caches conversion results by a SHA-256 key over the input files and the
+ * normalized options, so repeated uploads of the same document are answered
+ * without converting again. Results are kept in an in-memory LRU tier and,
+ * when CACHE_DISK_DIR is set, in an on-disk tier; both tiers have a size cap
+ * and entries expire after CACHE_TTL_MS. Each entry keeps a SHA-256 hash of
+ * its body, which is sent as the ETag of the result.
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { env } from '../config/env';
+
+/**
+ * A cached conversion result
+ */
+export interface CachedResult {
+  body: Buffer;
+  contentType: string;
+  etag: string;                 // Strong ETag, a hash of the body
+}
+
+/**
+ * Entry in one of the cache tiers (the body is kept in memory or on disk)
+ */
+interface CacheEntry {
+  contentType: string;
+  etag: string;
+  size: number;
+  expiresAt: number;
+  body?: Buffer;                // Memory tier only
+}
+
+/**
+ * Cache key format: 64 hex characters
+ */
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Serialize options with sorted keys, leaving out undefined values, so equal
+ * options always produce the same key
+ */
+const canonicalJson = (value: unknown): string => {
+  if (Buffer.isBuffer(value)) {
+    return JSON.stringify(createHash('sha256').update(value).digest('hex'));
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const fields = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Conversion Cache Service Class
+ */
+export class ConversionCacheService {
+  // Insertion order is least to most recently used
+  private memory = new Map<string, CacheEntry>();
+  private memoryBytes = 0;
+
+  // Disk tier index, loaded from CACHE_DISK_DIR on first use
+  private disk?: Promise<Map<string, CacheEntry> | undefined>;
+  private diskBytes = 0;
+
+  /**
+   * Compute the cache key of a conversion
+   *
+   * @param operation - Conversion name, e.g. "pdf-to-docx"
+   * @param inputs - Input files, in order
+   * @param options - Parsed options that affect the result (including the
+   *   password, so encrypted documents are only served to clients that know it)
+   * @returns SHA-256 hex digest
+   */
+  static key(operation: string, inputs: Buffer[], options: Record<string, unknown>): string {
+    const hash = createHash('sha256');
+
+    hash.update(`${operation}\0`);
+    for (const input of inputs) {
+      // Length prefix, so the boundary between inputs is part of the key
+      hash.update(`${input.length}\0`);
+      hash.update(input);
+    }
+    hash.update(canonicalJson(options));
+
+    return hash.digest('hex');
+  }
+
+  /**
+   * Compute the cache key of a conversion of one file on disk, reading it in
+   * chunks; the key is the same as for its content in memory
+   *
+   * @param path - Input file, e.g. an upload kept on disk
+   */
+  static async fileKey(operation: string, path: string, options: Record<string, unknown>): Promise<string> {
+    const hash = createHash('sha256');
+
+    hash.update(`${operation}\0`);
+    hash.update(`${(await stat(path)).size}\0`);
+    for await (const chunk of createReadStream(path)) {
+      hash.update(chunk);
+    }
+    hash.update(canonicalJson(options));
+
+    return hash.digest('hex');
+  }
+
+  /**
+   * Compute the ETag of a result from its body, so it only matches clients
+   * that have exactly these bytes
+   *
+   * @returns Quoted SHA-256 hex digest
+   */
+  static etag(body: Buffer): string {
+    return `"${createHash('sha256').update(body).digest('hex')}"`;
+  }
+
+  /**
+   * Look up a result
+   *
+   * @param key - Cache key from ConversionCacheService.key
+   * @returns The cached result, or undefined on a miss
+   */
+  async get(key: string): Promise<CachedResult | undefined> {
+    const now = Date.now();
+
+    const cached = this.memory.get(key);
+    if (cached) {
+      this.memory.delete(key);
+      if (cached.body && cached.expiresAt > now) {
+        // Most recently used
+        this.memory.set(key, cached);
+        return { body: cached.body, contentType: cached.contentType, etag: cached.etag };
+      }
+      this.memoryBytes -= cached.size;
+    }
+
+    const disk = await this.loadDisk();
+    const stored = disk?.get(key);
+    if (!disk || !stored) {
+      return undefined;
+    }
+
+    if (stored.expiresAt <= now) {
+      await this.removeFromDisk(disk, key);
+      return undefined;
+    }
+
+    try {
+      const body = await readFile(this.diskPath(key));
+      disk.delete(key);
+      disk.set(key, stored);
+      this.addToMemory(key, { ...stored, body });
+      return { body, contentType: stored.contentType, etag: stored.etag };
+    } catch {
+      // Removed behind our back; treat as a miss
+      await this.removeFromDisk(disk, key);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a result in both tiers
+   *
+   * Results larger than CACHE_MAX_ENTRY_BYTES are not cached. Disk writes
+   * happen in the background; failures are logged.
+   *
+   * @returns The ETag of the result, whether it was cached or not
+   */
+  set(key: string, result: Omit<CachedResult, 'etag'>): string {
+    const etag = ConversionCacheService.etag(result.body);
+    const size = result.body.length;
+    if (size > env.CACHE_MAX_ENTRY_BYTES) {
+      return etag;
+    }
+
+    const entry: CacheEntry = {
+      contentType: result.contentType,
+      etag,
+      size,
+      expiresAt: Date.now() + env.CACHE_TTL_MS,
+    };
+
+    this.addToMemory(key, { ...entry, body: result.body });
+    this.addToDisk(key, entry, result.body).catch(error => {
+      console.error('Failed to write conversion cache entry:', error);
+    });
+
+    return etag;
+  }
+
+  /**
+   * Add an entry to the memory tier, evicting least recently used entries
+   */
+  private addToMemory(key: string, entry: CacheEntry): void {
+    if (entry.size > env.CACHE_MEMORY_MAX_BYTES) {
+      return;
+    }
+
+    const existing = this.memory.get(key);
+    if (existing) {
+      this.memory.delete(key);
+      this.memoryBytes -= existing.size;
+    }
+
+    this.memory.set(key, entry);
+    this.memoryBytes += entry.size;
+
+    for (const [oldestKey, oldest] of this.memory) {
+      if (this.memoryBytes <= env.CACHE_MEMORY_MAX_BYTES) {
+        break;
+      }
+      this.memory.delete(oldestKey);
+      this.memoryBytes -= oldest.size;
+    }
+  }
+
+  /**
+   * Write an entry to the disk tier, then remove expired entries and evict
+   * least recently used entries above CACHE_DISK_MAX_BYTES
+   */
+  private async addToDisk(key: string, entry: CacheEntry, body: Buffer): Promise<void> {
+    const disk = await this.loadDisk();
+    if (!disk || entry.size > env.CACHE_DISK_MAX_BYTES) {
+      return;
+    }
+
+    await writeFile(this.diskPath(key), body);
+    await writeFile(`${this.diskPath(key)}.json`, JSON.stringify({
+      contentType: entry.contentType,
+      etag: entry.etag,
+      size: entry.size,
+      expiresAt: entry.expiresAt,
+    }));
+
+    const existing = disk.get(key);
+    if (existing) {
+      disk.delete(key);
+      this.diskBytes -= existing.size;
+    }
+    disk.set(key, entry);
+    this.diskBytes += entry.size;
+
+    const now = Date.now();
+    for (const [storedKey, stored] of [...disk]) {
+      if (stored.expiresAt <= now || this.diskBytes > env.CACHE_DISK_MAX_BYTES) {
+        await this.removeFromDisk(disk, storedKey);
+      }
+    }
+  }
+
+  private async removeFromDisk(disk: Map<string, CacheEntry>, key: string): Promise<void> {
+    const stored = disk.get(key);
+    if (!stored) {
+      return;
+    }
+
+    disk.delete(key);
+    this.diskBytes -= stored.size;
+    await rm(this.diskPath(key), { force: true });
+    await rm(`${this.diskPath(key)}.json`, { force: true });
+  }
+
+  /**
+   * Load the disk tier index (oldest entries first), or undefined if the
+   * disk tier is disabled
+   */
+  private loadDisk(): Promise<Map<string, CacheEntry> | undefined> {
+    const dir = env.CACHE_DISK_DIR;
+    if (!dir) {
+      return Promise.resolve(undefined);
+    }
+
+    this.disk ??= (async () => {
+      await mkdir(dir, { recursive: true });
+
+      const stored: Array<[string, CacheEntry]> = [];
+      for (const file of await readdir(dir)) {
+        const key = file.replace(/\.json$/, '');
+        if (file === key || !KEY_PATTERN.test(key)) {
+          continue;
+        }
+
+        try {
+          const meta = JSON.parse(await readFile(join(dir, file), 'utf-8'));
+          if (typeof meta.etag !== 'string') {
+            throw new Error('Entry has no ETag');
+          }
+          stored.push([key, { contentType: meta.contentType, etag: meta.etag, size: meta.size, expiresAt: meta.expiresAt }]);
+        } catch {
+          // Incomplete entry from an interrupted write, or written without an ETag
+          await rm(join(dir, key), { force: true });
+          await rm(join(dir, file), { force: true });
+        }
+      }
+
+      // Entries written earlier expire earlier, so expiry order approximates use order
+      stored.sort(([, a], [, b]) => a.expiresAt - b.expiresAt);
+      this.diskBytes = stored.reduce((total, [, entry]) => total + entry.size, 0);
+      return new Map(stored);
+    })().catch(error => {
+      console.error(`Conversion cache directory ${dir} is not usable; disk cache disabled:`, error);
+      return undefined;
+    });
+
+    return this.disk;
+  }
+
+  private diskPath(key: string): string {
+    return join(env.CACHE_DISK_DIR!, key);
+  }
+}
+
+// Export singleton instance
+export const conversionCache = new ConversionCacheService();
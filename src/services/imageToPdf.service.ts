@@ -6,6 +6,8 @@
  */
 
 import { PDFDocument } from 'pdf-lib';
+import { pdfMetadataService, PdfMetadata } from './pdfMetadata.service';
+import { ProgressListener } from '../utils/progress';
 
 /**
  * Supported image formats
@@ -25,7 +27,9 @@ export interface ImageData {
  * Options for PDF conversion
  */
 export interface ConversionOptions {
-  filename?: string;
+  filename?: string;        // Output filename, used as the default document title
+  metadata?: PdfMetadata;   // Document properties
+  onProgress?: ProgressListener; // Called as images are added
 }
 
 /**
@@ -41,7 +45,7 @@ export class ImageToPdfService {
    */
   async convertImagesToPdf(
     images: ImageData[],
-    _options?: ConversionOptions
+    options: ConversionOptions = {}
   ): Promise<Buffer> {
     if (!images || images.length === 0) {
       throw new Error('At least one image is required');
@@ -64,6 +68,14 @@ export class ImageToPdfService {
             }`
           );
         }
+
+        options.onProgress?.({ stage: 'embed', done: i + 1, total: images.length });
+      }
+
+      // Set document properties
+      const title = options.filename?.replace(/\.pdf$/i, '');
+      if (title || options.metadata) {
+        pdfMetadataService.applyMetadata(pdfDoc, { title, ...options.metadata });
       }
 
       // Save the PDF to bytes
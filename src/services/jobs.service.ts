@@ -0,0 +1,493 @@
+/**
+ * Job Service
+ *
+ * Runs long conversions in the background. Jobs are queued in memory and
+ * processed a few at a time (JOB_CONCURRENCY); results are written to
+ * JOBS_DIR and removed together with their job JOB_TTL_MS after the job
+ * has finished. Status changes, progress and warnings are published to
+ * subscribers as they happen, and a webhook is sent when a job with a
+ * callback URL completes or fails.
+ */
+
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { mkdir, readdir, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { env } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { ProgressEvent, ProgressListener, ProgressWarning, WarningListener } from '../utils/progress';
+import { writeZipFile, ZipEntry } from '../utils/zipStream';
+import { webhookService, WebhookDelivery } from './webhook.service';
+
+/**
+ * Conversions that can run as jobs
+ */
+export const JOB_TYPES = ['convert', 'extract', 'pdf-to-docx', 'text-to-pdf', 'images-to-pdf', 'thumbnail'] as const;
+export type JobType = typeof JOB_TYPES[number];
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Passed to a job while it runs
+ */
+export interface JobContext {
+  signal: AbortSignal;          // Fires when the job is cancelled
+  onProgress: ProgressListener;
+  onWarning: WarningListener;
+}
+
+/**
+ * Work done by a job
+ */
+export interface JobTask {
+  filename: string;             // Download filename of the result
+  contentType: string;
+  // Produces the result file, or the entries of a ZIP result
+  produce: (context: JobContext) => Promise<Buffer> | AsyncIterable<ZipEntry>;
+}
+
+/**
+ * Why a job failed
+ */
+export interface JobError {
+  message: string;
+  statusCode: number;           // HTTP status the synchronous route would have returned
+  details?: unknown;
+}
+
+/**
+ * Result file of a completed job
+ */
+export interface JobResult {
+  filename: string;
+  contentType: string;
+  size: number;                 // Bytes
+  path: string;                 // Location in JOBS_DIR
+}
+
+/**
+ * Job state
+ */
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  progress?: ProgressEvent;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  expiresAt?: Date;             // When the job and its result are removed
+  warnings: ProgressWarning[];  // First MAX_JOB_WARNINGS warnings
+  error?: JobError;
+  result?: JobResult;
+  callback?: WebhookDelivery;   // Webhook sent when the job completes or fails
+}
+
+/**
+ * Options for a new job
+ */
+export interface JobOptions {
+  callbackUrl?: string;         // Validated with WebhookService.parseCallbackUrl
+  baseUrl?: string;             // Public server URL for links in the webhook payload
+}
+
+/**
+ * Change published to job subscribers
+ */
+export type JobEvent =
+  | { type: 'status'; job: Job }  // Job started or finished
+  | { type: 'progress'; progress: ProgressEvent }
+  | { type: 'warning'; warning: ProgressWarning };
+
+export type JobListener = (event: JobEvent) => void;
+
+/**
+ * Job with its work, kept until the job finishes
+ */
+interface JobEntry {
+  job: Job;
+  task?: JobTask;
+  controller: AbortController;
+  baseUrl: string;
+}
+
+/**
+ * Interval of the cleanup sweep (at most one minute)
+ */
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Warnings kept per job (further warnings are still published)
+ */
+const MAX_JOB_WARNINGS = 100;
+
+/**
+ * Whether a job has reached its final state
+ */
+export const isFinished = (job: Job): boolean =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+/**
+ * Job Service Class
+ */
+export class JobService {
+  private jobs = new Map<string, JobEntry>();
+  private queue: JobEntry[] = [];
+  private running = 0;
+  private sweeper?: NodeJS.Timeout;
+  // Subscribers by job id
+  private events = new EventEmitter().setMaxListeners(0);
+
+  /**
+   * Queue a job
+   *
+   * @param type - Conversion type
+   * @param task - Work to run
+   * @param options - Webhook options
+   * @returns The queued job
+   * @throws AppError 503 if JOB_QUEUE_LIMIT jobs are already queued or running
+   */
+  create(type: JobType, task: JobTask, options: JobOptions = {}): Job {
+    if (this.queue.length + this.running >= env.JOB_QUEUE_LIMIT) {
+      throw new AppError(503, 'Too many jobs in progress. Please try again later.');
+    }
+
+    const entry: JobEntry = {
+      job: {
+        id: randomUUID(),
+        type,
+        status: 'queued',
+        createdAt: new Date(),
+        warnings: [],
+        callback: options.callbackUrl ? webhookService.createDelivery(options.callbackUrl) : undefined,
+      },
+      task,
+      controller: new AbortController(),
+      baseUrl: options.baseUrl ?? '',
+    };
+
+    this.jobs.set(entry.job.id, entry);
+    this.queue.push(entry);
+    this.startSweeper();
+    this.drain();
+
+    return entry.job;
+  }
+
+  /**
+   * Get a job by id
+   *
+   * @throws AppError 404 if the job does not exist or has expired
+   */
+  get(id: string): Job {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      throw new AppError(404, `Job ${id} not found`);
+    }
+    return entry.job;
+  }
+
+  /**
+   * Receive status changes, progress and warnings of a job until it finishes
+   *
+   * @returns Function that ends the subscription
+   * @throws AppError 404 if the job does not exist or has expired
+   */
+  subscribe(id: string, listener: JobListener): () => void {
+    this.get(id);
+    this.events.on(id, listener);
+    return () => {
+      this.events.off(id, listener);
+    };
+  }
+
+  /**
+   * Cancel a queued or running job, or delete a finished job and its result
+   *
+   * @returns The job in its final state
+   * @throws AppError 404 if the job does not exist or has expired
+   */
+  async cancel(id: string): Promise<Job> {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      throw new AppError(404, `Job ${id} not found`);
+    }
+
+    const { job } = entry;
+
+    if (job.status === 'queued' || job.status === 'running') {
+      this.queue = this.queue.filter(queued => queued !== entry);
+      this.complete(entry, 'cancelled');
+      // A running job stops at its next page and removes its partial result
+      entry.controller.abort();
+    } else {
+      await this.remove(entry);
+    }
+
+    return job;
+  }
+
+  /**
+   * Public view of a job
+   */
+  toJSON(job: Job): Record<string, unknown> {
+    return {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      progress: job.progress ?? null,
+      createdAt: job.createdAt.toISOString(),
+      startedAt: job.startedAt?.toISOString() ?? null,
+      finishedAt: job.finishedAt?.toISOString() ?? null,
+      expiresAt: job.expiresAt?.toISOString() ?? null,
+      warnings: job.warnings,
+      error: job.error ?? null,
+      result: job.result
+        ? {
+            filename: job.result.filename,
+            contentType: job.result.contentType,
+            size: job.result.size,
+            url: `${env.API_PREFIX}/jobs/${job.id}/result`,
+          }
+        : null,
+      callback: job.callback
+        ? {
+            url: job.callback.url,
+            status: job.callback.status,
+            attempts: job.callback.attempts.map(attempt => ({
+              ...attempt,
+              sentAt: attempt.sentAt.toISOString(),
+            })),
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Cancel all jobs and remove their results (jobs are not kept across restarts)
+   *
+   * Subscribers receive the final status, so open event streams end.
+   */
+  async shutdown(): Promise<void> {
+    webhookService.shutdown();
+
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = undefined;
+    }
+
+    this.queue = [];
+    const entries = [...this.jobs.values()];
+
+    for (const entry of entries) {
+      if (!isFinished(entry.job)) {
+        this.complete(entry, 'cancelled');
+        entry.controller.abort();
+      }
+    }
+    await Promise.all(entries.map(entry => this.remove(entry)));
+  }
+
+  /**
+   * Start queued jobs up to JOB_CONCURRENCY
+   */
+  private drain(): void {
+    while (this.queue.length > 0 && this.running < env.JOB_CONCURRENCY) {
+      const entry = this.queue.shift()!;
+      this.running++;
+
+      this.run(entry).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  /**
+   * Run a job and store its result
+   */
+  private async run(entry: JobEntry): Promise<void> {
+    const { job, task, controller } = entry;
+    if (!task) {
+      return;
+    }
+
+    const path = join(env.JOBS_DIR, job.id);
+    job.status = 'running';
+    job.startedAt = new Date();
+    this.publish(job.id, { type: 'status', job });
+
+    try {
+      await mkdir(env.JOBS_DIR, { recursive: true });
+
+      const output = task.produce({
+        signal: controller.signal,
+        onProgress: progress => {
+          job.progress = progress;
+          this.publish(job.id, { type: 'progress', progress });
+        },
+        onWarning: warning => {
+          if (job.warnings.length < MAX_JOB_WARNINGS) {
+            job.warnings.push(warning);
+          }
+          this.publish(job.id, { type: 'warning', warning });
+        },
+      });
+
+      let size: number;
+      if (output instanceof Promise) {
+        const buffer = await output;
+        await writeFile(path, buffer);
+        size = buffer.length;
+      } else {
+        size = await writeZipFile(path, output);
+      }
+
+      if (job.status !== 'running') {
+        // Cancelled while the result was being written
+        await rm(path, { force: true });
+        return;
+      }
+
+      job.result = { filename: task.filename, contentType: task.contentType, size, path };
+      this.complete(entry, 'completed');
+    } catch (error) {
+      await rm(path, { force: true }).catch(() => undefined);
+
+      if (job.status !== 'running') {
+        return;
+      }
+
+      job.error = {
+        message: error instanceof Error ? error.message : String(error),
+        statusCode: error instanceof AppError ? error.statusCode : 500,
+        details: error instanceof AppError ? error.details : undefined,
+      };
+      this.complete(entry, 'failed');
+
+      if (!(error instanceof AppError)) {
+        console.error(`Job ${job.id} (${job.type}) failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Mark a job as finished and start its time to live
+   */
+  private complete(entry: JobEntry, status: JobStatus): void {
+    const now = new Date();
+
+    entry.job.status = status;
+    entry.job.finishedAt = now;
+    entry.job.expiresAt = new Date(now.getTime() + env.JOB_TTL_MS);
+    // Release the input files
+    entry.task = undefined;
+
+    this.publish(entry.job.id, { type: 'status', job: entry.job });
+    this.events.removeAllListeners(entry.job.id);
+
+    // Cancelled jobs are cancelled by the client, who needs no notification
+    if (entry.job.callback && status !== 'cancelled') {
+      webhookService.deliver(entry.job.callback, this.webhookPayload(entry))
+        .catch(error => console.error(`Webhook for job ${entry.job.id} failed:`, error));
+    }
+  }
+
+  /**
+   * Payload of the webhook sent when a job finishes
+   */
+  private webhookPayload({ job, baseUrl }: JobEntry): Record<string, unknown> {
+    const jobUrl = `${baseUrl}${env.API_PREFIX}/jobs/${job.id}`;
+    const startedAt = job.startedAt?.getTime();
+    const finishedAt = job.finishedAt?.getTime();
+
+    return {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      statusUrl: jobUrl,
+      resultUrl: job.result ? `${jobUrl}/result` : null,
+      result: job.result
+        ? { filename: job.result.filename, contentType: job.result.contentType, size: job.result.size }
+        : null,
+      timings: {
+        createdAt: job.createdAt.toISOString(),
+        startedAt: job.startedAt?.toISOString() ?? null,
+        finishedAt: job.finishedAt?.toISOString() ?? null,
+        queuedMs: (startedAt ?? finishedAt ?? job.createdAt.getTime()) - job.createdAt.getTime(),
+        processingMs: startedAt !== undefined && finishedAt !== undefined ? finishedAt - startedAt : null,
+      },
+      error: job.error ? { statusCode: job.error.statusCode, message: job.error.message } : null,
+      warnings: job.warnings.length,
+    };
+  }
+
+  /**
+   * Notify the subscribers of a job
+   */
+  private publish(id: string, event: JobEvent): void {
+    this.events.emit(id, event);
+  }
+
+  /**
+   * Delete a finished job and its result file
+   */
+  private async remove(entry: JobEntry): Promise<void> {
+    this.jobs.delete(entry.job.id);
+    if (entry.job.result) {
+      await rm(entry.job.result.path, { force: true });
+    }
+  }
+
+  /**
+   * Start the cleanup sweep with the first job (does not keep the process alive)
+   */
+  private startSweeper(): void {
+    if (this.sweeper) {
+      return;
+    }
+
+    const interval = Math.min(MAX_SWEEP_INTERVAL_MS, env.JOB_TTL_MS);
+    this.sweeper = setInterval(() => {
+      this.sweep().catch(error => console.error('Job cleanup failed:', error));
+    }, interval);
+    this.sweeper.unref();
+  }
+
+  /**
+   * Remove expired jobs, and result files older than the TTL that belong to
+   * no job (e.g. left behind by a previous process)
+   */
+  private async sweep(): Promise<void> {
+    const now = Date.now();
+
+    for (const entry of [...this.jobs.values()]) {
+      if (entry.job.expiresAt && entry.job.expiresAt.getTime() <= now) {
+        await this.remove(entry);
+      }
+    }
+
+    let files: string[];
+    try {
+      files = await readdir(env.JOBS_DIR);
+    } catch {
+      // Nothing has been written yet
+      return;
+    }
+
+    for (const file of files) {
+      if (this.jobs.has(file)) {
+        continue;
+      }
+
+      const path = join(env.JOBS_DIR, file);
+      const info = await stat(path).catch(() => undefined);
+      if (info?.isFile() && now - info.mtimeMs > env.JOB_TTL_MS) {
+        await rm(path, { force: true });
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const jobService = new JobService();
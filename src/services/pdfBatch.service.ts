@@ -0,0 +1,243 @@
+/**
+ * PDF Batch Service
+ *
+ * Runs one operation over many uploaded PDFs with bounded concurrency and
+ * packs the results into a single archive: one folder per input plus a
+ * manifest.json that reports the outcome of every file. Each file is
+ * validated and processed on its own, so an invalid or failing file is
+ * recorded in the manifest instead of failing the whole batch.
+ */
+
+import { readFile } from 'fs/promises';
+import { env } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { validatePdfComplexity } from '../middleware/dosProtection';
+import { FileValidator } from '../utils/fileValidator';
+import { ZipEntry } from '../utils/zipStream';
+
+/**
+ * Supported batch operations
+ */
+export const BATCH_OPERATIONS = ['images', 'extract', 'docx', 'text'] as const;
+
+export type BatchOperation = typeof BATCH_OPERATIONS[number];
+
+/**
+ * An uploaded file of the batch
+ */
+export interface BatchFile {
+  originalname: string;
+  mimetype: string;
+  buffer?: Buffer;              // Contents of a file kept in memory
+  path?: string;                // Location of a file kept on disk (UPLOAD_STORAGE=disk)
+}
+
+/**
+ * A file of the batch with its contents, read when its turn comes
+ */
+export type LoadedBatchFile = BatchFile & { buffer: Buffer };
+
+/**
+ * Produces the output entries of one file; entry names are relative to the
+ * file's folder, whose name (safe for archive paths) is passed along
+ */
+export type BatchProcessor = (file: LoadedBatchFile, folder: string) => Promise<ZipEntry[]>;
+
+/**
+ * Outcome of one file, as reported in manifest.json
+ */
+export interface BatchFileResult {
+  filename: string;
+  folder: string;
+  status: 'success' | 'failed';
+  outputs: string[];            // Archive paths of the results
+  durationMs: number;
+  error?: string;
+  statusCode?: number;          // HTTP status the synchronous route would have answered with
+  details?: unknown;            // Error details, e.g. { code: 'PASSWORD_REQUIRED' }
+}
+
+/**
+ * Contents of manifest.json
+ */
+export interface BatchManifest {
+  operation: BatchOperation;
+  total: number;
+  succeeded: number;
+  failed: number;
+  files: BatchFileResult[];
+}
+
+/**
+ * Options for a batch run
+ */
+export interface BatchOptions {
+  maxPages: number;             // Page limit per file
+  concurrency?: number;         // Files processed at the same time (default: BATCH_CONCURRENCY)
+}
+
+/**
+ * Processed file, waiting to be written to the archive
+ */
+interface ProcessedFile {
+  result: BatchFileResult;
+  entries: ZipEntry[];
+}
+
+/**
+ * PDF Batch Service Class
+ */
+export class PdfBatchService {
+  /**
+   * Parse the operation parameter
+   *
+   * @throws Error if the operation is missing or not supported
+   */
+  static parseOperation(value: unknown): BatchOperation {
+    const operation = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if (!(BATCH_OPERATIONS as readonly string[]).includes(operation)) {
+      throw new Error(`Invalid operation. Supported operations: ${BATCH_OPERATIONS.join(', ')}`);
+    }
+    return operation as BatchOperation;
+  }
+
+  /**
+   * Folder name of each input: the filename without its .pdf extension,
+   * made safe for archive paths, with a counter for repeated names
+   */
+  static folderNames(files: BatchFile[]): string[] {
+    const used = new Set<string>();
+
+    return files.map((file, index) => {
+      const base = file.originalname
+        .replace(/\.pdf$/i, '')
+        .replace(/[/\\:*?"<>|\x00-\x1f]/g, '_')
+        .replace(/^\.+/, '')
+        .trim() || `file-${index + 1}`;
+
+      let folder = base;
+      for (let counter = 2; used.has(folder.toLowerCase()); counter++) {
+        folder = `${base} (${counter})`;
+      }
+      used.add(folder.toLowerCase());
+      return folder;
+    });
+  }
+
+  /**
+   * Process files and produce the archive entries
+   *
+   * Up to `concurrency` files are processed ahead of the archive; results are
+   * written in upload order, so at most that many files are held in memory.
+   * manifest.json is the last entry.
+   *
+   * @param operation - Operation name for the manifest
+   * @param files - Uploaded files, in order
+   * @param processor - Converts one validated file
+   * @param options - Page limit and concurrency
+   * @returns Async generator of archive entries
+   */
+  async *process(
+    operation: BatchOperation,
+    files: BatchFile[],
+    processor: BatchProcessor,
+    options: BatchOptions
+  ): AsyncGenerator<ZipEntry, void, undefined> {
+    const concurrency = Math.max(1, options.concurrency ?? env.BATCH_CONCURRENCY);
+    const folders = PdfBatchService.folderNames(files);
+    const results: BatchFileResult[] = [];
+
+    // Files in flight, in upload order; never rejects
+    const pending: Promise<ProcessedFile>[] = [];
+    let started = 0;
+
+    const startNext = (): void => {
+      if (started < files.length) {
+        const index = started++;
+        pending.push(this.processFile(files[index], folders[index], processor, options.maxPages));
+      }
+    };
+
+    while (started < Math.min(concurrency, files.length)) {
+      startNext();
+    }
+
+    while (pending.length > 0) {
+      const { result, entries } = await pending.shift()!;
+      startNext();
+
+      results.push(result);
+      yield* entries;
+    }
+
+    const manifest: BatchManifest = {
+      operation,
+      total: results.length,
+      succeeded: results.filter(result => result.status === 'success').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      files: results,
+    };
+
+    yield { name: 'manifest.json', source: JSON.stringify(manifest, null, 2) };
+  }
+
+  /**
+   * Validate and process one file, recording failures instead of throwing
+   */
+  private async processFile(
+    file: BatchFile,
+    folder: string,
+    processor: BatchProcessor,
+    maxPages: number
+  ): Promise<ProcessedFile> {
+    const startedAt = Date.now();
+
+    try {
+      // Files on disk are read one at a time, so only the files being processed are held in memory
+      const loaded: LoadedBatchFile = { ...file, buffer: file.buffer ?? await readFile(file.path!) };
+
+      const validation = FileValidator.validatePdf(loaded.buffer, file.originalname, file.mimetype);
+      if (!validation.isValid) {
+        throw new AppError(400, `Invalid PDF file: ${FileValidator.formatValidationError(validation)}`);
+      }
+
+      const complexity = await validatePdfComplexity(loaded.buffer, maxPages);
+      if (!complexity.valid) {
+        throw new AppError(400, complexity.error || 'PDF is too complex to process');
+      }
+
+      const entries = (await processor(loaded, folder)).map(entry => ({ ...entry, name: `${folder}/${entry.name}` }));
+
+      return {
+        result: {
+          filename: file.originalname,
+          folder,
+          status: 'success',
+          outputs: entries.map(entry => entry.name),
+          durationMs: Date.now() - startedAt,
+        },
+        entries,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const errorName = `${folder}/error.txt`;
+
+      return {
+        result: {
+          filename: file.originalname,
+          folder,
+          status: 'failed',
+          outputs: [errorName],
+          durationMs: Date.now() - startedAt,
+          error: message,
+          statusCode: error instanceof AppError ? error.statusCode : 500,
+          details: error instanceof AppError ? error.details : undefined,
+        },
+        entries: [{ name: errorName, source: `${message}\n` }],
+      };
+    }
+  }
+}
+
+// Export singleton instance
+export const pdfBatchService = new PdfBatchService();
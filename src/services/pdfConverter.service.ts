@@ -2,18 +2,25 @@
  * PDF Converter Service
  * 
  * Handles conversion of PDF files to images using pdfjs-dist and node-canvas.
- * Supports PNG and JPEG output formats for all pages.
+ * Supports PNG, JPEG, WebP and AVIF output per page, and multi-page TIFF.
  */
 
 import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs';
-import { createCanvas } from '@napi-rs/canvas';
+import { Canvas, createCanvas } from '@napi-rs/canvas';
 import { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
-import { OPS } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { OPS, PasswordResponses } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { AppError } from '../middleware/errorHandler';
+import { expandPageRanges, parsePageRanges } from '../utils/pageRanges';
+import { encodeTiffImage, writeTiff, TiffCompression, TiffImage, TIFF_COMPRESSIONS } from '../utils/tiffWriter';
+import { applyColorMode, parseBackground, ColorMode, COLOR_MODES, TRANSPARENT_BACKGROUND } from '../utils/colorMode';
+import { ProgressListener, WarningListener } from '../utils/progress';
 
 /**
  * Supported image formats
  */
-export type ImageFormat = 'png' | 'jpeg';
+export const IMAGE_FORMATS = ['png', 'jpeg', 'webp', 'avif'] as const;
+
+export type ImageFormat = typeof IMAGE_FORMATS[number];
 
 /**
  * Configuration options for PDF conversion
@@ -21,7 +28,127 @@ export type ImageFormat = 'png' | 'jpeg';
 export interface ConversionOptions {
   format: ImageFormat;
   scale?: number;
-  quality?: number; // JPEG quality (0-1)
+  dpi?: number; // Rendering resolution, overrides scale (72 dpi = scale 1)
+  quality?: number; // JPEG, WebP and AVIF quality (0-1)
+  lossless?: boolean; // Lossless WebP encoding (quality is ignored)
+  pages?: string; // Page range spec (e.g. "1,3-5"), default all pages
+  maxWidth?: number; // Fit the rendered page into this box (pixels)
+  maxHeight?: number;
+  colorMode?: ColorMode; // color, grayscale or bw (black and white), default color
+  threshold?: number; // Black and white threshold (gray level 0-255), default 128
+  dither?: boolean; // Floyd-Steinberg dithering for black and white
+  background?: string; // Canvas fill style behind the page (see parseBackground), default white
+  password?: string; // Password for encrypted PDFs
+  onProgress?: ProgressListener; // Called as pages are rendered
+}
+
+/**
+ * Options that control how a page is drawn, independent of the output encoding
+ */
+export type RenderSettings = Pick<ConversionOptions, 'colorMode' | 'threshold' | 'dither' | 'background'>;
+
+/**
+ * Configuration options for multi-page TIFF conversion
+ */
+export interface TiffConversionOptions
+  extends RenderSettings, Pick<ConversionOptions, 'scale' | 'dpi' | 'pages' | 'maxWidth' | 'maxHeight' | 'password' | 'onProgress'> {
+  compression?: TiffCompression; // g4 (bilevel), lzw-gray or lzw-color, default lzw-color
+}
+
+/**
+ * Maximum number of pixels rendered per page; higher DPI requests are scaled down
+ */
+export const MAX_PIXELS_PER_PAGE = 25_000_000;
+
+/**
+ * Default and maximum thumbnail bounding box (pixels)
+ */
+export const DEFAULT_THUMBNAIL_SIZE = 256;
+export const MAX_THUMBNAIL_SIZE = 1024;
+
+/**
+ * Configuration options for single-page thumbnails
+ */
+export interface ThumbnailOptions
+  extends RenderSettings, Pick<ConversionOptions, 'dpi' | 'quality' | 'lossless' | 'maxWidth' | 'maxHeight' | 'password'> {
+  format?: ImageFormat; // Default png
+  page?: number; // 1-based page number, default 1
+}
+
+/**
+ * Configuration options for contact sheets
+ */
+export interface ContactSheetOptions extends Omit<ThumbnailOptions, 'page'> {
+  pages?: string; // Page range spec, default all pages
+  columns?: number; // Default 4 (fewer for short documents)
+  onProgress?: ProgressListener; // Called as thumbnails are rendered
+}
+
+// Contact sheet layout (pixels)
+const SHEET_COLUMNS = 4;
+const SHEET_GAP = 16;
+const SHEET_LABEL_HEIGHT = 24;
+
+/**
+ * Parse an optional whole-number parameter
+ *
+ * @throws Error if the value is not a whole number within range
+ */
+const parseIntegerParam = (params: Record<string, unknown>, name: string, min: number, max: number): number | undefined => {
+  const raw = params[name];
+  if (raw === undefined || (typeof raw === 'string' && raw.trim() === '')) {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`"${name}" must be a whole number between ${min} and ${max}`);
+  }
+  return value;
+};
+
+/**
+ * Parse an optional true/false parameter (default false)
+ *
+ * @throws Error if the value is not true or false
+ */
+const parseBooleanParam = (params: Record<string, unknown>, name: string): boolean => {
+  const raw = params[name] === undefined ? 'false' : String(params[name]).toLowerCase();
+  if (raw !== 'true' && raw !== 'false') {
+    throw new Error(`"${name}" must be true or false`);
+  }
+  return raw === 'true';
+};
+
+/**
+ * Options for content extraction
+ */
+export interface ExtractionOptions {
+  password?: string; // Password for encrypted PDFs
+  includeImages?: boolean; // Extract embedded images (default: true)
+  onProgress?: ProgressListener; // Called as pages are extracted
+  onWarning?: WarningListener; // Called for images that are skipped
+}
+
+/**
+ * Reason a password-protected PDF could not be opened
+ */
+export type PdfPasswordErrorCode = 'PASSWORD_REQUIRED' | 'INCORRECT_PASSWORD';
+
+/**
+ * Error thrown when an encrypted PDF cannot be opened with the given password
+ */
+export class PdfPasswordError extends AppError {
+  constructor(public readonly code: PdfPasswordErrorCode) {
+    super(
+      401,
+      code === 'PASSWORD_REQUIRED'
+        ? 'This PDF is password protected. Provide the password in the "password" field.'
+        : 'The password provided for this PDF is incorrect.',
+      true,
+      { code }
+    );
+    this.name = 'PdfPasswordError';
+  }
 }
 
 /**
@@ -69,49 +196,310 @@ export class PDFConverterService {
     pdfBuffer: Buffer,
     options: ConversionOptions
   ): Promise<ConvertedPage[]> {
-    const { format, scale = this.defaultScale, quality = this.defaultQuality } = options;
+    const convertedPages: ConvertedPage[] = [];
+
+    for await (const convertedPage of this.streamPdfToImages(pdfBuffer, options)) {
+      convertedPages.push(convertedPage);
+    }
+
+    return convertedPages;
+  }
+
+  /**
+   * Convert PDF pages to images one at a time
+   *
+   * A page is rendered only when the consumer asks for it, and its canvas and
+   * page resources are released once it is encoded. The document is destroyed
+   * when iteration finishes, fails or is stopped early.
+   *
+   * @param pdfBuffer - PDF file buffer
+   * @param options - Conversion options
+   * @returns Async generator of converted pages
+   */
+  async *streamPdfToImages(
+    pdfBuffer: Buffer,
+    options: ConversionOptions
+  ): AsyncGenerator<ConvertedPage, void, undefined> {
+    const { format, password } = options;
+
+    if (format === 'jpeg') {
+      this.assertOpaqueBackground(options.background, 'JPEG');
+    }
+
+    let pdfDoc: PDFDocumentProxy | undefined;
 
     try {
       // Load PDF document
-      const pdfDoc = await this.loadPdfDocument(pdfBuffer);
-      const numPages = pdfDoc.numPages;
-      const convertedPages: ConvertedPage[] = [];
+      pdfDoc = await this.loadPdfDocument(pdfBuffer, password);
+
+      // Only selected pages are loaded and rendered
+      const pageNumbers = this.selectPages(options.pages, pdfDoc.numPages);
+      options.onProgress?.({ stage: 'render', done: 0, total: pageNumbers.length });
 
       // Convert each page
-      for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+      for (const [index, pageNum] of pageNumbers.entries()) {
         const page = await pdfDoc.getPage(pageNum);
-        const imageBuffer = await this.convertPageToImage(page, format, scale, quality);
-        
-        convertedPages.push({
+        const scale = this.resolveScale(page, options);
+        const imageBuffer = await this.convertPageToImage(page, scale, options);
+        page.cleanup();
+        options.onProgress?.({ stage: 'render', done: index + 1, total: pageNumbers.length });
+
+        yield {
           pageNumber: pageNum,
           buffer: imageBuffer,
           filename: `page-${pageNum}.${format}`,
-        });
+        };
       }
-
-      return convertedPages;
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new Error(
         `PDF conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+    } finally {
+      await pdfDoc?.destroy();
+    }
+  }
+
+  /**
+   * Convert PDF pages to a single multi-page TIFF file
+   *
+   * Pages are compressed as soon as they are rendered, so only the
+   * compressed strips are kept in memory.
+   *
+   * @param pdfBuffer - PDF file buffer
+   * @param options - Conversion options
+   * @returns TIFF file buffer
+   */
+  async convertPdfToTiff(pdfBuffer: Buffer, options: TiffConversionOptions = {}): Promise<Buffer> {
+    const { compression = 'lzw-color', password } = options;
+
+    this.assertOpaqueBackground(options.background, 'TIFF');
+
+    let pdfDoc: PDFDocumentProxy | undefined;
+
+    try {
+      pdfDoc = await this.loadPdfDocument(pdfBuffer, password);
+      const pageNumbers = this.selectPages(options.pages, pdfDoc.numPages);
+      const images: TiffImage[] = [];
+
+      options.onProgress?.({ stage: 'render', done: 0, total: pageNumbers.length });
+
+      for (const pageNum of pageNumbers) {
+        const page = await pdfDoc.getPage(pageNum);
+        const scale = this.resolveScale(page, options);
+        const canvas = await this.renderPage(page, scale, options);
+        const { data, width, height } = canvas.getContext('2d').getImageData(0, 0, canvas.width, canvas.height);
+        this.releaseCanvas(canvas);
+        page.cleanup();
+
+        images.push(encodeTiffImage(data, width, height, scale * 72, compression));
+        options.onProgress?.({ stage: 'render', done: images.length, total: pageNumbers.length });
+      }
+
+      return writeTiff(images);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(
+        `PDF to TIFF conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      await pdfDoc?.destroy();
     }
   }
 
+  /**
+   * Render a single page as a thumbnail
+   *
+   * Only the requested page is loaded and rendered.
+   *
+   * @param pdfBuffer - PDF file buffer
+   * @param options - Thumbnail options
+   * @returns Image buffer
+   */
+  async renderThumbnail(pdfBuffer: Buffer, options: ThumbnailOptions = {}): Promise<Buffer> {
+    const { format = 'png', page: pageNumber = 1, password } = options;
+
+    if (format === 'jpeg') {
+      this.assertOpaqueBackground(options.background, 'JPEG');
+    }
+
+    let pdfDoc: PDFDocumentProxy | undefined;
+
+    try {
+      pdfDoc = await this.loadPdfDocument(pdfBuffer, password);
+
+      if (pageNumber > pdfDoc.numPages) {
+        throw new AppError(
+          400,
+          `Page ${pageNumber} does not exist: document has only ${pdfDoc.numPages} page${pdfDoc.numPages === 1 ? '' : 's'}`
+        );
+      }
+
+      const page = await pdfDoc.getPage(pageNumber);
+      const scale = this.resolveScale(page, {
+        dpi: options.dpi,
+        maxWidth: options.maxWidth ?? DEFAULT_THUMBNAIL_SIZE,
+        maxHeight: options.maxHeight ?? DEFAULT_THUMBNAIL_SIZE,
+      });
+      const canvas = await this.renderPage(page, scale, options);
+      const imageBuffer = await this.encodeCanvas(canvas, format, options);
+      this.releaseCanvas(canvas);
+
+      return imageBuffer;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(
+        `Thumbnail rendering failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      await pdfDoc?.destroy();
+    }
+  }
+
+  /**
+   * Compose page thumbnails into a single contact sheet image
+   *
+   * Thumbnails are laid out in a grid, each centered in its cell with the
+   * page number below it. Cells shrink if the sheet would exceed the pixel
+   * budget.
+   *
+   * @param pdfBuffer - PDF file buffer
+   * @param options - Contact sheet options (maxWidth/maxHeight set the cell size)
+   * @returns Image buffer
+   */
+  async renderContactSheet(pdfBuffer: Buffer, options: ContactSheetOptions = {}): Promise<Buffer> {
+    const { format = 'png', password } = options;
+
+    if (format === 'jpeg') {
+      this.assertOpaqueBackground(options.background, 'JPEG');
+    }
+
+    let pdfDoc: PDFDocumentProxy | undefined;
+
+    try {
+      pdfDoc = await this.loadPdfDocument(pdfBuffer, password);
+      const pageNumbers = this.selectPages(options.pages, pdfDoc.numPages);
+      const columns = Math.min(options.columns ?? SHEET_COLUMNS, pageNumbers.length);
+      const rows = Math.ceil(pageNumbers.length / columns);
+
+      // A single dimension gives square cells
+      let cellWidth = options.maxWidth ?? options.maxHeight ?? DEFAULT_THUMBNAIL_SIZE;
+      let cellHeight = options.maxHeight ?? options.maxWidth ?? DEFAULT_THUMBNAIL_SIZE;
+      const sheetWidth = () => columns * (cellWidth + SHEET_GAP) + SHEET_GAP;
+      const sheetHeight = () => rows * (cellHeight + SHEET_LABEL_HEIGHT + SHEET_GAP) + SHEET_GAP;
+
+      if (sheetWidth() * sheetHeight() > MAX_PIXELS_PER_PAGE) {
+        const factor = Math.sqrt(MAX_PIXELS_PER_PAGE / (sheetWidth() * sheetHeight()));
+        cellWidth = Math.max(16, Math.floor(cellWidth * factor));
+        cellHeight = Math.max(16, Math.floor(cellHeight * factor));
+      }
+
+      const sheet = createCanvas(sheetWidth(), sheetHeight());
+      const context = sheet.getContext('2d');
+
+      if (options.background !== TRANSPARENT_BACKGROUND) {
+        context.fillStyle = options.background ?? '#ffffff';
+        context.fillRect(0, 0, sheet.width, sheet.height);
+      }
+
+      context.font = `${Math.round(SHEET_LABEL_HEIGHT * 0.6)}px sans-serif`;
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+
+      for (const [index, pageNum] of pageNumbers.entries()) {
+        const page = await pdfDoc.getPage(pageNum);
+        const scale = this.resolveScale(page, { dpi: options.dpi, maxWidth: cellWidth, maxHeight: cellHeight });
+        const thumbnail = await this.renderPage(page, scale, options);
+
+        const cellX = SHEET_GAP + (index % columns) * (cellWidth + SHEET_GAP);
+        const cellY = SHEET_GAP + Math.floor(index / columns) * (cellHeight + SHEET_LABEL_HEIGHT + SHEET_GAP);
+        const x = cellX + Math.floor((cellWidth - thumbnail.width) / 2);
+        const y = cellY + Math.floor((cellHeight - thumbnail.height) / 2);
+
+        context.drawImage(thumbnail, x, y);
+        context.strokeStyle = '#c0c0c0';
+        context.lineWidth = 1;
+        context.strokeRect(x - 0.5, y - 0.5, thumbnail.width + 1, thumbnail.height + 1);
+
+        context.fillStyle = '#333333';
+        context.fillText(String(pageNum), cellX + cellWidth / 2, cellY + cellHeight + SHEET_LABEL_HEIGHT / 2);
+
+        this.releaseCanvas(thumbnail);
+        page.cleanup();
+        options.onProgress?.({ stage: 'render', done: index + 1, total: pageNumbers.length });
+      }
+
+      const imageBuffer = await this.encodeCanvas(sheet, format, options);
+      this.releaseCanvas(sheet);
+
+      return imageBuffer;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(
+        `Contact sheet rendering failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      await pdfDoc?.destroy();
+    }
+  }
+
+  /**
+   * Reject transparent backgrounds for formats without an alpha channel
+   *
+   * @throws AppError if the background is transparent
+   */
+  private assertOpaqueBackground(background: string | undefined, formatName: string): void {
+    if (background === TRANSPARENT_BACKGROUND) {
+      throw new AppError(400, `${formatName} output does not support a transparent background`);
+    }
+  }
+
+  /**
+   * Resolve the page numbers to convert
+   *
+   * @param pages - Page range spec, or undefined for all pages
+   * @param numPages - Number of pages in the document
+   * @returns 1-based page numbers in the requested order
+   */
+  private selectPages(pages: string | undefined, numPages: number): number[] {
+    return pages
+      ? expandPageRanges(parsePageRanges(pages, numPages))
+      : Array.from({ length: numPages }, (_, index) => index + 1);
+  }
+
   /**
    * Load PDF document from buffer
    * 
    * @param pdfBuffer - PDF file buffer
+   * @param password - Optional password for encrypted PDFs
    * @returns PDF document proxy
+   * @throws PdfPasswordError if the PDF is encrypted and the password is missing or wrong
    */
-  private async loadPdfDocument(pdfBuffer: Buffer): Promise<PDFDocumentProxy> {
+  async loadPdfDocument(pdfBuffer: Buffer, password?: string): Promise<PDFDocumentProxy> {
     try {
       const loadingTask = pdfjs.getDocument({
         data: new Uint8Array(pdfBuffer),
         useSystemFonts: true,
+        password,
       });
 
       return await loadingTask.promise;
     } catch (error) {
+      if (error instanceof Error && error.name === 'PasswordException') {
+        throw new PdfPasswordError(
+          (error as Error & { code?: number }).code === PasswordResponses.INCORRECT_PASSWORD
+            ? 'INCORRECT_PASSWORD'
+            : 'PASSWORD_REQUIRED'
+        );
+      }
       throw new Error(
         `Failed to load PDF: ${error instanceof Error ? error.message : 'Invalid PDF file'}`
       );
@@ -119,20 +507,41 @@ export class PDFConverterService {
   }
 
   /**
-   * Convert a single PDF page to image buffer
-   * 
+   * Resolve the rendering scale of a page
+   *
+   * DPI (or scale) is reduced to fit maxWidth/maxHeight and the pixel budget;
+   * pages are never enlarged to fill the box.
+   *
    * @param page - PDF page proxy
-   * @param format - Image format (png or jpeg)
-   * @param scale - Rendering scale
-   * @param quality - JPEG quality (0-1)
-   * @returns Image buffer
+   * @param options - Conversion options
+   * @returns Rendering scale
    */
-  private async convertPageToImage(
+  private resolveScale(
     page: PDFPageProxy,
-    format: ImageFormat,
-    scale: number,
-    quality: number
-  ): Promise<Buffer> {
+    options: Pick<ConversionOptions, 'scale' | 'dpi' | 'maxWidth' | 'maxHeight'>
+  ): number {
+    const { width, height } = page.getViewport({ scale: 1 });
+    let scale = options.dpi ? options.dpi / 72 : options.scale ?? this.defaultScale;
+
+    if (options.maxWidth) {
+      scale = Math.min(scale, options.maxWidth / width);
+    }
+    if (options.maxHeight) {
+      scale = Math.min(scale, options.maxHeight / height);
+    }
+
+    return Math.min(scale, Math.sqrt(MAX_PIXELS_PER_PAGE / (width * height)));
+  }
+
+  /**
+   * Render a single PDF page to a canvas
+   *
+   * @param page - PDF page proxy
+   * @param scale - Rendering scale
+   * @param settings - Background and color mode
+   * @returns Canvas with the rendered page
+   */
+  private async renderPage(page: PDFPageProxy, scale: number, settings: RenderSettings = {}): Promise<Canvas> {
     // Get page viewport
     const viewport = page.getViewport({ scale });
 
@@ -144,16 +553,86 @@ export class PDFConverterService {
     const renderContext = {
       canvasContext: context as any,
       viewport: viewport,
-      canvas: canvas as any,
+      // pdf.js opens an opaque context on `canvas`; without it, our context keeps its alpha channel
+      canvas: settings.background === TRANSPARENT_BACKGROUND ? null : canvas as any,
+      background: settings.background,
     };
 
     await page.render(renderContext).promise;
 
-    // Convert canvas to buffer
-    if (format === 'jpeg') {
-      return canvas.encode('jpeg', quality * 100); // quality is 0-100 for @napi-rs/canvas
-    } else {
-      return canvas.encode('png');
+    // Convert to grayscale or black and white
+    if (settings.colorMode && settings.colorMode !== 'color') {
+      const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+      applyColorMode(imageData.data, imageData.width, imageData.height, settings.colorMode, {
+        threshold: settings.threshold,
+        dither: settings.dither,
+      });
+      context.putImageData(imageData, 0, 0);
+    }
+
+    return canvas;
+  }
+
+  /**
+   * Convert a single PDF page to image buffer
+   * 
+   * @param page - PDF page proxy
+   * @param scale - Rendering scale
+   * @param options - Output format, encoder settings, background and color mode
+   * @returns Image buffer
+   */
+  private async convertPageToImage(
+    page: PDFPageProxy,
+    scale: number,
+    options: ConversionOptions
+  ): Promise<Buffer> {
+    const canvas = await this.renderPage(page, scale, options);
+    const imageBuffer = await this.encodeCanvas(canvas, options.format, options);
+    this.releaseCanvas(canvas);
+
+    return imageBuffer;
+  }
+
+  /**
+   * Free a canvas' pixel buffer without waiting for garbage collection
+   *
+   * Resizing drops the backing bitmap; a zero size would instead reset the
+   * canvas to its default size.
+   *
+   * @param canvas - Canvas that is no longer needed
+   */
+  private releaseCanvas(canvas: Canvas): void {
+    canvas.width = 1;
+    canvas.height = 1;
+  }
+
+  /**
+   * Encode a canvas in the requested image format
+   *
+   * @param canvas - Rendered canvas
+   * @param format - Image format (png, jpeg, webp or avif)
+   * @param options - JPEG, WebP and AVIF quality (0-1) and lossless WebP
+   * @returns Image buffer
+   */
+  private encodeCanvas(
+    canvas: Canvas,
+    format: ImageFormat,
+    options: Pick<ConversionOptions, 'quality' | 'lossless'> = {}
+  ): Promise<Buffer> {
+    const { quality = this.defaultQuality, lossless = false } = options;
+
+    // Convert canvas to buffer (quality is 0-100 for @napi-rs/canvas)
+    switch (format) {
+      case 'jpeg':
+        return canvas.encode('jpeg', quality * 100);
+      case 'webp':
+        // WebP quality 100 selects the lossless encoder
+        return canvas.encode('webp', lossless ? 100 : Math.min(quality * 100, 99));
+      case 'avif':
+        // The AVIF encoder treats higher values as stronger compression
+        return canvas.encode('avif', { quality: Math.round(100 - quality * 100) });
+      default:
+        return canvas.encode('png');
     }
   }
 
@@ -164,7 +643,84 @@ export class PDFConverterService {
    * @returns True if valid format
    */
   static isValidFormat(format: string): format is ImageFormat {
-    return format === 'png' || format === 'jpeg';
+    return (IMAGE_FORMATS as readonly string[]).includes(format);
+  }
+
+  /**
+   * Parse the TIFF compression parameter
+   *
+   * @param value - Raw parameter value
+   * @returns TIFF compression, default lzw-color
+   * @throws Error if the compression is not supported
+   */
+  static parseTiffCompression(value: unknown): TiffCompression {
+    if (value === undefined || value === '') {
+      return 'lzw-color';
+    }
+
+    const compression = String(value).toLowerCase();
+
+    if (!(TIFF_COMPRESSIONS as readonly string[]).includes(compression)) {
+      throw new Error(`Invalid TIFF compression. Supported compressions: ${TIFF_COMPRESSIONS.join(', ')}`);
+    }
+
+    return compression as TiffCompression;
+  }
+
+  /**
+   * Build rendering options from raw request parameters
+   *
+   * @param params - Raw parameter values (strings from the query or form)
+   * @returns Validated page selection and sizing options
+   * @throws Error if a parameter is invalid
+   */
+  static parseRenderOptions(
+    params: Record<string, unknown>
+  ): Omit<ConversionOptions, 'format' | 'scale' | 'password'> {
+    const number = (name: string, min: number, max: number) => parseIntegerParam(params, name, min, max);
+    const boolean = (name: string) => parseBooleanParam(params, name);
+
+    const quality = number('quality', 1, 100);
+    const pages = typeof params.pages === 'string' ? params.pages.trim() || undefined : undefined;
+    const colorMode = params.colorMode === undefined ? undefined : String(params.colorMode).toLowerCase();
+
+    if (colorMode !== undefined && !(COLOR_MODES as readonly string[]).includes(colorMode)) {
+      throw new Error(`Invalid color mode. Supported color modes: ${COLOR_MODES.join(', ')}`);
+    }
+
+    return {
+      pages,
+      dpi: number('dpi', 18, 1200),
+      quality: quality === undefined ? undefined : quality / 100,
+      lossless: boolean('lossless'),
+      maxWidth: number('maxWidth', 16, 10000),
+      maxHeight: number('maxHeight', 16, 10000),
+      colorMode: colorMode as ColorMode | undefined,
+      threshold: number('threshold', 1, 255),
+      dither: boolean('dither'),
+      background: params.background === undefined ? undefined : parseBackground(String(params.background)),
+    };
+  }
+
+  /**
+   * Parse thumbnail and contact sheet parameters
+   *
+   * @param params - Raw parameter values (strings from the query or form)
+   * @returns Page, contact sheet mode and columns
+   * @throws Error if a parameter is invalid or the bounding box is too large
+   */
+  static parseThumbnailOptions(
+    params: Record<string, unknown>
+  ): { page?: number; sheet: boolean; columns?: number } {
+    for (const name of ['maxWidth', 'maxHeight']) {
+      parseIntegerParam(params, name, 16, MAX_THUMBNAIL_SIZE);
+    }
+
+    return {
+      page: parseIntegerParam(params, 'page', 1, 100000),
+      sheet: parseBooleanParam(params, 'sheet'),
+      columns: parseIntegerParam(params, 'columns', 1, 20),
+    };
   }
 
   /**
@@ -204,11 +760,13 @@ export class PDFConverterService {
    * 
    * @param page - PDF page proxy
    * @param pageNum - Page number for filename generation
+   * @param onWarning - Called for each image that cannot be extracted
    * @returns Array of extracted images with buffers
    */
   private async extractImagesFromPage(
     page: PDFPageProxy,
-    pageNum: number
+    pageNum: number,
+    onWarning?: WarningListener
   ): Promise<ExtractedImage[]> {
     try {
       const operatorList = await page.getOperatorList();
@@ -247,6 +805,11 @@ export class PDFConverterService {
           } catch (imgError) {
             // Skip individual image errors but continue processing
             console.error(`Failed to extract image ${imageIndex} from page ${pageNum}:`, imgError);
+            onWarning?.({
+              stage: 'extract',
+              page: pageNum,
+              message: `Skipped image ${imageIndex} on page ${pageNum}: ${imgError instanceof Error ? imgError.message : 'Unknown error'}`,
+            });
           }
         }
       }
@@ -306,6 +869,7 @@ export class PDFConverterService {
 
       // Encode to PNG
       const buffer = await canvas.encode('png');
+      this.releaseCanvas(canvas);
       return { buffer, format: 'png' };
     } catch (error) {
       throw new Error(
@@ -318,14 +882,43 @@ export class PDFConverterService {
    * Extract all content (text and images) from PDF
    * 
    * @param pdfBuffer - PDF file buffer
+   * @param options - Extraction options
    * @returns Array of extracted page content
    */
-  async extractPdfContent(pdfBuffer: Buffer): Promise<ExtractedPageContent[]> {
+  async extractPdfContent(
+    pdfBuffer: Buffer,
+    options: ExtractionOptions = {}
+  ): Promise<ExtractedPageContent[]> {
+    const extractedContent: ExtractedPageContent[] = [];
+
+    for await (const pageContent of this.streamPdfContent(pdfBuffer, options)) {
+      extractedContent.push(pageContent);
+    }
+
+    return extractedContent;
+  }
+
+  /**
+   * Extract content (text and images) from PDF one page at a time
+   *
+   * Page resources are released as soon as a page is extracted, and the
+   * document is destroyed when iteration finishes, fails or is stopped early.
+   *
+   * @param pdfBuffer - PDF file buffer
+   * @param options - Extraction options
+   * @returns Async generator of extracted page content
+   */
+  async *streamPdfContent(
+    pdfBuffer: Buffer,
+    options: ExtractionOptions = {}
+  ): AsyncGenerator<ExtractedPageContent, void, undefined> {
+    let pdfDoc: PDFDocumentProxy | undefined;
+
     try {
       // Load PDF document
-      const pdfDoc = await this.loadPdfDocument(pdfBuffer);
+      pdfDoc = await this.loadPdfDocument(pdfBuffer, options.password);
       const numPages = pdfDoc.numPages;
-      const extractedContent: ExtractedPageContent[] = [];
+      options.onProgress?.({ stage: 'extract', done: 0, total: numPages });
 
       // Process each page
       for (let pageNum = 1; pageNum <= numPages; pageNum++) {
@@ -334,21 +927,26 @@ export class PDFConverterService {
         // Extract text and images in parallel
         const [textContent, images] = await Promise.all([
           this.extractTextFromPage(page),
-          this.extractImagesFromPage(page, pageNum),
+          options.includeImages === false ? [] : this.extractImagesFromPage(page, pageNum, options.onWarning),
         ]);
+        page.cleanup();
+        options.onProgress?.({ stage: 'extract', done: pageNum, total: numPages });
 
-        extractedContent.push({
+        yield {
           pageNumber: pageNum,
           textContent,
           images,
-        });
+        };
       }
-
-      return extractedContent;
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new Error(
         `PDF content extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+    } finally {
+      await pdfDoc?.destroy();
     }
   }
 }
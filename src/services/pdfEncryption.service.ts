@@ -0,0 +1,579 @@
+/**
+ * PDF Encryption Service
+ *
+ * Encrypts and decrypts PDF documents with the standard security handler.
+ * pdf-lib cannot write encryption, so every indirect object (strings and
+ * stream contents) is encrypted in place before the document is serialized.
+ *
+ * Supported algorithms:
+ * - aes-256: AES-256, revision 6 (PDF 2.0, Acrobat X and later)
+ * - aes-128: AES-128, revision 4 (Acrobat 7 and later)
+ * - rc4-128: RC4 128-bit, revision 3 (legacy readers)
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  PDFDocument,
+  PDFDict,
+  PDFArray,
+  PDFName,
+  PDFNumber,
+  PDFBool,
+  PDFRef,
+  PDFString,
+  PDFHexString,
+  PDFObject,
+  PDFStream,
+  PDFRawStream,
+  PDFInvalidObject,
+  PDFContext,
+  PDFHeader,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+} from 'pdf-lib';
+import { AppError } from '../middleware/errorHandler';
+import { PdfPasswordError } from './pdfConverter.service';
+import {
+  LegacyHandlerParams,
+  ObjectCipher,
+  PdfPermission,
+  PERMISSION_BITS,
+  authenticateAes,
+  authenticateLegacyOwner,
+  authenticateLegacyUser,
+  buildPermissions,
+  computeAesHandlerValues,
+  computeLegacyFileKey,
+  computeLegacyOwnerValue,
+  computeLegacyUserValue,
+  computeObjectKey,
+  decryptData,
+  encodeAesPassword,
+  encryptData,
+} from '../utils/pdfCrypto';
+
+/**
+ * Supported encryption algorithms
+ */
+export type EncryptionAlgorithm = 'aes-256' | 'aes-128' | 'rc4-128';
+
+export const ENCRYPTION_ALGORITHMS: EncryptionAlgorithm[] = ['aes-256', 'aes-128', 'rc4-128'];
+
+export const PDF_PERMISSIONS = Object.keys(PERMISSION_BITS) as PdfPermission[];
+
+/**
+ * Options for encrypting a PDF
+ */
+export interface ProtectOptions {
+  userPassword: string;             // Required to open the document ('' opens without a password)
+  ownerPassword?: string;           // Grants full access; random when omitted
+  algorithm?: EncryptionAlgorithm;  // Default: aes-256
+  permissions?: PdfPermission[];    // Allowed with the user password; default: all
+}
+
+/**
+ * Resolved security handler used to encrypt or decrypt objects
+ */
+interface SecurityHandler {
+  fileKey: Buffer;
+  stringCipher: ObjectCipher;
+  streamCipher: ObjectCipher;
+  encryptMetadata: boolean;
+}
+
+/**
+ * PDF Encryption Service Class
+ */
+export class PdfEncryptionService {
+  /**
+   * Encrypt a PDF document with user/owner passwords and permissions
+   *
+   * @param pdfBuffer - Unencrypted PDF file buffer
+   * @param options - Encryption options
+   * @returns Encrypted PDF document buffer
+   */
+  async protectPdf(pdfBuffer: Buffer, options: ProtectOptions): Promise<Buffer> {
+    const algorithm = options.algorithm || 'aes-256';
+    const permissions = buildPermissions(options.permissions ?? PDF_PERMISSIONS);
+    const ownerPassword = options.ownerPassword || randomBytes(24).toString('base64');
+
+    try {
+      const pdfDoc = await PDFDocument.load(pdfBuffer);
+      const context = pdfDoc.context;
+
+      // Write pending fonts, images and pages so that every object gets encrypted
+      await pdfDoc.flush();
+
+      const documentId = this.ensureDocumentId(context);
+      const { handler, encryptDict } = algorithm === 'aes-256'
+        ? this.createAesHandler(context, options.userPassword, ownerPassword, permissions)
+        : this.createLegacyHandler(context, algorithm, options.userPassword, ownerPassword, permissions, documentId);
+
+      for (const [ref, object] of context.enumerateIndirectObjects()) {
+        this.transformObject(context, ref, object, handler, encryptData);
+      }
+
+      context.trailerInfo.Encrypt = context.register(encryptDict);
+      this.ensureMinimumVersion(context, algorithm === 'rc4-128' ? 4 : algorithm === 'aes-128' ? 6 : 7);
+
+      const pdfBytes = await pdfDoc.save({
+        useObjectStreams: false,
+        addDefaultPage: false,
+        updateFieldAppearances: false,
+      });
+      return Buffer.from(pdfBytes);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(
+        `PDF encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Remove encryption from a PDF document
+   *
+   * Either the user or the owner password is accepted. Documents without an
+   * open password can be unlocked with an empty password.
+   *
+   * @param pdfBuffer - Encrypted PDF file buffer
+   * @param password - User or owner password
+   * @returns Decrypted PDF document buffer
+   * @throws PdfPasswordError if the password is missing or incorrect
+   */
+  async unlockPdf(pdfBuffer: Buffer, password: string = ''): Promise<Buffer> {
+    try {
+      const pdfDoc = await PDFDocument.load(pdfBuffer, {
+        ignoreEncryption: true,
+        updateMetadata: false,
+      });
+      const context = pdfDoc.context;
+
+      const encryptRef = context.trailerInfo.Encrypt;
+      const encryptDict = encryptRef ? context.lookup(encryptRef) : undefined;
+
+      if (!(encryptDict instanceof PDFDict)) {
+        throw new AppError(400, 'PDF is not encrypted');
+      }
+
+      const handler = this.authenticate(context, encryptDict, password);
+
+      if (!handler) {
+        throw new PdfPasswordError(password === '' ? 'PASSWORD_REQUIRED' : 'INCORRECT_PASSWORD');
+      }
+
+      // Snapshot first: decrypted object streams add their objects to the context
+      const objects = context.enumerateIndirectObjects();
+
+      for (const [ref, object] of objects) {
+        if (object === encryptDict) {
+          continue;
+        }
+
+        if (object instanceof PDFInvalidObject) {
+          await this.recoverEncryptedStream(context, ref, object, handler);
+        } else {
+          this.transformObject(context, ref, object, handler, decryptData);
+        }
+      }
+
+      if (encryptRef instanceof PDFRef) {
+        context.delete(encryptRef);
+      }
+      context.trailerInfo.Encrypt = undefined;
+
+      const pdfBytes = await pdfDoc.save({ addDefaultPage: false, updateFieldAppearances: false });
+      return Buffer.from(pdfBytes);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(
+        `PDF decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Encrypt or decrypt the strings and stream contents of one indirect object
+   */
+  private transformObject(
+    context: PDFContext,
+    ref: PDFRef,
+    object: PDFObject,
+    handler: SecurityHandler,
+    transform: typeof encryptData
+  ): void {
+    const keyFor = (cipher: ObjectCipher): Buffer => cipher === 'aes-256'
+      ? handler.fileKey
+      : computeObjectKey(handler.fileKey, ref.objectNumber, ref.generationNumber, cipher === 'aes-128');
+
+    const stringKey = keyFor(handler.stringCipher);
+    const transformString = (data: Buffer) => transform(handler.stringCipher, stringKey, data);
+
+    if (object instanceof PDFStream) {
+      this.transformStrings(object.dict, transformString);
+
+      const type = object.dict.lookup(PDFName.of('Type'));
+      if (type === PDFName.of('XRef') || (type === PDFName.of('Metadata') && !handler.encryptMetadata)) {
+        return;
+      }
+
+      const contents = Buffer.from(object instanceof PDFRawStream ? object.contents : object.getContents());
+      const transformed = transform(handler.streamCipher, keyFor(handler.streamCipher), contents);
+      context.assign(ref, PDFRawStream.of(object.dict, transformed));
+      return;
+    }
+
+    const transformed = this.transformStrings(object, transformString);
+    if (transformed !== object) {
+      context.assign(ref, transformed);
+    }
+  }
+
+  /**
+   * Recursively replace strings inside dictionaries and arrays (references are not followed)
+   */
+  private transformStrings(object: PDFObject, transform: (data: Buffer) => Buffer): PDFObject {
+    if (object instanceof PDFString || object instanceof PDFHexString) {
+      return PDFHexString.of(transform(Buffer.from(object.asBytes())).toString('hex'));
+    }
+
+    if (object instanceof PDFDict) {
+      for (const [key, value] of object.entries()) {
+        object.set(key, this.transformStrings(value, transform));
+      }
+    } else if (object instanceof PDFArray) {
+      for (let i = 0; i < object.size(); i++) {
+        object.set(i, this.transformStrings(object.get(i), transform));
+      }
+    }
+
+    return object;
+  }
+
+  /**
+   * Decrypt a stream pdf-lib could not parse while it was encrypted
+   *
+   * pdf-lib expands object streams while parsing; encrypted ones fail to
+   * decode and are kept as invalid objects, so they are re-parsed here after
+   * decryption and expanded into the context.
+   */
+  private async recoverEncryptedStream(
+    context: PDFContext,
+    ref: PDFRef,
+    object: PDFInvalidObject,
+    handler: SecurityHandler
+  ): Promise<void> {
+    const bytes = new Uint8Array(object.sizeInBytes());
+    object.copyBytesInto(bytes, 0);
+
+    let parsed: PDFObject;
+    try {
+      parsed = PDFObjectParser.forBytes(bytes, context).parseObject();
+    } catch {
+      return; // Genuinely invalid object; keep it as-is
+    }
+
+    if (!(parsed instanceof PDFRawStream)) {
+      return;
+    }
+
+    this.transformObject(context, ref, parsed, handler, decryptData);
+    const decrypted = context.lookup(ref);
+
+    if (
+      decrypted instanceof PDFRawStream &&
+      decrypted.dict.lookup(PDFName.of('Type')) === PDFName.of('ObjStm')
+    ) {
+      context.delete(ref);
+      await PDFObjectStreamParser.forStream(decrypted).parseIntoContext();
+    }
+  }
+
+  /**
+   * Authenticate a password against an encryption dictionary
+   *
+   * @returns Security handler, or null if the password is incorrect
+   */
+  private authenticate(context: PDFContext, encryptDict: PDFDict, password: string): SecurityHandler | null {
+    const filter = encryptDict.lookup(PDFName.of('Filter'));
+    if (filter !== PDFName.of('Standard')) {
+      throw new AppError(400, 'Unsupported PDF security handler. Only password-based encryption can be removed.');
+    }
+
+    const version = this.numberEntry(encryptDict, 'V', 0);
+    const revision = this.numberEntry(encryptDict, 'R', 2);
+    const encryptMetadata = encryptDict.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+    const ownerValue = this.bytesEntry(encryptDict, 'O');
+    const userValue = this.bytesEntry(encryptDict, 'U');
+
+    if (version >= 5) {
+      const fileKey = authenticateAes(encodeAesPassword(password), revision, {
+        ownerValue,
+        userValue,
+        ownerKey: this.bytesEntry(encryptDict, 'OE'),
+        userKey: this.bytesEntry(encryptDict, 'UE'),
+      });
+
+      return fileKey && {
+        fileKey,
+        stringCipher: this.cryptFilterCipher(encryptDict, 'StrF'),
+        streamCipher: this.cryptFilterCipher(encryptDict, 'StmF'),
+        encryptMetadata,
+      };
+    }
+
+    const idArray = context.lookup(context.trailerInfo.ID);
+    const firstId = idArray instanceof PDFArray ? idArray.lookup(0) : undefined;
+    const keyLengthBits = version === 4
+      ? this.cryptFilterLength(encryptDict) * 8
+      : version >= 2 ? this.numberEntry(encryptDict, 'Length', 40) : 40;
+
+    const params: LegacyHandlerParams = {
+      revision,
+      keyLength: Math.min(Math.max(Math.floor(keyLengthBits / 8), 5), 16),
+      ownerValue,
+      userValue,
+      permissions: this.numberEntry(encryptDict, 'P', 0) | 0,
+      documentId: firstId instanceof PDFString || firstId instanceof PDFHexString
+        ? Buffer.from(firstId.asBytes())
+        : Buffer.alloc(0),
+      encryptMetadata,
+    };
+
+    const passwordBytes = Buffer.from(password, 'latin1');
+    const fileKey = authenticateLegacyUser(passwordBytes, params) || authenticateLegacyOwner(passwordBytes, params);
+
+    if (!fileKey) {
+      return null;
+    }
+
+    return {
+      fileKey,
+      stringCipher: version === 4 ? this.cryptFilterCipher(encryptDict, 'StrF') : 'rc4',
+      streamCipher: version === 4 ? this.cryptFilterCipher(encryptDict, 'StmF') : 'rc4',
+      encryptMetadata,
+    };
+  }
+
+  /**
+   * Resolve the cipher of the crypt filter named by StmF or StrF
+   */
+  private cryptFilterCipher(encryptDict: PDFDict, entry: 'StmF' | 'StrF'): ObjectCipher {
+    const name = encryptDict.lookup(PDFName.of(entry));
+    if (!(name instanceof PDFName) || name === PDFName.of('Identity')) {
+      return 'identity';
+    }
+
+    const filter = encryptDict.lookupMaybe(PDFName.of('CF'), PDFDict)?.lookupMaybe(name, PDFDict);
+    const method = filter?.lookup(PDFName.of('CFM'));
+
+    if (method === PDFName.of('AESV3')) return 'aes-256';
+    if (method === PDFName.of('AESV2')) return 'aes-128';
+    if (method === PDFName.of('V2')) return 'rc4';
+    return 'identity';
+  }
+
+  /**
+   * Key length in bytes of the standard crypt filter (revision 4)
+   */
+  private cryptFilterLength(encryptDict: PDFDict): number {
+    const name = encryptDict.lookup(PDFName.of('StmF'));
+    const filter = name instanceof PDFName
+      ? encryptDict.lookupMaybe(PDFName.of('CF'), PDFDict)?.lookupMaybe(name, PDFDict)
+      : undefined;
+    const length = filter ? this.numberEntry(filter, 'Length', 16) : 16;
+
+    // Some writers store the length in bits
+    return length > 32 ? length / 8 : length;
+  }
+
+  private numberEntry(dict: PDFDict, key: string, fallback: number): number {
+    const value = dict.lookup(PDFName.of(key));
+    return value instanceof PDFNumber ? value.asNumber() : fallback;
+  }
+
+  private bytesEntry(dict: PDFDict, key: string): Buffer {
+    const value = dict.lookup(PDFName.of(key));
+    return value instanceof PDFString || value instanceof PDFHexString
+      ? Buffer.from(value.asBytes())
+      : Buffer.alloc(0);
+  }
+
+  private hexString(value: Buffer): PDFHexString {
+    return PDFHexString.of(value.toString('hex'));
+  }
+
+  /**
+   * Make sure the trailer has a file identifier (required by revisions 2-4)
+   *
+   * @returns First element of the identifier
+   */
+  private ensureDocumentId(context: PDFContext): Buffer {
+    const existing = context.lookup(context.trailerInfo.ID);
+    const first = existing instanceof PDFArray ? existing.lookup(0) : undefined;
+
+    if (first instanceof PDFString || first instanceof PDFHexString) {
+      return Buffer.from(first.asBytes());
+    }
+
+    const id = randomBytes(16);
+    context.trailerInfo.ID = context.obj([this.hexString(id), this.hexString(id)]);
+    return id;
+  }
+
+  /**
+   * Raise the header version if the algorithm requires a newer PDF version
+   */
+  private ensureMinimumVersion(context: PDFContext, minor: number): void {
+    const match = context.header.toString().match(/%PDF-(\d+)\.(\d+)/);
+    const [major, current] = match ? [Number(match[1]), Number(match[2])] : [1, 0];
+
+    if (major === 1 && current < minor) {
+      context.header = PDFHeader.forVersion(1, minor);
+    }
+  }
+
+  /**
+   * Create an RC4-128 (revision 3) or AES-128 (revision 4) security handler
+   */
+  private createLegacyHandler(
+    context: PDFContext,
+    algorithm: 'aes-128' | 'rc4-128',
+    userPassword: string,
+    ownerPassword: string,
+    permissions: number,
+    documentId: Buffer
+  ): { handler: SecurityHandler; encryptDict: PDFDict } {
+    const revision = algorithm === 'aes-128' ? 4 : 3;
+    const keyLength = 16;
+    const userBytes = Buffer.from(userPassword, 'latin1');
+    const ownerValue = computeLegacyOwnerValue(Buffer.from(ownerPassword, 'latin1'), userBytes, revision, keyLength);
+
+    const params: LegacyHandlerParams = {
+      revision,
+      keyLength,
+      ownerValue,
+      userValue: Buffer.alloc(32),
+      permissions,
+      documentId,
+      encryptMetadata: true,
+    };
+    const fileKey = computeLegacyFileKey(userBytes, params);
+    const userValue = computeLegacyUserValue(fileKey, params);
+
+    const encryptDict = context.obj({
+      Filter: 'Standard',
+      V: revision === 4 ? 4 : 2,
+      R: revision,
+      Length: 128,
+      P: permissions,
+    });
+    encryptDict.set(PDFName.of('O'), this.hexString(ownerValue));
+    encryptDict.set(PDFName.of('U'), this.hexString(userValue));
+
+    if (algorithm === 'aes-128') {
+      encryptDict.set(PDFName.of('CF'), context.obj({
+        StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV2', Length: 16 },
+      }));
+      encryptDict.set(PDFName.of('StmF'), PDFName.of('StdCF'));
+      encryptDict.set(PDFName.of('StrF'), PDFName.of('StdCF'));
+      encryptDict.set(PDFName.of('EncryptMetadata'), PDFBool.True);
+    }
+
+    const cipher: ObjectCipher = algorithm === 'aes-128' ? 'aes-128' : 'rc4';
+    return {
+      handler: { fileKey, stringCipher: cipher, streamCipher: cipher, encryptMetadata: true },
+      encryptDict,
+    };
+  }
+
+  /**
+   * Create an AES-256 (revision 6) security handler
+   */
+  private createAesHandler(
+    context: PDFContext,
+    userPassword: string,
+    ownerPassword: string,
+    permissions: number
+  ): { handler: SecurityHandler; encryptDict: PDFDict } {
+    const fileKey = randomBytes(32);
+    const values = computeAesHandlerValues(
+      fileKey,
+      encodeAesPassword(userPassword),
+      encodeAesPassword(ownerPassword),
+      permissions,
+      true
+    );
+
+    const encryptDict = context.obj({
+      Filter: 'Standard',
+      V: 5,
+      R: 6,
+      Length: 256,
+      P: permissions,
+      CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV3', Length: 32 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+    });
+    encryptDict.set(PDFName.of('O'), this.hexString(values.ownerValue));
+    encryptDict.set(PDFName.of('U'), this.hexString(values.userValue));
+    encryptDict.set(PDFName.of('OE'), this.hexString(values.ownerKey));
+    encryptDict.set(PDFName.of('UE'), this.hexString(values.userKey));
+    encryptDict.set(PDFName.of('Perms'), this.hexString(values.perms));
+    encryptDict.set(PDFName.of('EncryptMetadata'), PDFBool.True);
+
+    return {
+      handler: { fileKey, stringCipher: 'aes-256', streamCipher: 'aes-256', encryptMetadata: true },
+      encryptDict,
+    };
+  }
+
+  /**
+   * Build protect options from raw request parameters
+   *
+   * @param params - Raw parameter values (strings from the form)
+   * @returns Validated protect options
+   * @throws Error if the parameters are missing or invalid
+   */
+  static parseProtectOptions(params: Record<string, string | undefined>): ProtectOptions {
+    const userPassword = params.userPassword ?? '';
+    const ownerPassword = params.ownerPassword || undefined;
+
+    if (userPassword === '' && !ownerPassword) {
+      throw new Error('Provide a "userPassword" (required to open the PDF) and/or an "ownerPassword" (required to change permissions)');
+    }
+
+    const algorithm = (params.algorithm?.trim().toLowerCase() || 'aes-256') as EncryptionAlgorithm;
+    if (!ENCRYPTION_ALGORITHMS.includes(algorithm)) {
+      throw new Error(`Invalid algorithm. Supported algorithms: ${ENCRYPTION_ALGORITHMS.join(', ')}`);
+    }
+
+    // RC4 and AES-128 handlers only support Latin-1 passwords
+    if (algorithm !== 'aes-256' && /[^\u0000-ÿ]/.test(userPassword + (ownerPassword || ''))) {
+      throw new Error(`Passwords for ${algorithm} may only contain Latin-1 characters. Use aes-256 instead.`);
+    }
+
+    let permissions: PdfPermission[] | undefined;
+    const rawPermissions = params.permissions?.trim();
+
+    if (rawPermissions !== undefined) {
+      permissions = rawPermissions === '' || rawPermissions.toLowerCase() === 'none'
+        ? []
+        : rawPermissions.split(',').map(permission => permission.trim()) as PdfPermission[];
+
+      const invalid = permissions.filter(permission => !PDF_PERMISSIONS.includes(permission));
+      if (invalid.length > 0) {
+        throw new Error(`Invalid permission(s): ${invalid.join(', ')}. Supported permissions: ${PDF_PERMISSIONS.join(', ')}`);
+      }
+    }
+
+    return { userPassword, ownerPassword, algorithm, permissions };
+  }
+}
+
+// Export singleton instance
+export const pdfEncryptionService = new PdfEncryptionService();
@@ -0,0 +1,392 @@
+/**
+ * PDF Forms Service
+ *
+ * Lists and fills AcroForm fields using pdf-lib. Supported field types are
+ * text fields, checkboxes, radio groups, dropdowns and option lists.
+ */
+
+import {
+  PDFDocument,
+  PDFField,
+  PDFTextField,
+  PDFCheckBox,
+  PDFRadioGroup,
+  PDFDropdown,
+  PDFOptionList,
+  PDFButton,
+  PDFSignature,
+  PDFFont,
+  PDFRef,
+  PDFName,
+  PDFArray,
+  StandardFonts,
+} from 'pdf-lib';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Form field types
+ */
+export type FormFieldType = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'optionList' | 'button' | 'signature' | 'unknown';
+
+/**
+ * Widget (visible box) of a form field
+ */
+export interface FormFieldWidget {
+  page: number | null;  // 1-based page number, null if the widget is not on a page
+  rect: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Form field description
+ */
+export interface FormFieldInfo {
+  name: string;
+  type: FormFieldType;
+  value: string | boolean | string[] | null;
+  options?: string[];       // Radio groups, dropdowns and option lists
+  required: boolean;
+  readOnly: boolean;
+  multiline?: boolean;      // Text fields
+  maxLength?: number;       // Text fields
+  multiSelect?: boolean;    // Dropdowns and option lists
+  editable?: boolean;       // Dropdowns accepting values outside their options
+  widgets: FormFieldWidget[];
+}
+
+/**
+ * Value for a single field: text, checkbox state, or option(s)
+ */
+export type FormFieldValue = string | number | boolean | string[] | null;
+
+/**
+ * Options for filling a form
+ */
+export interface FillOptions {
+  flatten?: boolean; // Merge field appearances into the page content and remove the form
+}
+
+/**
+ * Validation error for a single field value
+ */
+export interface FieldValueError {
+  field: string;
+  value: unknown;
+  error: string;
+}
+
+/**
+ * Error thrown when one or more form values are invalid
+ */
+export class FormValueError extends AppError {
+  constructor(public readonly errors: FieldValueError[]) {
+    super(400, 'One or more form values are invalid', true, errors);
+    this.name = 'FormValueError';
+  }
+}
+
+/**
+ * PDF Forms Service Class
+ */
+export class PdfFormsService {
+  /**
+   * List the AcroForm fields of a PDF document
+   *
+   * @param pdfBuffer - PDF file buffer
+   * @returns Form fields in document order (empty if the PDF has no form)
+   */
+  async listFields(pdfBuffer: Buffer): Promise<FormFieldInfo[]> {
+    try {
+      const pdfDoc = await PDFDocument.load(pdfBuffer);
+      const pageNumbers = this.getPageNumbers(pdfDoc);
+
+      return pdfDoc.getForm().getFields().map(field => this.describeField(pdfDoc, field, pageNumbers));
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(
+        `Form field listing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Fill AcroForm fields
+   *
+   * All values are validated before the document is returned; any unknown
+   * field or invalid value fails the whole request.
+   *
+   * @param pdfBuffer - PDF file buffer
+   * @param values - Map of field name to value
+   * @param options - Fill options
+   * @returns Filled PDF document buffer
+   * @throws FormValueError if a field is unknown or a value is invalid
+   */
+  async fillForm(
+    pdfBuffer: Buffer,
+    values: Record<string, FormFieldValue>,
+    options: FillOptions = {}
+  ): Promise<Buffer> {
+    try {
+      const pdfDoc = await PDFDocument.load(pdfBuffer);
+      const form = pdfDoc.getForm();
+      const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+      const fields = new Map(form.getFields().map(field => [field.getName(), field]));
+      const errors: FieldValueError[] = [];
+
+      for (const [name, value] of Object.entries(values)) {
+        const field = fields.get(name);
+
+        if (!field) {
+          errors.push({ field: name, value, error: 'Unknown field' });
+          continue;
+        }
+
+        const error = this.fillField(field, value, font);
+        if (error) {
+          errors.push({ field: name, value, error });
+        }
+      }
+
+      if (errors.length > 0) {
+        throw new FormValueError(errors);
+      }
+
+      // Regenerate appearances so that viewers without form support show the values
+      form.updateFieldAppearances(font);
+
+      if (options.flatten) {
+        form.flatten({ updateFieldAppearances: false });
+      }
+
+      const pdfBytes = await pdfDoc.save({ updateFieldAppearances: false });
+      return Buffer.from(pdfBytes);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(
+        `Form filling failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Set the value of a single field
+   *
+   * @returns Error message, or undefined if the value was applied
+   */
+  private fillField(field: PDFField, value: FormFieldValue, font: PDFFont): string | undefined {
+    if (field instanceof PDFTextField) {
+      if (value === null || value === '') {
+        field.setText(undefined);
+        return undefined;
+      }
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        return 'Text field value must be a string';
+      }
+
+      const text = String(value);
+      const maxLength = field.getMaxLength();
+
+      if (maxLength !== undefined && text.length > maxLength) {
+        return `Text is longer than the maximum of ${maxLength} characters`;
+      }
+      if (!this.canEncode(font, text)) {
+        return 'Text contains characters that are not supported by the standard PDF fonts';
+      }
+
+      field.setText(text);
+      return undefined;
+    }
+
+    if (field instanceof PDFCheckBox) {
+      const checked = value === true || value === 'true' ? true : value === false || value === 'false' || value === null ? false : undefined;
+      if (checked === undefined) {
+        return 'Checkbox value must be true or false';
+      }
+
+      if (checked) {
+        field.check();
+      } else {
+        field.uncheck();
+      }
+      return undefined;
+    }
+
+    if (field instanceof PDFRadioGroup) {
+      if (value === null || value === '') {
+        field.clear();
+        return undefined;
+      }
+
+      const options = field.getOptions();
+      if (typeof value !== 'string' || !options.includes(value)) {
+        return `Invalid option. Valid options: ${options.join(', ')}`;
+      }
+
+      field.select(value);
+      return undefined;
+    }
+
+    if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+      if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+        field.clear();
+        return undefined;
+      }
+
+      const selected = Array.isArray(value) ? value : [value];
+      const options = field.getOptions();
+      const multiSelect = field.isMultiselect();
+      const editable = field instanceof PDFDropdown && field.isEditable();
+
+      if (selected.some(option => typeof option !== 'string')) {
+        return 'Option values must be strings';
+      }
+      if (selected.length > 1 && !multiSelect) {
+        return 'Only one option can be selected';
+      }
+
+      const invalid = (selected as string[]).filter(option => !options.includes(option));
+      if (invalid.length > 0 && !editable) {
+        return `Invalid option(s): ${invalid.join(', ')}. Valid options: ${options.join(', ')}`;
+      }
+      if (!this.canEncode(font, selected.join(''))) {
+        return 'Value contains characters that are not supported by the standard PDF fonts';
+      }
+
+      field.select(selected as string[]);
+      return undefined;
+    }
+
+    return `Fields of type "${this.fieldType(field)}" cannot be filled`;
+  }
+
+  /**
+   * Check that text can be drawn with the appearance font
+   */
+  private canEncode(font: PDFFont, text: string): boolean {
+    try {
+      font.encodeText(text);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Describe a single field
+   */
+  private describeField(pdfDoc: PDFDocument, field: PDFField, pageNumbers: Map<PDFRef, number>): FormFieldInfo {
+    const info: FormFieldInfo = {
+      name: field.getName(),
+      type: this.fieldType(field),
+      value: null,
+      required: field.isRequired(),
+      readOnly: field.isReadOnly(),
+      widgets: field.acroField.getWidgets().map(widget => {
+        const { x, y, width, height } = widget.getRectangle();
+        return {
+          page: this.findWidgetPage(pdfDoc, widget.P(), pdfDoc.context.getObjectRef(widget.dict), pageNumbers),
+          rect: { x, y, width, height },
+        };
+      }),
+    };
+
+    if (field instanceof PDFTextField) {
+      info.value = field.getText() ?? null;
+      info.multiline = field.isMultiline();
+      info.maxLength = field.getMaxLength();
+    } else if (field instanceof PDFCheckBox) {
+      info.value = field.isChecked();
+    } else if (field instanceof PDFRadioGroup) {
+      info.value = field.getSelected() ?? null;
+      info.options = field.getOptions();
+    } else if (field instanceof PDFDropdown) {
+      const selected = field.getSelected();
+      info.value = field.isMultiselect() ? selected : selected[0] ?? null;
+      info.options = field.getOptions();
+      info.multiSelect = field.isMultiselect();
+      info.editable = field.isEditable();
+    } else if (field instanceof PDFOptionList) {
+      info.value = field.getSelected();
+      info.options = field.getOptions();
+      info.multiSelect = field.isMultiselect();
+    }
+
+    return info;
+  }
+
+  /**
+   * Map a pdf-lib field to its type name
+   */
+  private fieldType(field: PDFField): FormFieldType {
+    if (field instanceof PDFTextField) return 'text';
+    if (field instanceof PDFCheckBox) return 'checkbox';
+    if (field instanceof PDFRadioGroup) return 'radio';
+    if (field instanceof PDFDropdown) return 'dropdown';
+    if (field instanceof PDFOptionList) return 'optionList';
+    if (field instanceof PDFButton) return 'button';
+    if (field instanceof PDFSignature) return 'signature';
+    return 'unknown';
+  }
+
+  /**
+   * Map page references to 1-based page numbers
+   */
+  private getPageNumbers(pdfDoc: PDFDocument): Map<PDFRef, number> {
+    return new Map(pdfDoc.getPages().map((page, index) => [page.ref, index + 1]));
+  }
+
+  /**
+   * Find the page a widget is on, from its /P entry or the page annotations
+   */
+  private findWidgetPage(
+    pdfDoc: PDFDocument,
+    pageRef: PDFRef | undefined,
+    widgetRef: PDFRef | undefined,
+    pageNumbers: Map<PDFRef, number>
+  ): number | null {
+    if (pageRef && pageNumbers.has(pageRef)) {
+      return pageNumbers.get(pageRef)!;
+    }
+
+    if (widgetRef) {
+      const pages = pdfDoc.getPages();
+      for (let index = 0; index < pages.length; index++) {
+        const annots = pages[index].node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+        if (annots?.asArray().includes(widgetRef)) {
+          return index + 1;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse the JSON map of field values
+   *
+   * @param raw - JSON object string, e.g. '{"name":"Jane","agree":true}'
+   * @returns Field values
+   * @throws AppError if the JSON is malformed or not an object
+   */
+  static parseValues(raw: string): Record<string, FormFieldValue> {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new AppError(400, 'Values must be a valid JSON object, e.g. {"name":"Jane Doe","agree":true}');
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed) || Object.keys(parsed).length === 0) {
+      throw new AppError(400, 'Values must be a non-empty JSON object mapping field names to values');
+    }
+
+    return parsed as Record<string, FormFieldValue>;
+  }
+}
+
+// Export singleton instance
+export const pdfFormsService = new PdfFormsService();
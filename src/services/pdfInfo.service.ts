@@ -0,0 +1,294 @@
+/**
+ * PDF Info Service
+ *
+ * Inspects a PDF document without rendering it: pages, document
+ * information, XMP metadata, encryption, forms, attachments, outlines,
+ * JavaScript and fonts. Uses the same pdf.js loading path as conversion.
+ */
+
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { OPS, PDFDateString } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { AppError } from '../middleware/errorHandler';
+import { pdfConverterService } from './pdfConverter.service';
+import { PERMISSION_BITS, PdfPermission } from '../utils/pdfCrypto';
+
+/**
+ * Size and rotation of a single page
+ */
+export interface PdfPageInfo {
+  pageNumber: number;
+  width: number;        // Points, before rotation
+  height: number;       // Points, before rotation
+  rotation: number;     // 0, 90, 180 or 270
+}
+
+/**
+ * Font used by the document
+ */
+export interface PdfFontInfo {
+  name: string;         // Font name without the subset prefix
+  embedded: boolean;
+  subset: boolean;      // Name carries a subset prefix (e.g. "ABCDEF+")
+  type3: boolean;
+  pages: number[];      // Pages the font is used on
+}
+
+/**
+ * Embedded file attachment
+ */
+export interface PdfAttachmentInfo {
+  filename: string;
+  size: number;
+  description: string | null;
+}
+
+/**
+ * Document information dictionary entries
+ */
+export interface PdfDocumentMetadata {
+  title: string | null;
+  author: string | null;
+  subject: string | null;
+  keywords: string | null;
+  creator: string | null;
+  producer: string | null;
+  creationDate: string | null;      // ISO 8601 when parseable
+  modificationDate: string | null;  // ISO 8601 when parseable
+  custom: Record<string, string>;
+}
+
+/**
+ * Full inspection result
+ */
+export interface PdfInfo {
+  pageCount: number;
+  version: string | null;
+  linearized: boolean;
+  language: string | null;
+  metadata: PdfDocumentMetadata;
+  xmp: { raw: string; properties: Record<string, unknown> } | null;
+  encryption: { encrypted: boolean; filter: string | null; permissions: PdfPermission[] | null };
+  forms: { acroForm: boolean; xfa: boolean; fieldCount: number; signatures: boolean };
+  attachments: PdfAttachmentInfo[];
+  outline: { present: boolean; itemCount: number };
+  javascript: boolean;
+  fonts: PdfFontInfo[];
+  pages: PdfPageInfo[];
+}
+
+/**
+ * Options for PDF inspection
+ */
+export interface InfoOptions {
+  password?: string; // Password for encrypted PDFs
+}
+
+/**
+ * Subset fonts are named with six uppercase letters and a plus sign
+ */
+const SUBSET_PREFIX = /^[A-Z]{6}\+/;
+
+/**
+ * PDF Info Service Class
+ */
+export class PdfInfoService {
+  /**
+   * Inspect a PDF document
+   *
+   * @param pdfBuffer - PDF file buffer
+   * @param options - Inspection options
+   * @returns Document information
+   */
+  async getPdfInfo(pdfBuffer: Buffer, options: InfoOptions = {}): Promise<PdfInfo> {
+    try {
+      const pdfDoc = await pdfConverterService.loadPdfDocument(pdfBuffer, options.password);
+
+      const [{ info, metadata }, permissions, fieldObjects, attachments, outline, documentJavaScript] =
+        await Promise.all([
+          pdfDoc.getMetadata(),
+          pdfDoc.getPermissions(),
+          pdfDoc.getFieldObjects(),
+          pdfDoc.getAttachments(),
+          pdfDoc.getOutline(),
+          pdfDoc.hasJSActions(),
+        ]);
+
+      const documentInfo = info as Record<string, any>;
+      const { pages, fonts, pageJavaScript } = await this.inspectPages(pdfDoc);
+      const encrypted = Boolean(documentInfo.EncryptFilterName);
+
+      return {
+        pageCount: pdfDoc.numPages,
+        version: documentInfo.PDFFormatVersion ?? null,
+        linearized: Boolean(documentInfo.IsLinearized),
+        language: documentInfo.Language ?? null,
+        metadata: {
+          title: this.infoString(documentInfo.Title),
+          author: this.infoString(documentInfo.Author),
+          subject: this.infoString(documentInfo.Subject),
+          keywords: this.infoString(documentInfo.Keywords),
+          creator: this.infoString(documentInfo.Creator),
+          producer: this.infoString(documentInfo.Producer),
+          creationDate: this.infoDate(documentInfo.CreationDate),
+          modificationDate: this.infoDate(documentInfo.ModDate),
+          custom: Object.fromEntries(
+            Object.entries(documentInfo.Custom || {}).map(([key, value]) => [key, this.infoString(value) ?? ''])
+          ),
+        },
+        xmp: metadata ? { raw: metadata.getRaw(), properties: Object.fromEntries(metadata) } : null,
+        encryption: {
+          encrypted,
+          filter: documentInfo.EncryptFilterName ?? null,
+          permissions: encrypted ? this.permissionNames(permissions) : null,
+        },
+        forms: {
+          acroForm: Boolean(documentInfo.IsAcroFormPresent),
+          xfa: Boolean(documentInfo.IsXFAPresent),
+          fieldCount: fieldObjects ? Object.keys(fieldObjects).length : 0,
+          signatures: Boolean(documentInfo.IsSignaturesPresent),
+        },
+        attachments: Object.values(attachments || {}).map((attachment: any) => ({
+          filename: attachment.filename,
+          size: attachment.content?.length ?? 0,
+          description: attachment.description || null,
+        })),
+        outline: { present: Boolean(outline?.length), itemCount: this.countOutlineItems(outline || []) },
+        javascript: documentJavaScript || pageJavaScript,
+        fonts,
+        pages,
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(
+        `PDF inspection failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Collect page sizes, fonts and page-level JavaScript
+   *
+   * Fonts are resolved from the operator list, which parses page content
+   * without rendering it.
+   */
+  private async inspectPages(pdfDoc: PDFDocumentProxy): Promise<{
+    pages: PdfPageInfo[];
+    fonts: PdfFontInfo[];
+    pageJavaScript: boolean;
+  }> {
+    const pages: PdfPageInfo[] = [];
+    const fonts = new Map<string, PdfFontInfo>();      // Keyed by reported properties
+    const fontKeys = new Map<string, string>();        // pdf.js font id -> fonts key
+    let pageJavaScript = false;
+
+    for (let pageNum = 1; pageNum <= pdfDoc.numPages; pageNum++) {
+      const page = await pdfDoc.getPage(pageNum);
+      const [x1, y1, x2, y2] = page.view;
+
+      pages.push({
+        pageNumber: pageNum,
+        width: Math.abs(x2 - x1),
+        height: Math.abs(y2 - y1),
+        rotation: page.rotate,
+      });
+
+      if (await page.getJSActions()) {
+        pageJavaScript = true;
+      }
+
+      const operatorList = await page.getOperatorList();
+
+      operatorList.fnArray.forEach((fn, index) => {
+        if (fn !== OPS.setFont) {
+          return;
+        }
+
+        const loadedName: string = operatorList.argsArray[index][0];
+        let key = fontKeys.get(loadedName);
+
+        if (!key) {
+          if (!page.commonObjs.has(loadedName)) {
+            return;
+          }
+
+          const font = page.commonObjs.get(loadedName);
+          const name: string = font.name || loadedName;
+          const info: PdfFontInfo = {
+            name: name.replace(SUBSET_PREFIX, ''),
+            embedded: !font.missingFile,
+            subset: SUBSET_PREFIX.test(name),
+            type3: Boolean(font.isType3Font),
+            pages: [],
+          };
+
+          // The same font is often stored once per source document or page
+          key = JSON.stringify([info.name, info.embedded, info.subset, info.type3]);
+          fontKeys.set(loadedName, key);
+          if (!fonts.has(key)) {
+            fonts.set(key, info);
+          }
+        }
+
+        const usedOn = fonts.get(key)!.pages;
+        if (!usedOn.includes(pageNum)) {
+          usedOn.push(pageNum);
+        }
+      });
+
+      page.cleanup();
+    }
+
+    return { pages, fonts: [...fonts.values()], pageJavaScript };
+  }
+
+  /**
+   * Count outline items recursively
+   */
+  private countOutlineItems(items: Array<{ items: any[] }>): number {
+    return items.reduce((count, item) => count + 1 + this.countOutlineItems(item.items || []), 0);
+  }
+
+  /**
+   * Map pdf.js permission flags to permission names (null when unrestricted)
+   */
+  private permissionNames(flags: number[] | null): PdfPermission[] | null {
+    if (!flags) {
+      return null;
+    }
+
+    return (Object.keys(PERMISSION_BITS) as PdfPermission[])
+      .filter(permission => flags.includes(PERMISSION_BITS[permission]));
+  }
+
+  /**
+   * Normalize an Info dictionary value to a string
+   */
+  private infoString(value: unknown): string | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    // Name objects are returned as { name }
+    if (typeof value === 'object' && 'name' in value) {
+      return String((value as { name: unknown }).name);
+    }
+    return String(value);
+  }
+
+  /**
+   * Convert a PDF date string (D:YYYYMMDDHHmmSSOHH'mm) to ISO 8601
+   */
+  private infoDate(value: unknown): string | null {
+    const raw = this.infoString(value);
+    if (!raw) {
+      return null;
+    }
+
+    const date = PDFDateString.toDateObject(raw);
+    return date ? date.toISOString() : raw;
+  }
+}
+
+// Export singleton instance
+export const pdfInfoService = new PdfInfoService();
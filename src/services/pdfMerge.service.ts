@@ -0,0 +1,427 @@
+/**
+ * PDF Merge Service
+ *
+ * Combines multiple PDF documents into a single PDF using pdf-lib.
+ * Pages are copied in the requested order and the outlines (bookmarks)
+ * of every source document are kept under a per-file parent entry.
+ */
+
+import {
+  PDFDocument,
+  PDFDict,
+  PDFArray,
+  PDFName,
+  PDFRef,
+  PDFString,
+  PDFHexString,
+  PDFNumber,
+  PDFNull,
+  PDFObject,
+  PDFContext,
+} from 'pdf-lib';
+
+/**
+ * PDF input with metadata
+ */
+export interface PdfInput {
+  buffer: Buffer;
+  originalname: string;
+}
+
+/**
+ * Options for PDF merging
+ */
+export interface MergeOptions {
+  // Zero-based indices into the input array, in the desired output order
+  order?: number[];
+  // Keep outlines (bookmarks) from the source documents (default: true)
+  preserveOutlines?: boolean;
+}
+
+/**
+ * Outline entry resolved against a page index
+ */
+interface OutlineNode {
+  title: string;
+  pageIndex: number | null;
+  // Remaining explicit destination operands (e.g. /XYZ left top zoom)
+  view: PDFObject[];
+  children: OutlineNode[];
+}
+
+/**
+ * Maximum outline depth followed when reading source bookmarks
+ */
+const MAX_OUTLINE_DEPTH = 32;
+
+/**
+ * PDF Merge Service Class
+ */
+export class PdfMergeService {
+  /**
+   * Merge multiple PDF documents into one
+   *
+   * @param inputs - PDF buffers with metadata (in upload order)
+   * @param options - Merge options
+   * @returns Merged PDF document buffer
+   */
+  async mergePdfs(inputs: PdfInput[], options: MergeOptions = {}): Promise<Buffer> {
+    const { preserveOutlines = true } = options;
+    const order = options.order ?? inputs.map((_, index) => index);
+
+    PdfMergeService.validateOrder(order, inputs.length);
+
+    try {
+      const mergedDoc = await PDFDocument.create();
+      const fileOutlines: OutlineNode[] = [];
+
+      for (const index of order) {
+        const input = inputs[index];
+        let sourceDoc: PDFDocument;
+
+        try {
+          sourceDoc = await PDFDocument.load(input.buffer);
+        } catch (error) {
+          throw new Error(
+            `Failed to load PDF ${index + 1} (${input.originalname}): ${
+              error instanceof Error ? error.message : 'Invalid PDF file'
+            }`
+          );
+        }
+
+        const pageOffset = mergedDoc.getPageCount();
+        const copiedPages = await mergedDoc.copyPages(sourceDoc, sourceDoc.getPageIndices());
+        copiedPages.forEach((page) => mergedDoc.addPage(page));
+
+        if (preserveOutlines && copiedPages.length > 0) {
+          const children = this.readOutlines(sourceDoc);
+          fileOutlines.push({
+            title: input.originalname.replace(/\.pdf$/i, ''),
+            pageIndex: pageOffset,
+            view: [],
+            children: this.offsetOutlines(children, pageOffset),
+          });
+        }
+      }
+
+      if (fileOutlines.length > 0) {
+        this.writeOutlines(mergedDoc, fileOutlines);
+      }
+
+      const pdfBytes = await mergedDoc.save();
+      return Buffer.from(pdfBytes);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Failed to load PDF')) {
+        throw error;
+      }
+      throw new Error(
+        `PDF merge failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Read the outline tree of a document, resolving destinations to page indices
+   *
+   * @param pdfDoc - Source PDF document
+   * @returns Top-level outline entries
+   */
+  private readOutlines(pdfDoc: PDFDocument): OutlineNode[] {
+    try {
+      const outlines = pdfDoc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+      if (!outlines) {
+        return [];
+      }
+
+      const pageIndexByRef = new Map<string, number>();
+      pdfDoc.getPages().forEach((page, index) => pageIndexByRef.set(page.ref.toString(), index));
+
+      return this.readOutlineLevel(pdfDoc, outlines, pageIndexByRef, new Set(), 0);
+    } catch (error) {
+      // Broken outlines should never prevent the pages from being merged
+      console.error('Failed to read PDF outlines:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read the children of a single outline item
+   */
+  private readOutlineLevel(
+    pdfDoc: PDFDocument,
+    parent: PDFDict,
+    pageIndexByRef: Map<string, number>,
+    visited: Set<PDFDict>,
+    depth: number
+  ): OutlineNode[] {
+    const nodes: OutlineNode[] = [];
+
+    if (depth >= MAX_OUTLINE_DEPTH) {
+      return nodes;
+    }
+
+    let item = parent.lookupMaybe(PDFName.of('First'), PDFDict);
+
+    while (item && !visited.has(item)) {
+      visited.add(item);
+
+      const title = item.lookup(PDFName.of('Title'));
+      const destination = this.resolveDestination(pdfDoc, item, pageIndexByRef);
+
+      nodes.push({
+        title: title instanceof PDFString || title instanceof PDFHexString ? title.decodeText() : '',
+        pageIndex: destination?.pageIndex ?? null,
+        view: destination?.view ?? [],
+        children: this.readOutlineLevel(pdfDoc, item, pageIndexByRef, visited, depth + 1),
+      });
+
+      item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Resolve the destination of an outline item (explicit, named or GoTo action)
+   */
+  private resolveDestination(
+    pdfDoc: PDFDocument,
+    item: PDFDict,
+    pageIndexByRef: Map<string, number>
+  ): { pageIndex: number; view: PDFObject[] } | null {
+    let destination = item.lookup(PDFName.of('Dest'));
+
+    if (!destination) {
+      const action = item.lookupMaybe(PDFName.of('A'), PDFDict);
+      if (action && action.lookup(PDFName.of('S')) === PDFName.of('GoTo')) {
+        destination = action.lookup(PDFName.of('D'));
+      }
+    }
+
+    if (destination instanceof PDFName || destination instanceof PDFString || destination instanceof PDFHexString) {
+      destination = this.lookupNamedDestination(pdfDoc, destination);
+    }
+
+    if (destination instanceof PDFDict) {
+      destination = destination.lookup(PDFName.of('D'));
+    }
+
+    if (!(destination instanceof PDFArray) || destination.size() === 0) {
+      return null;
+    }
+
+    const pageRef = destination.get(0);
+    const pageIndex = pageRef instanceof PDFRef ? pageIndexByRef.get(pageRef.toString()) : undefined;
+
+    if (pageIndex === undefined) {
+      return null;
+    }
+
+    // Only keep direct view operands; anything else falls back to the page top
+    const view = destination.asArray().slice(1);
+    const isDirect = view.every(
+      (operand) => operand instanceof PDFName || operand instanceof PDFNumber || operand === PDFNull
+    );
+
+    return { pageIndex, view: isDirect ? view : [] };
+  }
+
+  /**
+   * Look up a named destination in the catalog /Dests dictionary or /Names tree
+   */
+  private lookupNamedDestination(
+    pdfDoc: PDFDocument,
+    name: PDFName | PDFString | PDFHexString
+  ): PDFObject | undefined {
+    const catalog = pdfDoc.catalog;
+
+    if (name instanceof PDFName) {
+      return catalog.lookupMaybe(PDFName.of('Dests'), PDFDict)?.lookup(name);
+    }
+
+    const names = catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+    const tree = names?.lookupMaybe(PDFName.of('Dests'), PDFDict);
+
+    return tree ? this.searchNameTree(tree, name.decodeText(), 0) : undefined;
+  }
+
+  /**
+   * Search a name tree node for a key
+   */
+  private searchNameTree(node: PDFDict, key: string, depth: number): PDFObject | undefined {
+    if (depth >= MAX_OUTLINE_DEPTH) {
+      return undefined;
+    }
+
+    const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+    if (names) {
+      for (let i = 0; i + 1 < names.size(); i += 2) {
+        const entryKey = names.lookup(i);
+        if (
+          (entryKey instanceof PDFString || entryKey instanceof PDFHexString) &&
+          entryKey.decodeText() === key
+        ) {
+          return names.lookup(i + 1);
+        }
+      }
+    }
+
+    const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+    if (kids) {
+      for (let i = 0; i < kids.size(); i++) {
+        const kid = kids.lookup(i);
+        if (kid instanceof PDFDict) {
+          const found = this.searchNameTree(kid, key, depth + 1);
+          if (found) {
+            return found;
+          }
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Shift outline page indices by the position of the source document
+   */
+  private offsetOutlines(nodes: OutlineNode[], offset: number): OutlineNode[] {
+    return nodes.map((node) => ({
+      ...node,
+      pageIndex: node.pageIndex === null ? null : node.pageIndex + offset,
+      children: this.offsetOutlines(node.children, offset),
+    }));
+  }
+
+  /**
+   * Write an outline tree into the catalog of a document
+   *
+   * @param pdfDoc - Target PDF document
+   * @param nodes - Top-level outline entries
+   */
+  private writeOutlines(pdfDoc: PDFDocument, nodes: OutlineNode[]): void {
+    const context = pdfDoc.context;
+    const pageRefs = pdfDoc.getPages().map((page) => page.ref);
+    const outlinesRef = context.nextRef();
+    const outlines = context.obj({ Type: 'Outlines' });
+
+    const count = this.writeOutlineLevel(context, pageRefs, outlines, outlinesRef, nodes);
+    outlines.set(PDFName.of('Count'), PDFNumber.of(count));
+
+    context.assign(outlinesRef, outlines);
+    pdfDoc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+  }
+
+  /**
+   * Write one level of outline items and link them to their parent
+   *
+   * @returns Number of visible descendants (all items are written open)
+   */
+  private writeOutlineLevel(
+    context: PDFContext,
+    pageRefs: PDFRef[],
+    parent: PDFDict,
+    parentRef: PDFRef,
+    nodes: OutlineNode[]
+  ): number {
+    if (nodes.length === 0) {
+      return 0;
+    }
+
+    const refs = nodes.map(() => context.nextRef());
+    let descendants = 0;
+
+    nodes.forEach((node, index) => {
+      const item = context.obj({});
+      item.set(PDFName.of('Title'), PDFHexString.fromText(node.title));
+      item.set(PDFName.of('Parent'), parentRef);
+
+      if (index > 0) {
+        item.set(PDFName.of('Prev'), refs[index - 1]);
+      }
+      if (index < nodes.length - 1) {
+        item.set(PDFName.of('Next'), refs[index + 1]);
+      }
+
+      if (node.pageIndex !== null && pageRefs[node.pageIndex]) {
+        const view = node.view.length > 0 ? node.view : [PDFName.of('Fit')];
+        item.set(PDFName.of('Dest'), context.obj([pageRefs[node.pageIndex], ...view]));
+      }
+
+      const childCount = this.writeOutlineLevel(context, pageRefs, item, refs[index], node.children);
+      if (childCount > 0) {
+        item.set(PDFName.of('Count'), PDFNumber.of(childCount));
+      }
+
+      context.assign(refs[index], item);
+      descendants += 1 + childCount;
+    });
+
+    parent.set(PDFName.of('First'), refs[0]);
+    parent.set(PDFName.of('Last'), refs[refs.length - 1]);
+
+    return descendants;
+  }
+
+  /**
+   * Validate a merge order against the number of inputs
+   *
+   * @param order - Zero-based input indices
+   * @param inputCount - Number of uploaded PDFs
+   * @throws Error if the order is not a permutation of the inputs
+   */
+  static validateOrder(order: number[], inputCount: number): void {
+    if (inputCount === 0) {
+      throw new Error('At least one PDF is required');
+    }
+
+    if (order.length !== inputCount) {
+      throw new Error(`Order must list each of the ${inputCount} uploaded files exactly once`);
+    }
+
+    const seen = new Set<number>();
+    for (const index of order) {
+      if (!Number.isInteger(index) || index < 0 || index >= inputCount) {
+        throw new Error(`Order references file ${index + 1}, but only ${inputCount} files were uploaded`);
+      }
+      if (seen.has(index)) {
+        throw new Error(`Order references file ${index + 1} more than once`);
+      }
+      seen.add(index);
+    }
+  }
+
+  /**
+   * Parse an order parameter (JSON array or comma-separated list, 1-based)
+   *
+   * @param value - Raw order value from the request
+   * @returns Zero-based input indices
+   * @throws Error if the value cannot be parsed
+   */
+  static parseOrder(value: string): number[] {
+    const trimmed = value.trim();
+    let entries: unknown[];
+
+    if (trimmed.startsWith('[')) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        entries = Array.isArray(parsed) ? parsed : [];
+      } catch {
+        throw new Error('Order must be a JSON array or a comma-separated list of file numbers');
+      }
+    } else {
+      entries = trimmed.split(',').map((entry) => entry.trim());
+    }
+
+    return entries.map((entry) => {
+      const position = typeof entry === 'number' ? entry : Number(entry);
+      if (!Number.isInteger(position) || position < 1) {
+        throw new Error(`Invalid file number in order: ${String(entry)}`);
+      }
+      return position - 1;
+    });
+  }
+}
+
+// Export singleton instance
+export const pdfMergeService = new PdfMergeService();
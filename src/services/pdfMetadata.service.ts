@@ -0,0 +1,400 @@
+/**
+ * PDF Metadata Service
+ *
+ * Edits document properties using pdf-lib. The Info dictionary is updated
+ * first and an XMP metadata packet is then regenerated from it, so both
+ * stay synchronized (Acrobat and PDF/A validators compare the two).
+ */
+
+import { PDFDocument, PDFDict, PDFName, PDFString, PDFHexString, PDFRef } from 'pdf-lib';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Document properties to write
+ *
+ * undefined leaves a property unchanged, null removes it.
+ */
+export interface PdfMetadata {
+  title?: string | null;
+  author?: string | null;
+  subject?: string | null;
+  keywords?: string | null;
+  creator?: string | null;
+  producer?: string | null;
+  creationDate?: Date | null;
+  modificationDate?: Date | null;
+  custom?: Record<string, string | null>;  // Custom Info dictionary keys
+}
+
+/**
+ * Info dictionary keys of the standard properties
+ */
+const INFO_KEYS = {
+  title: 'Title',
+  author: 'Author',
+  subject: 'Subject',
+  keywords: 'Keywords',
+  creator: 'Creator',
+  producer: 'Producer',
+  creationDate: 'CreationDate',
+  modificationDate: 'ModDate',
+} as const;
+
+type StandardProperty = keyof typeof INFO_KEYS;
+
+const TEXT_PROPERTIES: StandardProperty[] = ['title', 'author', 'subject', 'keywords', 'creator', 'producer'];
+const DATE_PROPERTIES: StandardProperty[] = ['creationDate', 'modificationDate'];
+
+/**
+ * Info dictionary keys that cannot be used as custom keys
+ */
+const RESERVED_INFO_KEYS = [...Object.values(INFO_KEYS), 'Trapped'];
+
+/**
+ * Custom keys must be valid PDF names and XML element names (for XMP)
+ */
+const CUSTOM_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]{0,126}$/;
+
+/**
+ * Accepted request field names (case-insensitive) and the property they map to
+ */
+const FIELD_ALIASES: Record<string, StandardProperty | 'custom'> = {
+  title: 'title',
+  author: 'author',
+  subject: 'subject',
+  keywords: 'keywords',
+  creator: 'creator',
+  producer: 'producer',
+  creationdate: 'creationDate',
+  modificationdate: 'modificationDate',
+  moddate: 'modificationDate',
+  custom: 'custom',
+};
+
+/**
+ * PDF Metadata Service Class
+ */
+export class PdfMetadataService {
+  /**
+   * Update the document properties of a PDF
+   *
+   * The modification date is set to now unless given.
+   *
+   * @param pdfBuffer - PDF file buffer
+   * @param metadata - Properties to set or remove
+   * @returns Updated PDF document buffer
+   */
+  async updateMetadata(pdfBuffer: Buffer, metadata: PdfMetadata): Promise<Buffer> {
+    try {
+      // Keep the existing Producer and dates unless they are changed explicitly
+      const pdfDoc = await PDFDocument.load(pdfBuffer, { updateMetadata: false });
+
+      this.applyMetadata(pdfDoc, { modificationDate: new Date(), ...metadata });
+
+      const pdfBytes = await pdfDoc.save();
+      return Buffer.from(pdfBytes);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(
+        `PDF metadata update failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Write properties to the Info dictionary and regenerate the XMP packet
+   *
+   * Used directly by services that generate PDFs (e.g. images or text to PDF).
+   *
+   * @param pdfDoc - PDF document to update in place
+   * @param metadata - Properties to set or remove
+   */
+  applyMetadata(pdfDoc: PDFDocument, metadata: PdfMetadata): void {
+    const info = this.getInfoDict(pdfDoc);
+
+    for (const property of TEXT_PROPERTIES) {
+      const value = metadata[property] as string | null | undefined;
+      if (value === null) {
+        info.delete(PDFName.of(INFO_KEYS[property]));
+      } else if (value !== undefined) {
+        info.set(PDFName.of(INFO_KEYS[property]), PDFHexString.fromText(value));
+      }
+    }
+
+    for (const property of DATE_PROPERTIES) {
+      const value = metadata[property] as Date | null | undefined;
+      if (value === null) {
+        info.delete(PDFName.of(INFO_KEYS[property]));
+      } else if (value !== undefined) {
+        info.set(PDFName.of(INFO_KEYS[property]), PDFString.fromDate(value));
+      }
+    }
+
+    for (const [key, value] of Object.entries(metadata.custom || {})) {
+      if (value === null) {
+        info.delete(PDFName.of(key));
+      } else {
+        info.set(PDFName.of(key), PDFHexString.fromText(value));
+      }
+    }
+
+    this.writeXmp(pdfDoc);
+  }
+
+  /**
+   * Get the Info dictionary, creating it if needed
+   */
+  private getInfoDict(pdfDoc: PDFDocument): PDFDict {
+    const context = pdfDoc.context;
+    const existing = context.lookup(context.trailerInfo.Info);
+
+    if (existing instanceof PDFDict) {
+      return existing;
+    }
+
+    const info = context.obj({});
+    context.trailerInfo.Info = context.register(info);
+    return info;
+  }
+
+  /**
+   * Read the current Info dictionary values as text
+   */
+  private readInfo(pdfDoc: PDFDocument): { standard: Partial<Record<StandardProperty, string | Date>>; custom: Record<string, string> } {
+    const info = this.getInfoDict(pdfDoc);
+    const standard: Partial<Record<StandardProperty, string | Date>> = {};
+    const custom: Record<string, string> = {};
+
+    for (const [name, value] of info.entries()) {
+      const key = name.decodeText();
+      const text = value instanceof PDFString || value instanceof PDFHexString
+        ? value.decodeText()
+        : value instanceof PDFName ? value.decodeText() : undefined;
+
+      if (text === undefined) {
+        continue;
+      }
+
+      const property = (Object.keys(INFO_KEYS) as StandardProperty[]).find(p => INFO_KEYS[p] === key);
+
+      if (property && DATE_PROPERTIES.includes(property)) {
+        try {
+          standard[property] = (value as PDFString | PDFHexString).decodeDate();
+        } catch {
+          // Unparseable dates are left out of the XMP packet
+        }
+      } else if (property) {
+        standard[property] = text;
+      } else if (!RESERVED_INFO_KEYS.includes(key) && CUSTOM_KEY_PATTERN.test(key)) {
+        custom[key] = text;
+      }
+    }
+
+    return { standard, custom };
+  }
+
+  /**
+   * Regenerate the XMP metadata stream from the Info dictionary
+   */
+  private writeXmp(pdfDoc: PDFDocument): void {
+    const { standard, custom } = this.readInfo(pdfDoc);
+    const properties: string[] = ['<dc:format>application/pdf</dc:format>'];
+    const text = (value: unknown) => this.escapeXml(String(value));
+    const date = (value: unknown) => value instanceof Date ? value.toISOString() : undefined;
+
+    if (standard.title !== undefined) {
+      properties.push(`<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${text(standard.title)}</rdf:li></rdf:Alt></dc:title>`);
+    }
+    if (standard.author !== undefined) {
+      properties.push(`<dc:creator><rdf:Seq><rdf:li>${text(standard.author)}</rdf:li></rdf:Seq></dc:creator>`);
+    }
+    if (standard.subject !== undefined) {
+      properties.push(`<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${text(standard.subject)}</rdf:li></rdf:Alt></dc:description>`);
+    }
+    if (standard.keywords !== undefined) {
+      const keywords = String(standard.keywords).split(/[,;]/).map(keyword => keyword.trim()).filter(Boolean);
+      properties.push(`<pdf:Keywords>${text(standard.keywords)}</pdf:Keywords>`);
+      if (keywords.length > 0) {
+        properties.push(`<dc:subject><rdf:Bag>${keywords.map(keyword => `<rdf:li>${text(keyword)}</rdf:li>`).join('')}</rdf:Bag></dc:subject>`);
+      }
+    }
+    if (standard.producer !== undefined) {
+      properties.push(`<pdf:Producer>${text(standard.producer)}</pdf:Producer>`);
+    }
+    if (standard.creator !== undefined) {
+      properties.push(`<xmp:CreatorTool>${text(standard.creator)}</xmp:CreatorTool>`);
+    }
+    if (date(standard.creationDate)) {
+      properties.push(`<xmp:CreateDate>${date(standard.creationDate)}</xmp:CreateDate>`);
+    }
+    if (date(standard.modificationDate)) {
+      properties.push(`<xmp:ModifyDate>${date(standard.modificationDate)}</xmp:ModifyDate>`);
+    }
+    properties.push(`<xmp:MetadataDate>${new Date().toISOString()}</xmp:MetadataDate>`);
+
+    for (const [key, value] of Object.entries(custom)) {
+      properties.push(`<pdfx:${key}>${text(value)}</pdfx:${key}>`);
+    }
+
+    const packet = [
+      '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+      '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+      '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+      '<rdf:Description rdf:about=""',
+      ' xmlns:dc="http://purl.org/dc/elements/1.1/"',
+      ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+      ' xmlns:pdf="http://ns.adobe.com/pdf/1.3/"',
+      ' xmlns:pdfx="http://ns.adobe.com/pdfx/1.3/">',
+      ...properties,
+      '</rdf:Description>',
+      '</rdf:RDF>',
+      '</x:xmpmeta>',
+      '<?xpacket end="w"?>',
+    ].join('\n');
+
+    // XMP must stay uncompressed so that it can be found without parsing the PDF
+    const context = pdfDoc.context;
+    const stream = context.stream(Buffer.from(packet, 'utf-8'), { Type: 'Metadata', Subtype: 'XML' });
+    const existing = pdfDoc.catalog.get(PDFName.of('Metadata'));
+
+    if (existing instanceof PDFRef) {
+      context.assign(existing, stream);
+    } else {
+      pdfDoc.catalog.set(PDFName.of('Metadata'), context.register(stream));
+    }
+  }
+
+  /**
+   * Escape text for XML and drop characters XML cannot represent
+   */
+  private escapeXml(value: string): string {
+    return value
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Build metadata from raw request parameters
+   *
+   * Properties are read from a JSON object in the "metadata" field or,
+   * when it is absent, from individual fields (title, author, ...).
+   * Empty values remove a property.
+   *
+   * @param params - Raw parameter values (strings from the form)
+   * @param required - Throw if no property is given
+   * @returns Validated metadata (empty if nothing was given and not required)
+   * @throws Error if the parameters are invalid
+   */
+  static parseMetadata(params: Record<string, unknown>, required = false): PdfMetadata {
+    let source: Record<string, unknown>;
+    const strict = params.metadata !== undefined;
+
+    if (strict) {
+      try {
+        source = typeof params.metadata === 'string' ? JSON.parse(params.metadata) : params.metadata as Record<string, unknown>;
+      } catch {
+        throw new Error('"metadata" must be a JSON object');
+      }
+      if (!source || typeof source !== 'object' || Array.isArray(source)) {
+        throw new Error('"metadata" must be a JSON object');
+      }
+    } else {
+      source = params;
+    }
+
+    const metadata: PdfMetadata = {};
+
+    for (const [field, value] of Object.entries(source)) {
+      const property = FIELD_ALIASES[field.toLowerCase()];
+
+      if (!property) {
+        if (strict) {
+          throw new Error(`Unknown metadata field "${field}". Use "custom" for custom Info dictionary keys.`);
+        }
+        continue;
+      }
+
+      if (property === 'custom') {
+        const custom = this.parseCustom(value);
+        if (Object.keys(custom).length > 0) {
+          metadata.custom = custom;
+        }
+      } else if (DATE_PROPERTIES.includes(property)) {
+        metadata[property as 'creationDate' | 'modificationDate'] = this.parseDate(field, value);
+      } else {
+        metadata[property as Exclude<StandardProperty, 'creationDate' | 'modificationDate'>] = this.parseText(field, value);
+      }
+    }
+
+    if (required && Object.keys(metadata).length === 0) {
+      throw new Error('Provide at least one metadata field: title, author, subject, keywords, creator, producer, creationDate, modificationDate or custom');
+    }
+
+    return metadata;
+  }
+
+  private static parseText(field: string, value: unknown): string | null {
+    if (value === null || value === '') {
+      return null;
+    }
+    // Keyword lists are stored as a comma-separated string
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+      return value.join(', ');
+    }
+    if (typeof value !== 'string') {
+      throw new Error(`"${field}" must be a string`);
+    }
+    return value;
+  }
+
+  private static parseDate(field: string, value: unknown): Date | null {
+    if (value === null || value === '') {
+      return null;
+    }
+    const date = typeof value === 'string' ? new Date(value) : undefined;
+    if (!date || Number.isNaN(date.getTime())) {
+      throw new Error(`"${field}" must be an ISO 8601 date, e.g. 2024-01-31T12:00:00Z`);
+    }
+    return date;
+  }
+
+  private static parseCustom(value: unknown): Record<string, string | null> {
+    let custom = value;
+
+    if (typeof custom === 'string') {
+      try {
+        custom = JSON.parse(custom);
+      } catch {
+        throw new Error('"custom" must be a JSON object of key/value strings');
+      }
+    }
+    if (!custom || typeof custom !== 'object' || Array.isArray(custom)) {
+      throw new Error('"custom" must be a JSON object of key/value strings');
+    }
+
+    const result: Record<string, string | null> = {};
+
+    for (const [key, entry] of Object.entries(custom)) {
+      if (!CUSTOM_KEY_PATTERN.test(key)) {
+        throw new Error(`Invalid custom key "${key}": use letters, digits, "_", "-" and "." and start with a letter`);
+      }
+      if (RESERVED_INFO_KEYS.includes(key)) {
+        throw new Error(`"${key}" is a standard property and cannot be used as a custom key`);
+      }
+      if (entry !== null && typeof entry !== 'string') {
+        throw new Error(`Custom value for "${key}" must be a string or null`);
+      }
+      result[key] = entry === '' ? null : entry;
+    }
+
+    return result;
+  }
+}
+
+// Export singleton instance
+export const pdfMetadataService = new PdfMetadataService();
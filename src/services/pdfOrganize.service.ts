@@ -0,0 +1,171 @@
+/**
+ * PDF Organize Service
+ *
+ * Builds a new PDF from an ordered list of page instructions using pdf-lib.
+ * Pages can be reordered, deleted (by omission), duplicated and rotated.
+ */
+
+import { PDFDocument, degrees } from 'pdf-lib';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * A single page instruction
+ * - page: 1-based source page number
+ * - rotate: clockwise rotation added to the page's current rotation (multiple of 90)
+ */
+export interface PageInstruction {
+  page: number;
+  rotate?: number;
+}
+
+/**
+ * Validation error for a single instruction
+ */
+export interface InstructionError {
+  index: number;
+  instruction: unknown;
+  error: string;
+}
+
+/**
+ * Error thrown when one or more page instructions are invalid
+ */
+export class PageInstructionError extends AppError {
+  constructor(public readonly errors: InstructionError[]) {
+    super(400, 'One or more page instructions are invalid', true, errors);
+    this.name = 'PageInstructionError';
+  }
+}
+
+/**
+ * Maximum number of instructions (pages in the output document)
+ */
+const MAX_INSTRUCTIONS = 500;
+
+/**
+ * PDF Organize Service Class
+ */
+export class PdfOrganizeService {
+  /**
+   * Create a new PDF from the pages of a source PDF
+   *
+   * @param pdfBuffer - PDF file buffer
+   * @param instructions - Output pages in order
+   * @returns Organized PDF document buffer
+   */
+  async organizePdf(pdfBuffer: Buffer, instructions: PageInstruction[]): Promise<Buffer> {
+    try {
+      const sourceDoc = await PDFDocument.load(pdfBuffer);
+      const pageCount = sourceDoc.getPageCount();
+
+      // Check page references against the actual document
+      const errors: InstructionError[] = [];
+      instructions.forEach((instruction, index) => {
+        if (instruction.page > pageCount) {
+          errors.push({
+            index,
+            instruction,
+            error: `Page ${instruction.page} does not exist (document has ${pageCount} page${pageCount === 1 ? '' : 's'})`,
+          });
+        }
+      });
+
+      if (errors.length > 0) {
+        throw new PageInstructionError(errors);
+      }
+
+      const outputDoc = await PDFDocument.create();
+      const pages = await outputDoc.copyPages(
+        sourceDoc,
+        instructions.map((instruction) => instruction.page - 1)
+      );
+
+      pages.forEach((page, index) => {
+        const rotate = instructions[index].rotate || 0;
+
+        if (rotate !== 0) {
+          const current = page.getRotation().angle;
+          page.setRotation(degrees((((current + rotate) % 360) + 360) % 360));
+        }
+
+        outputDoc.addPage(page);
+      });
+
+      const pdfBytes = await outputDoc.save();
+      return Buffer.from(pdfBytes);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(
+        `PDF organize failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Parse and validate a JSON instruction list
+   *
+   * Page numbers are checked against the document later, in organizePdf.
+   *
+   * @param raw - JSON string, e.g. '[{"page":3},{"page":1,"rotate":180}]'
+   * @returns Validated instructions
+   * @throws AppError if the JSON is malformed, PageInstructionError if an instruction is invalid
+   */
+  static parseInstructions(raw: string): PageInstruction[] {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new AppError(400, 'Instructions must be a valid JSON array, e.g. [{"page":3},{"page":1,"rotate":180}]');
+    }
+
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+      throw new AppError(400, 'Instructions must be a non-empty JSON array');
+    }
+
+    if (parsed.length > MAX_INSTRUCTIONS) {
+      throw new AppError(400, `Too many instructions (${parsed.length}). Maximum allowed is ${MAX_INSTRUCTIONS}.`);
+    }
+
+    const errors: InstructionError[] = [];
+    const instructions: PageInstruction[] = [];
+
+    parsed.forEach((instruction, index) => {
+      if (typeof instruction !== 'object' || instruction === null || Array.isArray(instruction)) {
+        errors.push({ index, instruction, error: 'Instruction must be an object such as {"page":1}' });
+        return;
+      }
+
+      const { page, rotate, ...rest } = instruction as Record<string, unknown>;
+      const unknownKeys = Object.keys(rest);
+
+      if (unknownKeys.length > 0) {
+        errors.push({ index, instruction, error: `Unknown field(s): ${unknownKeys.join(', ')}` });
+        return;
+      }
+
+      if (typeof page !== 'number' || !Number.isInteger(page) || page < 1) {
+        errors.push({ index, instruction, error: '"page" must be a positive whole number (pages start at 1)' });
+        return;
+      }
+
+      if (rotate !== undefined && (typeof rotate !== 'number' || !Number.isInteger(rotate) || rotate % 90 !== 0)) {
+        errors.push({ index, instruction, error: '"rotate" must be a multiple of 90 (e.g. 90, 180, 270, -90)' });
+        return;
+      }
+
+      instructions.push({ page, rotate: rotate as number | undefined });
+    });
+
+    if (errors.length > 0) {
+      throw new PageInstructionError(errors);
+    }
+
+    return instructions;
+  }
+}
+
+// Export singleton instance
+export const pdfOrganizeService = new PdfOrganizeService();
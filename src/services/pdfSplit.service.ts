@@ -0,0 +1,225 @@
+/**
+ * PDF Split Service
+ *
+ * Splits a PDF document into multiple documents using pdf-lib.
+ * Supports explicit page ranges, fixed-size chunks and a target file size.
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import { AppError } from '../middleware/errorHandler';
+import { PageRange, parsePageRanges } from '../utils/pageRanges';
+
+/**
+ * Split mode
+ * - ranges: one output document per range (e.g. "1-3,4,5-end")
+ * - every: one output document per N pages
+ * - bySize: as many pages per document as fit within a byte limit
+ */
+export type SplitOptions =
+  | { mode: 'ranges'; ranges: string }
+  | { mode: 'every'; pages: number }
+  | { mode: 'bySize'; maxBytes: number };
+
+/**
+ * A single document produced by a split
+ */
+export interface SplitDocument {
+  range: PageRange;
+  buffer: Buffer;
+}
+
+/**
+ * PDF Split Service Class
+ */
+export class PdfSplitService {
+  /**
+   * Split a PDF buffer into multiple PDF documents
+   *
+   * @param pdfBuffer - PDF file buffer
+   * @param options - Split options
+   * @returns Split documents in page order
+   */
+  async splitPdf(pdfBuffer: Buffer, options: SplitOptions): Promise<SplitDocument[]> {
+    try {
+      const sourceDoc = await PDFDocument.load(pdfBuffer);
+      const pageCount = sourceDoc.getPageCount();
+
+      if (pageCount === 0) {
+        throw new AppError(400, 'PDF has no pages to split');
+      }
+
+      if (options.mode === 'bySize') {
+        return await this.splitBySize(sourceDoc, options.maxBytes);
+      }
+
+      const ranges = options.mode === 'ranges'
+        ? parsePageRanges(options.ranges, pageCount)
+        : this.chunkRanges(pageCount, options.pages);
+
+      const documents: SplitDocument[] = [];
+      for (const range of ranges) {
+        const doc = await this.createDocument(sourceDoc, range);
+        documents.push({ range, buffer: Buffer.from(await doc.save()) });
+      }
+
+      return documents;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(
+        `PDF split failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Build fixed-size page ranges
+   *
+   * @param pageCount - Number of pages in the document
+   * @param pagesPerDocument - Pages per output document
+   * @returns Consecutive ranges covering the document
+   */
+  private chunkRanges(pageCount: number, pagesPerDocument: number): PageRange[] {
+    const ranges: PageRange[] = [];
+
+    for (let start = 1; start <= pageCount; start += pagesPerDocument) {
+      ranges.push({ start, end: Math.min(start + pagesPerDocument - 1, pageCount) });
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Split into consecutive documents that each stay under a byte limit
+   *
+   * Shared resources (fonts, images) mean document sizes are not additive,
+   * so candidate chunks are serialized to measure their real size. The end of
+   * each chunk is found by doubling its length until it no longer fits and
+   * then bisecting, so each chunk takes a logarithmic number of saves.
+   * A single page larger than the limit is emitted on its own.
+   *
+   * @param sourceDoc - Source PDF document
+   * @param maxBytes - Maximum size of each output document
+   * @returns Split documents in page order
+   */
+  private async splitBySize(sourceDoc: PDFDocument, maxBytes: number): Promise<SplitDocument[]> {
+    const pageCount = sourceDoc.getPageCount();
+    const documents: SplitDocument[] = [];
+
+    const save = async (range: PageRange): Promise<Uint8Array> =>
+      (await this.createDocument(sourceDoc, range)).save();
+
+    for (let start = 1; start <= pageCount;) {
+      // The first page is always accepted, even if it is larger than the limit
+      let fits = start;
+      let accepted = await save({ start, end: start });
+      let tooLarge = pageCount + 1;
+
+      // Double the chunk until it no longer fits or reaches the last page
+      for (let length = 2; fits < pageCount; length *= 2) {
+        const end = Math.min(start + length - 1, pageCount);
+        const candidate = await save({ start, end });
+        if (candidate.length > maxBytes) {
+          tooLarge = end;
+          break;
+        }
+        fits = end;
+        accepted = candidate;
+      }
+
+      // Bisect between the longest chunk that fits and the shortest that does not
+      while (tooLarge - fits > 1) {
+        const end = Math.floor((fits + tooLarge) / 2);
+        const candidate = await save({ start, end });
+        if (candidate.length > maxBytes) {
+          tooLarge = end;
+        } else {
+          fits = end;
+          accepted = candidate;
+        }
+      }
+
+      documents.push({ range: { start, end: fits }, buffer: Buffer.from(accepted) });
+      start = fits + 1;
+    }
+
+    return documents;
+  }
+
+  /**
+   * Create a new document containing a page range of the source document
+   */
+  private async createDocument(sourceDoc: PDFDocument, range: PageRange): Promise<PDFDocument> {
+    const doc = await PDFDocument.create();
+    const indices = Array.from(
+      { length: range.end - range.start + 1 },
+      (_, offset) => range.start - 1 + offset
+    );
+
+    const pages = await doc.copyPages(sourceDoc, indices);
+    pages.forEach((page) => doc.addPage(page));
+
+    return doc;
+  }
+
+  /**
+   * Parse a human-readable size such as "2MB", "500KB" or "1048576"
+   *
+   * @param value - Size string
+   * @returns Size in bytes
+   * @throws Error if the size cannot be parsed
+   */
+  static parseSize(value: string): number {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i);
+
+    if (!match) {
+      throw new Error(`Invalid size: "${value}". Use a value such as 500KB or 2MB`);
+    }
+
+    const units: Record<string, number> = { b: 1, kb: 1024, mb: 1024 * 1024, gb: 1024 * 1024 * 1024 };
+    const bytes = Math.floor(parseFloat(match[1]) * units[(match[2] || 'b').toLowerCase()]);
+
+    if (bytes < 1) {
+      throw new Error('Size must be greater than zero');
+    }
+
+    return bytes;
+  }
+
+  /**
+   * Build split options from raw request parameters
+   *
+   * Exactly one of ranges, every or bySize must be provided.
+   *
+   * @param params - Raw parameter values
+   * @returns Validated split options
+   * @throws Error if the parameters are missing or invalid
+   */
+  static parseOptions(params: { ranges?: string; every?: string; bySize?: string }): SplitOptions {
+    const provided = (['ranges', 'every', 'bySize'] as const).filter(
+      (key) => typeof params[key] === 'string' && params[key]!.trim() !== ''
+    );
+
+    if (provided.length !== 1) {
+      throw new Error('Provide exactly one of "ranges" (e.g. 1-3,4,5-end), "every" (e.g. 2) or "bySize" (e.g. 2MB)');
+    }
+
+    if (provided[0] === 'ranges') {
+      return { mode: 'ranges', ranges: params.ranges! };
+    }
+
+    if (provided[0] === 'every') {
+      const pages = Number(params.every);
+      if (!Number.isInteger(pages) || pages < 1) {
+        throw new Error('"every" must be a positive whole number of pages');
+      }
+      return { mode: 'every', pages };
+    }
+
+    return { mode: 'bySize', maxBytes: this.parseSize(params.bySize!) };
+  }
+}
+
+// Export singleton instance
+export const pdfSplitService = new PdfSplitService();
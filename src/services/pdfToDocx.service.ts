@@ -7,6 +7,8 @@
 
 import { Document, Packer, Paragraph, TextRun, ImageRun, AlignmentType, PageBreak } from 'docx';
 import { pdfConverterService, ExtractedPageContent } from './pdfConverter.service';
+import { AppError } from '../middleware/errorHandler';
+import { ProgressListener, WarningListener } from '../utils/progress';
 
 /**
  * Options for PDF to DOCX conversion
@@ -14,6 +16,9 @@ import { pdfConverterService, ExtractedPageContent } from './pdfConverter.servic
 export interface PdfToDocxOptions {
   includeImages?: boolean;
   preservePageBreaks?: boolean;
+  password?: string; // Password for encrypted PDFs
+  onProgress?: ProgressListener; // Called as pages are extracted and assembled
+  onWarning?: WarningListener; // Called for images that are skipped
 }
 
 /**
@@ -31,11 +36,11 @@ export class PdfToDocxService {
     pdfBuffer: Buffer,
     options: PdfToDocxOptions = {}
   ): Promise<Buffer> {
-    const { includeImages = true, preservePageBreaks = true } = options;
+    const { includeImages = true, preservePageBreaks = true, password, onProgress, onWarning } = options;
 
     try {
       // Extract content from PDF using existing service
-      const extractedContent = await pdfConverterService.extractPdfContent(pdfBuffer);
+      const extractedContent = await pdfConverterService.extractPdfContent(pdfBuffer, { password, onProgress, onWarning });
 
       if (!extractedContent || extractedContent.length === 0) {
         throw new Error('No content extracted from PDF');
@@ -45,7 +50,8 @@ export class PdfToDocxService {
       const docxChildren = await this.buildDocxContent(
         extractedContent,
         includeImages,
-        preservePageBreaks
+        preservePageBreaks,
+        { onProgress, onWarning }
       );
 
       // Create document
@@ -72,6 +78,9 @@ export class PdfToDocxService {
       return buffer;
 
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new Error(
         `PDF to DOCX conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -84,14 +93,18 @@ export class PdfToDocxService {
    * @param extractedContent - Array of extracted page content
    * @param includeImages - Whether to include images
    * @param preservePageBreaks - Whether to add page breaks between PDF pages
+   * @param listeners - Progress (one event per assembled page) and warning listeners
    * @returns Array of DOCX paragraphs
    */
   private async buildDocxContent(
     extractedContent: ExtractedPageContent[],
     includeImages: boolean,
-    preservePageBreaks: boolean
+    preservePageBreaks: boolean,
+    listeners: Pick<PdfToDocxOptions, 'onProgress' | 'onWarning'> = {}
   ): Promise<Paragraph[]> {
+    const { onProgress, onWarning } = listeners;
     const paragraphs: Paragraph[] = [];
+    onProgress?.({ stage: 'assemble', done: 0, total: extractedContent.length });
 
     for (let i = 0; i < extractedContent.length; i++) {
       const page = extractedContent[i];
@@ -129,6 +142,11 @@ export class PdfToDocxService {
             paragraphs.push(imageParagraph);
           } catch (error) {
             console.error(`Failed to embed image ${image.filename}:`, error);
+            onWarning?.({
+              stage: 'assemble',
+              page: page.pageNumber,
+              message: `Skipped image ${image.filename}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            });
             // Continue with other images
           }
         }
@@ -142,6 +160,8 @@ export class PdfToDocxService {
           })
         );
       }
+
+      onProgress?.({ stage: 'assemble', done: i + 1, total: extractedContent.length });
     }
 
     return paragraphs;
@@ -262,6 +282,9 @@ export class PdfToDocxService {
     if (options.preservePageBreaks !== undefined && typeof options.preservePageBreaks !== 'boolean') {
       throw new Error('preservePageBreaks must be a boolean');
     }
+    if (options.password !== undefined && typeof options.password !== 'string') {
+      throw new Error('password must be a string');
+    }
   }
 }
 
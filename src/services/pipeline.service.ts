@@ -0,0 +1,280 @@
+/**
+ * Pipeline Service
+ *
+ * Runs a recipe of operations over uploaded files in a single request, e.g.
+ * images-to-pdf, then page numbers, then document properties, then DOCX.
+ * Each operation is the registered converter of the same name. Intermediate
+ * files stay in memory and are handed from step to step. The whole recipe is
+ * parsed and the file types between steps are checked before the first step
+ * runs.
+ */
+
+import { env } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { validatePdfComplexity } from '../middleware/dosProtection';
+import { Artifact, ArtifactType, Conversion, runConversion } from '../converters/converterRegistry';
+import { converterRegistry, ConverterId } from '../converters/pdfConverters';
+
+/**
+ * Supported pipeline operations
+ */
+export const PIPELINE_OPERATIONS = [
+  'images-to-pdf',
+  'text-to-pdf',
+  'merge',
+  'split',
+  'organize',
+  'watermark',
+  'stamp',
+  'metadata',
+  'protect',
+  'unlock',
+  'fill-form',
+  'convert',
+  'thumbnail',
+  'pdf-to-docx',
+  'pdf-to-text',
+] as const satisfies readonly ConverterId[];
+
+export type PipelineOperation = typeof PIPELINE_OPERATIONS[number];
+
+/**
+ * Request-wide settings passed to every step
+ */
+export interface PipelineContext {
+  signal?: AbortSignal;         // Stops worker tasks, e.g. when the client disconnects
+  password?: string;            // Used to open encrypted PDFs (unlock, rendering and extraction)
+}
+
+/**
+ * A parsed step, ready to run
+ */
+export interface PipelineStep {
+  index: number;                // 0-based position in the recipe
+  operation: ConverterId;
+  conversion: Conversion;       // Prepared by the converter of the same name
+}
+
+/**
+ * Validation error for a single recipe step
+ */
+export interface RecipeStepError {
+  index: number;
+  operation?: unknown;
+  error: string;
+}
+
+/**
+ * Error thrown when one or more recipe steps are invalid or do not fit together
+ */
+export class PipelineRecipeError extends AppError {
+  constructor(public readonly errors: RecipeStepError[]) {
+    super(400, 'The pipeline recipe is invalid', true, errors);
+    this.name = 'PipelineRecipeError';
+  }
+}
+
+/**
+ * Maximum number of steps in a recipe
+ */
+const MAX_STEPS = 20;
+
+/**
+ * Convert recipe option values to the strings the endpoint parsers expect,
+ * as if they had been sent as form fields
+ */
+const toParams = (options: Record<string, unknown>): Record<string, string> => {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(options)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    params[key] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+  return params;
+};
+
+/**
+ * Pipeline Service Class
+ */
+export class PipelineService {
+  /**
+   * Parse a JSON recipe and check that each step accepts the files the
+   * previous step (or the upload) produces
+   *
+   * @param raw - JSON array, e.g. '[{"operation":"images-to-pdf"},{"operation":"pdf-to-docx"}]'
+   * @param inputTypes - Types of the uploaded files
+   * @returns Parsed steps
+   * @throws AppError if the JSON is malformed, PipelineRecipeError if a step
+   *   is invalid or does not accept its input
+   */
+  static parseRecipe(raw: string, inputTypes: ArtifactType[]): PipelineStep[] {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new AppError(400, 'Recipe must be a valid JSON array, e.g. [{"operation":"images-to-pdf"},{"operation":"pdf-to-docx"}]');
+    }
+
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+      throw new AppError(400, 'Recipe must be a non-empty JSON array of steps');
+    }
+
+    if (parsed.length > MAX_STEPS) {
+      throw new AppError(400, `Too many steps (${parsed.length}). Maximum allowed is ${MAX_STEPS}.`);
+    }
+
+    const errors: RecipeStepError[] = [];
+    const steps: PipelineStep[] = [];
+
+    // Types flowing into the next step; unknown after an invalid step
+    let types: ArtifactType[] | undefined = [...new Set(inputTypes)];
+
+    parsed.forEach((entry, index) => {
+      if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+        errors.push({ index, error: 'Step must be an object such as {"operation":"merge"}' });
+        types = undefined;
+        return;
+      }
+
+      const { operation, options = {}, ...rest } = entry as Record<string, unknown>;
+      const unknownKeys = Object.keys(rest);
+
+      if (unknownKeys.length > 0) {
+        errors.push({ index, operation, error: `Unknown field(s): ${unknownKeys.join(', ')}` });
+        types = undefined;
+        return;
+      }
+
+      if (typeof operation !== 'string' || !(PIPELINE_OPERATIONS as readonly string[]).includes(operation)) {
+        errors.push({ index, operation, error: `Unknown operation. Supported operations: ${PIPELINE_OPERATIONS.join(', ')}` });
+        types = undefined;
+        return;
+      }
+
+      if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+        errors.push({ index, operation, error: '"options" must be an object' });
+        types = undefined;
+        return;
+      }
+
+      const converter = converterRegistry.get(operation as PipelineOperation);
+
+      const rejected = types?.filter(type => !converter.from.includes(type));
+      if (rejected?.length) {
+        const source = index === 0 ? 'the uploaded files are' : 'the previous step produces';
+        errors.push({
+          index,
+          operation,
+          error: `Accepts ${converter.from.join(' or ')} files, but ${source} ${rejected.join(', ')}`,
+        });
+      }
+
+      try {
+        const conversion = converter.prepare(toParams(options as Record<string, unknown>));
+        steps.push({ index, operation: operation as PipelineOperation, conversion });
+        types = [...conversion.outputs];
+      } catch (error) {
+        errors.push({ index, operation, error: error instanceof Error ? error.message : String(error) });
+        types = undefined;
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new PipelineRecipeError(errors);
+    }
+
+    return steps;
+  }
+
+  /**
+   * Plan a conversion from one file type to another through the converter
+   * registry, using as many steps as the shortest path needs
+   *
+   * The same options are passed to every step and each converter reads the
+   * ones it declares; options that no step declares are rejected. The target
+   * type of each step takes the place of its format option.
+   *
+   * @param from - Type of the uploaded files
+   * @param to - Type of the result
+   * @param params - Raw option values (strings from the form or query)
+   * @returns Steps to pass to run()
+   * @throws Error if no path exists or an option is unknown or invalid
+   */
+  static planConversion(from: ArtifactType, to: ArtifactType, params: Record<string, unknown>): PipelineStep[] {
+    const hops = converterRegistry.findPath(from, to);
+
+    if (!hops) {
+      throw new Error(from === to
+        ? '"from" and "to" must be different file types'
+        : `No conversion from ${from} to ${to} is available`);
+    }
+
+    const declared = new Set(hops.flatMap(hop => hop.converter.options
+      .filter(option => option.type !== 'file' && option.name !== 'format')
+      .map(option => option.name)));
+    const unknownOptions = Object.keys(params).filter(name => !declared.has(name));
+
+    if (unknownOptions.length > 0) {
+      throw new Error(`Unknown option(s) for ${from} to ${to}: ${unknownOptions.join(', ')}`);
+    }
+
+    return hops.map((hop, index) => {
+      try {
+        return { index, operation: hop.id, conversion: hop.converter.prepare(params, hop.output) };
+      } catch (error) {
+        throw new Error(`${hop.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  }
+
+  /**
+   * Run parsed steps, each on the output of the previous one
+   *
+   * @param steps - Steps from parseRecipe
+   * @param inputs - Uploaded files
+   * @param context - Cancellation signal and password
+   * @param maxPages - Page limit of PDFs produced along the way
+   * @returns Files produced by the last step
+   * @throws AppError naming the failing step
+   */
+  async run(
+    steps: PipelineStep[],
+    inputs: Artifact[],
+    context: PipelineContext = {},
+    maxPages: number = env.UPLOAD_LIMITS.pipeline.maxPages
+  ): Promise<Artifact[]> {
+    let artifacts = inputs;
+
+    for (const step of steps) {
+      if (context.signal?.aborted) {
+        throw new Error('Pipeline was cancelled');
+      }
+
+      const label = `Step ${step.index + 1} (${step.operation})`;
+
+      try {
+        artifacts = await runConversion(step.conversion, artifacts, context);
+      } catch (error) {
+        if (error instanceof AppError) {
+          throw new AppError(error.statusCode, `${label}: ${error.message}`, error.isOperational, error.details);
+        }
+        throw error;
+      }
+
+      // Keep the page limit for documents assembled along the way
+      for (const artifact of artifacts.filter(artifact => artifact.type === 'pdf')) {
+        const complexity = await validatePdfComplexity(artifact.buffer, maxPages);
+        if (!complexity.valid) {
+          throw new AppError(400, `${label}: ${complexity.error || 'PDF is too complex to process'}`);
+        }
+      }
+    }
+
+    return artifacts;
+  }
+}
+
+// Export singleton instance
+export const pipelineService = new PipelineService();
@@ -0,0 +1,289 @@
+/**
+ * Stamp Service
+ *
+ * Stamps templated headers and footers onto PDF pages using pdf-lib.
+ * Templates support the following tokens:
+ * - {page}: page number
+ * - {total}: total number of pages
+ * - {filename}: source filename
+ * - {date}: stamping date (YYYY-MM-DD unless a date is given)
+ * - {bates}: Bates number (prefix + zero-padded counter)
+ */
+
+import { PDFDocument, PDFFont, PDFPage, RGB, degrees } from 'pdf-lib';
+import { AppError } from '../middleware/errorHandler';
+import {
+  STANDARD_FONT_NAMES,
+  getVisualPageSize,
+  originForCenter,
+  parseHexColor,
+  toPageAngle,
+  toPageCoordinates,
+} from '../utils/pdfLayout';
+
+/**
+ * Horizontal alignment of a header or footer
+ */
+export type StampAlignment = 'left' | 'center' | 'right';
+
+/**
+ * Bates numbering options
+ */
+export interface BatesOptions {
+  prefix?: string;
+  start?: number;
+  digits?: number;
+}
+
+/**
+ * Options for stamping headers and footers
+ */
+export interface StampOptions {
+  header?: string;
+  footer?: string;
+  headerAlign?: StampAlignment;
+  footerAlign?: StampAlignment;
+  font?: string;            // Key of STANDARD_FONT_NAMES
+  fontSize?: number;
+  color?: string;           // Hex color
+  marginX?: number;         // Distance from the left/right edges in points
+  marginY?: number;         // Distance from the top/bottom edges in points
+  skipFirstPage?: boolean;
+  filename?: string;
+  date?: string;
+  bates?: BatesOptions;
+}
+
+/**
+ * Default stamp options
+ */
+export const DEFAULT_STAMP_OPTIONS = {
+  headerAlign: 'center' as StampAlignment,
+  footerAlign: 'center' as StampAlignment,
+  font: 'helvetica',
+  fontSize: 10,
+  color: '#000000',
+  marginX: 36,
+  marginY: 24,
+  batesStart: 1,
+  batesDigits: 6,
+};
+
+const ALIGNMENTS: StampAlignment[] = ['left', 'center', 'right'];
+
+/**
+ * Stamp Service Class
+ */
+export class StampService {
+  /**
+   * Stamp headers and footers onto a PDF document
+   *
+   * @param pdfBuffer - PDF file buffer
+   * @param options - Stamp options
+   * @returns Stamped PDF document buffer
+   */
+  async stampPdf(pdfBuffer: Buffer, options: StampOptions): Promise<Buffer> {
+    try {
+      const pdfDoc = await PDFDocument.load(pdfBuffer);
+
+      await this.applyStamps(pdfDoc, options);
+
+      const pdfBytes = await pdfDoc.save();
+      return Buffer.from(pdfBytes);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(
+        `PDF stamping failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Stamp headers and footers onto an already loaded document
+   *
+   * Used directly by services that generate PDFs (e.g. text to PDF).
+   * {page} and {total} count every page; Bates numbers are only assigned
+   * to stamped pages, starting at the first stamped page.
+   *
+   * @param pdfDoc - PDF document to stamp in place
+   * @param options - Stamp options
+   */
+  async applyStamps(pdfDoc: PDFDocument, options: StampOptions): Promise<void> {
+    if (!options.header && !options.footer) {
+      return;
+    }
+
+    const font = await pdfDoc.embedFont(STANDARD_FONT_NAMES[options.font || DEFAULT_STAMP_OPTIONS.font]);
+    const fontSize = options.fontSize || DEFAULT_STAMP_OPTIONS.fontSize;
+    const color = parseHexColor(options.color || DEFAULT_STAMP_OPTIONS.color)!;
+    const pages = pdfDoc.getPages();
+    const date = options.date || new Date().toISOString().slice(0, 10);
+
+    const bates = options.bates;
+    const batesStart = bates?.start ?? DEFAULT_STAMP_OPTIONS.batesStart;
+    const batesDigits = bates?.digits ?? DEFAULT_STAMP_OPTIONS.batesDigits;
+    let batesCounter = batesStart;
+
+    pages.forEach((page, index) => {
+      if (options.skipFirstPage && index === 0) {
+        return;
+      }
+
+      const tokens: Record<string, string> = {
+        page: String(index + 1),
+        total: String(pages.length),
+        filename: options.filename || '',
+        date,
+        bates: `${bates?.prefix || ''}${String(batesCounter).padStart(batesDigits, '0')}`,
+      };
+
+      if (options.header) {
+        this.drawLine(page, this.renderTemplate(options.header, tokens), 'top',
+          options.headerAlign || DEFAULT_STAMP_OPTIONS.headerAlign, font, fontSize, color, options);
+      }
+      if (options.footer) {
+        this.drawLine(page, this.renderTemplate(options.footer, tokens), 'bottom',
+          options.footerAlign || DEFAULT_STAMP_OPTIONS.footerAlign, font, fontSize, color, options);
+      }
+
+      batesCounter++;
+    });
+  }
+
+  /**
+   * Replace {token} placeholders in a template; unknown tokens are left as-is
+   */
+  private renderTemplate(template: string, tokens: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => tokens[name] ?? match);
+  }
+
+  /**
+   * Draw a single line of text at the top or bottom of a page
+   */
+  private drawLine(
+    page: PDFPage,
+    text: string,
+    edge: 'top' | 'bottom',
+    align: StampAlignment,
+    font: PDFFont,
+    fontSize: number,
+    color: RGB,
+    options: StampOptions
+  ): void {
+    if (text === '') {
+      return;
+    }
+
+    let width: number;
+
+    try {
+      width = font.widthOfTextAtSize(text, fontSize);
+    } catch {
+      throw new AppError(400, 'Stamp text contains characters that are not supported by the standard PDF fonts');
+    }
+
+    const height = font.heightAtSize(fontSize, { descender: false });
+    const marginX = options.marginX ?? DEFAULT_STAMP_OPTIONS.marginX;
+    const marginY = options.marginY ?? DEFAULT_STAMP_OPTIONS.marginY;
+    const pageSize = getVisualPageSize(page);
+
+    const center = {
+      x: align === 'left'
+        ? marginX + width / 2
+        : align === 'right'
+          ? pageSize.width - marginX - width / 2
+          : pageSize.width / 2,
+      y: edge === 'top'
+        ? pageSize.height - marginY - height / 2
+        : marginY + height / 2,
+    };
+
+    const angle = toPageAngle(page, 0);
+    const origin = originForCenter(toPageCoordinates(page, center), width, height, angle);
+
+    page.drawText(text, {
+      x: origin.x,
+      y: origin.y,
+      size: fontSize,
+      font,
+      color,
+      rotate: degrees(angle),
+    });
+  }
+
+  /**
+   * Build stamp options from raw request parameters
+   *
+   * @param params - Raw parameter values (strings from the form or query)
+   * @returns Validated stamp options
+   * @throws Error if the parameters are missing or invalid
+   */
+  static parseOptions(params: Record<string, string | undefined>): StampOptions {
+    const header = params.header?.trim() || undefined;
+    const footer = params.footer?.trim() || undefined;
+
+    if (!header && !footer) {
+      throw new Error('Provide a "header" and/or "footer" template, e.g. "Page {page} of {total}"');
+    }
+
+    const number = (name: string, min: number, max: number, integer = false): number | undefined => {
+      const raw = params[name];
+      if (raw === undefined || raw.trim() === '') {
+        return undefined;
+      }
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+        throw new Error(`"${name}" must be a ${integer ? 'whole ' : ''}number between ${min} and ${max}`);
+      }
+      return value;
+    };
+
+    const alignment = (name: string): StampAlignment | undefined => {
+      const value = params[name]?.trim().toLowerCase();
+      if (!value) {
+        return undefined;
+      }
+      if (!ALIGNMENTS.includes(value as StampAlignment)) {
+        throw new Error(`"${name}" must be one of: ${ALIGNMENTS.join(', ')}`);
+      }
+      return value as StampAlignment;
+    };
+
+    const font = params.font?.trim().toLowerCase() || undefined;
+    if (font && !(font in STANDARD_FONT_NAMES)) {
+      throw new Error(`Invalid font. Supported fonts: ${Object.keys(STANDARD_FONT_NAMES).join(', ')}`);
+    }
+
+    const color = params.color?.trim() || undefined;
+    if (color && !parseHexColor(color)) {
+      throw new Error('"color" must be a hex color such as #000000');
+    }
+
+    const batesPrefix = params.batesPrefix;
+    const batesStart = number('batesStart', 0, Number.MAX_SAFE_INTEGER, true);
+    const batesDigits = number('batesDigits', 1, 20, true);
+    const bates = batesPrefix !== undefined || batesStart !== undefined || batesDigits !== undefined
+      ? { prefix: batesPrefix, start: batesStart, digits: batesDigits }
+      : undefined;
+
+    return {
+      header,
+      footer,
+      headerAlign: alignment('headerAlign'),
+      footerAlign: alignment('footerAlign'),
+      font,
+      fontSize: number('fontSize', 4, 72),
+      color,
+      marginX: number('marginX', 0, 500),
+      marginY: number('marginY', 0, 500),
+      skipFirstPage: params.skipFirstPage === 'true',
+      date: params.date?.trim() || undefined,
+      bates,
+    };
+  }
+}
+
+// Export singleton instance
+export const stampService = new StampService();
@@ -6,6 +6,9 @@
  */
 
 import { PDFDocument, StandardFonts, rgb, PageSizes, PDFFont } from 'pdf-lib';
+import { AppError } from '../middleware/errorHandler';
+import { stampService, StampOptions } from './stamp.service';
+import { pdfMetadataService, PdfMetadata } from './pdfMetadata.service';
 
 /**
  * Options for Text to PDF conversion
@@ -14,6 +17,8 @@ export interface TextToPdfOptions {
   fontSize?: number;
   lineHeight?: number;
   margin?: number;
+  stamp?: StampOptions; // Optional headers/footers (e.g. page numbers)
+  metadata?: PdfMetadata; // Optional document properties
 }
 
 /**
@@ -86,9 +91,20 @@ export class TextToPdfService {
         }
       }
 
+      if (options.stamp) {
+        await stampService.applyStamps(pdfDoc, options.stamp);
+      }
+
+      if (options.metadata) {
+        pdfMetadataService.applyMetadata(pdfDoc, options.metadata);
+      }
+
       const pdfBytes = await pdfDoc.save();
       return Buffer.from(pdfBytes);
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new Error(
         `PDF creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
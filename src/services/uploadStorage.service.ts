@@ -0,0 +1,132 @@
+/**
+ * Upload Storage Service
+ *
+ * Manages the temporary directory for uploads kept on disk
+ * (UPLOAD_STORAGE=disk). Files are written to UPLOAD_DIR while they are
+ * received and removed once the response has been sent or the connection
+ * has closed; files still present on shutdown are removed then. Files left
+ * behind by a previous process are removed when the directory is first used.
+ */
+
+import { randomBytes } from 'crypto';
+import { mkdir, readdir, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import { Request, Response } from 'express';
+import multer from 'multer';
+import { env } from '../config/env';
+
+/**
+ * Age after which files in UPLOAD_DIR are considered left behind; far longer
+ * than any request may take
+ */
+const STALE_UPLOAD_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Upload Storage Service Class
+ */
+export class UploadStorageService {
+  private ready?: Promise<string>;
+  private readonly files = new Set<string>();                   // Files written and not yet removed
+  private readonly requestFiles = new WeakMap<Request, string[]>(); // Files written for each request
+
+  /**
+   * Multer storage engine that writes uploads to UPLOAD_DIR
+   */
+  storage(): multer.StorageEngine {
+    return multer.diskStorage({
+      destination: (_req, _file, cb) => {
+        this.directory().then(dir => cb(null, dir), error => cb(error, ''));
+      },
+      filename: (req, _file, cb) => {
+        const name = randomBytes(16).toString('hex');
+        const path = join(env.UPLOAD_DIR, name);
+
+        this.files.add(path);
+        this.requestFiles.set(req, [...(this.requestFiles.get(req) || []), path]);
+        cb(null, name);
+      },
+    });
+  }
+
+  /**
+   * Create the upload directory on first use and remove stale files
+   *
+   * @returns The directory to write uploads to
+   */
+  private directory(): Promise<string> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await mkdir(env.UPLOAD_DIR, { recursive: true });
+        await this.sweep();
+        return env.UPLOAD_DIR;
+      })();
+
+      // Try again on the next upload if the directory could not be created
+      this.ready.catch(() => {
+        this.ready = undefined;
+      });
+    }
+
+    return this.ready;
+  }
+
+  /**
+   * Remove the files of a request once its response has finished or its
+   * connection has closed (e.g. after an error or a client disconnect),
+   * including files that were still being received
+   */
+  cleanupAfter(req: Request, res: Response): void {
+    let cleanedUp = false;
+    const cleanup = () => {
+      if (cleanedUp) return;
+      cleanedUp = true;
+
+      const paths = this.requestFiles.get(req) || [];
+      this.requestFiles.delete(req);
+      void Promise.all(paths.map(path => this.remove(path)));
+    };
+
+    res.on('finish', cleanup);
+    res.on('close', cleanup);
+  }
+
+  /**
+   * Remove all files that have not been removed yet, e.g. of requests that
+   * are still being processed
+   */
+  async shutdown(): Promise<void> {
+    await Promise.all([...this.files].map(path => this.remove(path)));
+  }
+
+  /**
+   * Remove one file, ignoring files that are already gone
+   */
+  private async remove(path: string): Promise<void> {
+    try {
+      await rm(path, { force: true });
+    } catch (error) {
+      console.error('Failed to remove upload:', path, error);
+    } finally {
+      this.files.delete(path);
+    }
+  }
+
+  /**
+   * Remove files older than STALE_UPLOAD_MS, e.g. left behind by a process
+   * that did not shut down cleanly
+   */
+  private async sweep(): Promise<void> {
+    const now = Date.now();
+
+    for (const file of await readdir(env.UPLOAD_DIR)) {
+      const path = join(env.UPLOAD_DIR, file);
+      const info = await stat(path).catch(() => undefined);
+      if (info?.isFile() && now - info.mtimeMs > STALE_UPLOAD_MS) {
+        await rm(path, { force: true });
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const uploadStorageService = new UploadStorageService();
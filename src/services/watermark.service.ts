@@ -0,0 +1,316 @@
+/**
+ * Watermark Service
+ *
+ * Stamps a text or image watermark onto the pages of a PDF using pdf-lib.
+ * Watermarks can be placed at an anchor position or tiled across the page,
+ * and are positioned as seen by the reader, even on rotated pages.
+ */
+
+import { PDFDocument, PDFPage, PDFFont, PDFImage, RGB, degrees } from 'pdf-lib';
+import { AppError } from '../middleware/errorHandler';
+import { expandPageRanges, parsePageRanges } from '../utils/pageRanges';
+import {
+  PagePosition,
+  PAGE_POSITIONS,
+  STANDARD_FONT_NAMES,
+  anchorCenter,
+  getVisualPageSize,
+  originForCenter,
+  parseHexColor,
+  rotatedBounds,
+  toPageAngle,
+  toPageCoordinates,
+} from '../utils/pdfLayout';
+
+/**
+ * Watermark placement: an anchor position or tiled across the page
+ */
+export type WatermarkPosition = PagePosition | 'tile';
+
+/**
+ * Options shared by text and image watermarks
+ */
+interface BaseWatermarkOptions {
+  opacity: number;      // 0-1
+  rotation: number;     // Counter-clockwise degrees, as seen by the reader
+  position: WatermarkPosition;
+  margin: number;       // Distance from page edges for anchored positions
+  pages?: string;       // Page range spec (e.g. "1-3,5-end"), default all pages
+}
+
+/**
+ * Text watermark options
+ */
+export interface TextWatermarkOptions extends BaseWatermarkOptions {
+  type: 'text';
+  text: string;
+  fontSize: number;
+  font: string;         // Key of STANDARD_FONT_NAMES
+  color: string;        // Hex color
+}
+
+/**
+ * Image watermark options
+ */
+export interface ImageWatermarkOptions extends BaseWatermarkOptions {
+  type: 'image';
+  image: Buffer;
+  mimetype: string;
+  scale: number;        // Image width as a fraction of the page width
+}
+
+export type WatermarkOptions = TextWatermarkOptions | ImageWatermarkOptions;
+
+/**
+ * Prepared watermark content, embedded once and drawn on every page
+ */
+type WatermarkContent =
+  | { kind: 'text'; text: string; font: PDFFont; fontSize: number; color: RGB; width: number; height: number }
+  | { kind: 'image'; image: PDFImage };
+
+/**
+ * Default watermark options
+ */
+export const DEFAULT_WATERMARK_OPTIONS = {
+  opacity: 0.3,
+  rotation: 45,
+  position: 'center' as WatermarkPosition,
+  margin: 36,
+  fontSize: 48,
+  font: 'helvetica-bold',
+  color: '#808080',
+  scale: 0.5,
+};
+
+/**
+ * Gap between tiles, as a fraction of the tile size
+ */
+const TILE_GAP = 0.5;
+
+/**
+ * Watermark Service Class
+ */
+export class WatermarkService {
+  /**
+   * Apply a watermark to a PDF document
+   *
+   * @param pdfBuffer - PDF file buffer
+   * @param options - Watermark options
+   * @returns Watermarked PDF document buffer
+   */
+  async watermarkPdf(pdfBuffer: Buffer, options: WatermarkOptions): Promise<Buffer> {
+    try {
+      const pdfDoc = await PDFDocument.load(pdfBuffer);
+      const pages = pdfDoc.getPages();
+
+      const pageNumbers = options.pages
+        ? expandPageRanges(parsePageRanges(options.pages, pages.length))
+        : pages.map((_, index) => index + 1);
+
+      const content = await this.embedContent(pdfDoc, options);
+
+      for (const pageNumber of pageNumbers) {
+        this.drawOnPage(pages[pageNumber - 1], content, options);
+      }
+
+      const pdfBytes = await pdfDoc.save();
+      return Buffer.from(pdfBytes);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(
+        `PDF watermark failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Embed the watermark font or image into the document
+   */
+  private async embedContent(pdfDoc: PDFDocument, options: WatermarkOptions): Promise<WatermarkContent> {
+    if (options.type === 'image') {
+      const image = options.mimetype === 'image/png'
+        ? await pdfDoc.embedPng(options.image)
+        : await pdfDoc.embedJpg(options.image);
+
+      return { kind: 'image', image };
+    }
+
+    const font = await pdfDoc.embedFont(STANDARD_FONT_NAMES[options.font]);
+    let width: number;
+
+    try {
+      width = font.widthOfTextAtSize(options.text, options.fontSize);
+    } catch {
+      throw new AppError(400, 'Watermark text contains characters that are not supported by the standard PDF fonts');
+    }
+
+    return {
+      kind: 'text',
+      text: options.text,
+      font,
+      fontSize: options.fontSize,
+      color: parseHexColor(options.color)!,
+      width,
+      height: font.heightAtSize(options.fontSize, { descender: false }),
+    };
+  }
+
+  /**
+   * Draw the watermark on a single page
+   */
+  private drawOnPage(page: PDFPage, content: WatermarkContent, options: WatermarkOptions): void {
+    const pageSize = getVisualPageSize(page);
+    const size = content.kind === 'text'
+      ? { width: content.width, height: content.height }
+      : this.imageSize(content.image, pageSize.width, (options as ImageWatermarkOptions).scale);
+
+    const bounds = rotatedBounds(size.width, size.height, options.rotation);
+
+    const centers = options.position === 'tile'
+      ? this.tileCenters(pageSize, bounds)
+      : [anchorCenter(pageSize, bounds, options.position, options.margin)];
+
+    const angle = toPageAngle(page, options.rotation);
+
+    for (const center of centers) {
+      const origin = originForCenter(toPageCoordinates(page, center), size.width, size.height, angle);
+
+      if (content.kind === 'text') {
+        page.drawText(content.text, {
+          x: origin.x,
+          y: origin.y,
+          size: content.fontSize,
+          font: content.font,
+          color: content.color,
+          opacity: options.opacity,
+          rotate: degrees(angle),
+        });
+      } else {
+        page.drawImage(content.image, {
+          x: origin.x,
+          y: origin.y,
+          width: size.width,
+          height: size.height,
+          opacity: options.opacity,
+          rotate: degrees(angle),
+        });
+      }
+    }
+  }
+
+  /**
+   * Scale an image to a fraction of the page width, keeping its aspect ratio
+   */
+  private imageSize(image: PDFImage, pageWidth: number, scale: number): { width: number; height: number } {
+    const width = pageWidth * scale;
+    return { width, height: (image.height / image.width) * width };
+  }
+
+  /**
+   * Compute tile centers covering the whole displayed page
+   */
+  private tileCenters(
+    pageSize: { width: number; height: number },
+    bounds: { width: number; height: number }
+  ): Array<{ x: number; y: number }> {
+    const stepX = Math.max(bounds.width * (1 + TILE_GAP), 1);
+    const stepY = Math.max(bounds.height * (1 + TILE_GAP), 1);
+    const centers: Array<{ x: number; y: number }> = [];
+
+    // Grid centered on the page, extended past the edges so partial tiles cover them
+    const columns = Math.ceil(pageSize.width / 2 / stepX);
+    const rows = Math.ceil(pageSize.height / 2 / stepY);
+
+    for (let row = -rows; row <= rows; row++) {
+      for (let column = -columns; column <= columns; column++) {
+        centers.push({
+          x: pageSize.width / 2 + column * stepX,
+          y: pageSize.height / 2 + row * stepY,
+        });
+      }
+    }
+
+    return centers;
+  }
+
+  /**
+   * Build watermark options from raw request parameters
+   *
+   * @param params - Raw parameter values (strings from the form or query)
+   * @param image - Optional uploaded watermark image
+   * @returns Validated watermark options
+   * @throws Error if the parameters are missing or invalid
+   */
+  static parseOptions(
+    params: Record<string, string | undefined>,
+    image?: { buffer: Buffer; mimetype: string }
+  ): WatermarkOptions {
+    const text = params.text?.trim();
+
+    if (!text && !image) {
+      throw new Error('Provide either watermark text in the "text" field or an image in the "image" field');
+    }
+    if (text && image) {
+      throw new Error('Provide either watermark text or an image, not both');
+    }
+
+    const number = (name: string, fallback: number, min: number, max: number): number => {
+      const raw = params[name];
+      if (raw === undefined || raw.trim() === '') {
+        return fallback;
+      }
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value < min || value > max) {
+        throw new Error(`"${name}" must be a number between ${min} and ${max}`);
+      }
+      return value;
+    };
+
+    const position = (params.position?.trim().toLowerCase() || DEFAULT_WATERMARK_OPTIONS.position) as WatermarkPosition;
+    if (position !== 'tile' && !PAGE_POSITIONS.includes(position)) {
+      throw new Error(`Invalid position. Supported positions: ${[...PAGE_POSITIONS, 'tile'].join(', ')}`);
+    }
+
+    const base: BaseWatermarkOptions = {
+      opacity: number('opacity', DEFAULT_WATERMARK_OPTIONS.opacity, 0, 1),
+      rotation: number('rotation', DEFAULT_WATERMARK_OPTIONS.rotation, -360, 360),
+      position,
+      margin: number('margin', DEFAULT_WATERMARK_OPTIONS.margin, 0, 1000),
+      pages: params.pages?.trim() || undefined,
+    };
+
+    if (image) {
+      return {
+        ...base,
+        type: 'image',
+        image: image.buffer,
+        mimetype: image.mimetype,
+        scale: number('scale', DEFAULT_WATERMARK_OPTIONS.scale, 0.01, 1),
+      };
+    }
+
+    const font = params.font?.trim().toLowerCase() || DEFAULT_WATERMARK_OPTIONS.font;
+    if (!(font in STANDARD_FONT_NAMES)) {
+      throw new Error(`Invalid font. Supported fonts: ${Object.keys(STANDARD_FONT_NAMES).join(', ')}`);
+    }
+
+    const color = params.color?.trim() || DEFAULT_WATERMARK_OPTIONS.color;
+    if (!parseHexColor(color)) {
+      throw new Error('"color" must be a hex color such as #ff0000');
+    }
+
+    return {
+      ...base,
+      type: 'text',
+      text: text!,
+      fontSize: number('fontSize', DEFAULT_WATERMARK_OPTIONS.fontSize, 4, 400),
+      font,
+      color,
+    };
+  }
+}
+
+// Export singleton instance
+export const watermarkService = new WatermarkService();
@@ -0,0 +1,324 @@
+/**
+ * Webhook Service
+ *
+ * Delivers signed JSON notifications to client-supplied callback URLs.
+ * Each payload is signed with HMAC-SHA256 using WEBHOOK_SECRET; failed
+ * deliveries are retried with exponential backoff and every attempt is
+ * recorded on the delivery. Callbacks to private, loopback and link-local
+ * addresses are refused unless they are allowed explicitly, both when the URL
+ * is submitted and when each attempt connects, so a host name cannot be
+ * pointed at an internal address after it was checked.
+ */
+
+import { createHmac, randomUUID } from 'crypto';
+import { lookup as dnsLookup, promises as dns } from 'dns';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { env } from '../config/env';
+
+/**
+ * A single delivery attempt
+ */
+export interface WebhookAttempt {
+  attempt: number;              // 1-based
+  sentAt: Date;
+  durationMs: number;
+  statusCode?: number;          // Response status, if the receiver answered
+  error?: string;               // Network error, timeout, or abort on shutdown
+}
+
+/**
+ * State of a webhook delivery
+ */
+export interface WebhookDelivery {
+  id: string;                   // Sent as X-Webhook-Id; the same for all attempts
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: WebhookAttempt[];
+}
+
+/**
+ * Response statuses that are retried; other 4xx responses are final
+ */
+const RETRYABLE_CLIENT_ERRORS = [408, 429];
+
+/**
+ * Addresses callbacks may not point to unless allowed: private networks,
+ * loopback, link-local (including cloud metadata services) and unspecified
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');        // RFC 1918
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');     // Carrier-grade NAT
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');       // Loopback
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');    // Link-local
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');     // RFC 1918
+PRIVATE_ADDRESSES.addSubnet('192.0.0.0', 24, 'ipv4');      // IETF protocol assignments
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');    // RFC 1918
+PRIVATE_ADDRESSES.addSubnet('198.18.0.0', 15, 'ipv4');     // Benchmarking
+PRIVATE_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4');       // Multicast and reserved
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');               // Loopback
+PRIVATE_ADDRESSES.addSubnet('64:ff9b::', 96, 'ipv6');      // NAT64, embeds an IPv4 address
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');          // Unique local
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');         // Link-local
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not
+ * publicly routable (IPv4-mapped IPv6 addresses are checked as IPv4)
+ */
+const isPrivateAddress = (address: string): boolean =>
+  PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+/**
+ * DNS lookup for webhook connections that fails for private addresses
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      callback(new Error(`${hostname} resolves to private address ${blocked.address}`), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Webhook Service Class
+ */
+export class WebhookService {
+  // Pending retry timers with the resolve of their wait, settled on shutdown
+  private timers = new Map<NodeJS.Timeout, () => void>();
+  private stopped = false;
+
+  /**
+   * Parse and validate a callback URL
+   *
+   * Hosts that resolve to private, loopback, link-local or reserved addresses are only
+   * accepted with WEBHOOK_ALLOW_PRIVATE or when listed in WEBHOOK_ALLOWED_HOSTS.
+   *
+   * @param value - callbackUrl parameter
+   * @returns The URL, or undefined if none was given
+   * @throws Error if the URL is invalid, its host is not allowed or no secret is configured
+   */
+  static async parseCallbackUrl(value: unknown): Promise<string | undefined> {
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+
+    if (!env.WEBHOOK_SECRET) {
+      throw new Error('callbackUrl is not available: webhooks are not configured on this server');
+    }
+
+    let url: URL;
+    try {
+      url = new URL(String(value));
+    } catch {
+      throw new Error('Invalid callbackUrl. Please provide an absolute http or https URL.');
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error('Invalid callbackUrl. Please provide an absolute http or https URL.');
+    }
+    if (url.username || url.password) {
+      throw new Error('Invalid callbackUrl. Credentials in the URL are not allowed.');
+    }
+
+    const allowedHosts = WebhookService.allowedHosts();
+    if (allowedHosts.length && !allowedHosts.includes(url.hostname.toLowerCase())) {
+      throw new Error(`callbackUrl host "${url.hostname}" is not allowed`);
+    }
+
+    if (WebhookService.checksAddresses(url)) {
+      const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+      let addresses: string[];
+      try {
+        addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map(({ address }) => address);
+      } catch {
+        throw new Error(`callbackUrl host "${url.hostname}" could not be resolved`);
+      }
+
+      if (addresses.some(isPrivateAddress)) {
+        throw new Error(`callbackUrl host "${url.hostname}" is a private, loopback, link-local or reserved address`);
+      }
+    }
+
+    return url.toString();
+  }
+
+  /**
+   * Hosts listed in WEBHOOK_ALLOWED_HOSTS, lowercased
+   */
+  private static allowedHosts(): string[] {
+    return env.WEBHOOK_ALLOWED_HOSTS?.split(',').map(host => host.trim().toLowerCase()).filter(Boolean) ?? [];
+  }
+
+  /**
+   * Whether the addresses of a callback URL must be public: unless
+   * WEBHOOK_ALLOW_PRIVATE is set or its host is listed in WEBHOOK_ALLOWED_HOSTS
+   */
+  private static checksAddresses(url: URL): boolean {
+    return !env.WEBHOOK_ALLOW_PRIVATE && !WebhookService.allowedHosts().includes(url.hostname.toLowerCase());
+  }
+
+  /**
+   * Compute the signature of a payload
+   *
+   * The timestamp is signed with the body, so a captured request cannot be
+   * replayed later with a fresh timestamp.
+   *
+   * @param body - Raw JSON body
+   * @param timestamp - Unix time in seconds, as sent in X-Webhook-Timestamp
+   * @param secret - Shared secret
+   * @returns Signature as sent in X-Webhook-Signature ("sha256=<hex>")
+   */
+  static sign(body: string, timestamp: number, secret: string): string {
+    const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `sha256=${digest}`;
+  }
+
+  /**
+   * Create a delivery record for a callback URL
+   */
+  createDelivery(url: string): WebhookDelivery {
+    return { id: randomUUID(), url, status: 'pending', attempts: [] };
+  }
+
+  /**
+   * Deliver a payload in the background, retrying with exponential backoff
+   *
+   * @param delivery - Delivery record; attempts and the final status are written to it
+   * @param payload - JSON payload
+   * @returns Resolves when the delivery has succeeded, was given up or was
+   *   aborted by shutdown
+   */
+  async deliver(delivery: WebhookDelivery, payload: unknown): Promise<void> {
+    const body = JSON.stringify(payload);
+
+    for (let attempt = 1; attempt <= env.WEBHOOK_MAX_ATTEMPTS; attempt++) {
+      if (this.stopped) {
+        // Record the attempt that will not be made, so the delivery shows why it stopped
+        delivery.attempts.push({ attempt, sentAt: new Date(), durationMs: 0, error: 'Aborted: the server is shutting down' });
+        break;
+      }
+
+      const result = await this.send(delivery, body, attempt);
+      delivery.attempts.push(result);
+
+      if (result.statusCode !== undefined && result.statusCode >= 200 && result.statusCode < 300) {
+        delivery.status = 'delivered';
+        return;
+      }
+
+      const retryable = result.statusCode === undefined ||
+        result.statusCode >= 500 ||
+        RETRYABLE_CLIENT_ERRORS.includes(result.statusCode);
+
+      if (!retryable || attempt === env.WEBHOOK_MAX_ATTEMPTS) {
+        break;
+      }
+
+      await this.wait(env.WEBHOOK_RETRY_DELAY_MS * 2 ** (attempt - 1));
+    }
+
+    delivery.status = 'failed';
+    console.warn(`Webhook ${delivery.id} to ${delivery.url} failed after ${delivery.attempts.length} attempt(s)`);
+  }
+
+  /**
+   * Stop retrying pending deliveries
+   *
+   * Deliveries waiting for a retry end right away as failed, with an aborted
+   * attempt; attempts in progress end within WEBHOOK_TIMEOUT_MS.
+   */
+  shutdown(): void {
+    this.stopped = true;
+    for (const [timer, resolve] of this.timers) {
+      clearTimeout(timer);
+      resolve();
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Send one attempt
+   *
+   * Sent with http(s).request rather than fetch, so the addresses the host
+   * resolves to can be checked on the connection that is actually made.
+   */
+  private send(delivery: WebhookDelivery, body: string, attempt: number): Promise<WebhookAttempt> {
+    const sentAt = new Date();
+    const timestamp = Math.floor(sentAt.getTime() / 1000);
+    const url = new URL(delivery.url);
+    const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+    const result = (outcome: Pick<WebhookAttempt, 'statusCode' | 'error'>): WebhookAttempt => ({
+      attempt,
+      sentAt,
+      durationMs: Date.now() - sentAt.getTime(),
+      ...outcome,
+    });
+
+    return new Promise(resolve => {
+      // Redirects are not followed, as they could point to hosts that are not allowed
+      const req = request(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body),
+          'User-Agent': 'pdf-converter-webhook/1.0',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Attempt': String(attempt),
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': WebhookService.sign(body, timestamp, env.WEBHOOK_SECRET ?? ''),
+        },
+        lookup: WebhookService.checksAddresses(url) ? publicLookup : undefined,
+        signal: AbortSignal.timeout(env.WEBHOOK_TIMEOUT_MS),
+      }, response => {
+        // Release the connection; the response body is not used
+        response.resume();
+        resolve(result({ statusCode: response.statusCode }));
+      });
+
+      req.on('error', error => {
+        // Timeouts are reported as an abort with the timeout as cause
+        resolve(result({ error: error.cause instanceof Error ? error.cause.message : error.message }));
+      });
+      req.end(body);
+    });
+  }
+
+  /**
+   * Wait before the next attempt (does not keep the process alive); resolves
+   * early on shutdown
+   */
+  private wait(ms: number): Promise<void> {
+    if (this.stopped) {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        resolve();
+      }, ms);
+      timer.unref();
+      this.timers.set(timer, resolve);
+    });
+  }
+}
+
+// Export singleton instance
+export const webhookService = new WebhookService();
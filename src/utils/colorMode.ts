@@ -0,0 +1,127 @@
+/**
+ * Color Mode Utility
+ *
+ * Converts rendered RGBA pixels to grayscale or black and white, and parses
+ * page background colors. Alpha is left untouched so that transparent
+ * backgrounds survive the conversion.
+ */
+
+/**
+ * Supported color modes
+ */
+export const COLOR_MODES = ['color', 'grayscale', 'bw'] as const;
+
+export type ColorMode = typeof COLOR_MODES[number];
+
+/**
+ * Options for the black and white conversion
+ */
+export interface BilevelOptions {
+    threshold?: number;  // Gray level (0-255) below which a pixel becomes black, default 128
+    dither?: boolean;    // Floyd-Steinberg error diffusion instead of a hard threshold
+}
+
+/**
+ * Default black and white threshold
+ */
+export const DEFAULT_THRESHOLD = 128;
+
+/**
+ * Fully transparent canvas fill style
+ */
+export const TRANSPARENT_BACKGROUND = 'rgba(0,0,0,0)';
+
+/**
+ * Parse a background specification
+ *
+ * @param value - "white", "transparent", "#rgb" or "#rrggbb"
+ * @returns Canvas fill style (lowercase hex color or TRANSPARENT_BACKGROUND)
+ * @throws Error if the value is not supported
+ */
+export const parseBackground = (value: string): string => {
+    const normalized = value.trim().toLowerCase();
+
+    if (normalized === 'white') {
+        return '#ffffff';
+    }
+    if (normalized === 'transparent') {
+        return TRANSPARENT_BACKGROUND;
+    }
+    if (/^#[0-9a-f]{6}$/.test(normalized)) {
+        return normalized;
+    }
+    if (/^#[0-9a-f]{3}$/.test(normalized)) {
+        return `#${normalized.slice(1).split('').map(digit => digit + digit).join('')}`;
+    }
+
+    throw new Error(`Invalid background "${value}". Use white, transparent or a hex color such as #f0f0f0`);
+};
+
+/**
+ * Gray level of a pixel (ITU-R BT.601 luma)
+ */
+const luma = (data: Uint8ClampedArray, offset: number): number =>
+    (299 * data[offset] + 587 * data[offset + 1] + 114 * data[offset + 2]) / 1000;
+
+/**
+ * Apply a color mode to RGBA pixels in place
+ *
+ * @param data - RGBA pixels (e.g. canvas ImageData)
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @param colorMode - Target color mode
+ * @param options - Threshold and dithering for black and white
+ */
+export const applyColorMode = (
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    colorMode: ColorMode,
+    options: BilevelOptions = {}
+): void => {
+    if (colorMode === 'color') {
+        return;
+    }
+
+    const pixelCount = width * height;
+
+    if (colorMode === 'grayscale') {
+        for (let i = 0, p = 0; i < pixelCount; i++, p += 4) {
+            data[p] = data[p + 1] = data[p + 2] = Math.round(luma(data, p));
+        }
+        return;
+    }
+
+    const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+
+    if (!options.dither) {
+        for (let i = 0, p = 0; i < pixelCount; i++, p += 4) {
+            data[p] = data[p + 1] = data[p + 2] = luma(data, p) < threshold ? 0 : 255;
+        }
+        return;
+    }
+
+    // Floyd-Steinberg: diffuse the quantization error to unvisited neighbours
+    const gray = new Float32Array(pixelCount);
+    for (let i = 0, p = 0; i < pixelCount; i++, p += 4) {
+        gray[i] = luma(data, p);
+    }
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            const value = gray[i] < threshold ? 0 : 255;
+            const error = gray[i] - value;
+
+            if (x + 1 < width) gray[i + 1] += error * 7 / 16;
+            if (y + 1 < height) {
+                if (x > 0) gray[i + width - 1] += error * 3 / 16;
+                gray[i + width] += error * 5 / 16;
+                if (x + 1 < width) gray[i + width + 1] += error * 1 / 16;
+            }
+
+            const p = i * 4;
+            data[p] = data[p + 1] = data[p + 2] = value;
+        }
+    }
+};
@@ -0,0 +1,116 @@
+/**
+ * Page Range Utility
+ *
+ * Parses page range specifications such as "1-3,4,5-end" into
+ * validated, 1-based inclusive page ranges.
+ */
+
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Inclusive page range (1-based)
+ */
+export interface PageRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Error thrown when a page range specification is invalid
+ */
+export class PageRangeError extends AppError {
+    constructor(message: string) {
+        super(400, message);
+        this.name = 'PageRangeError';
+    }
+}
+
+/**
+ * Parse a single page reference ("3", "end")
+ *
+ * @param token - Page reference
+ * @param pageCount - Number of pages in the document
+ * @returns 1-based page number
+ */
+const parsePageNumber = (token: string, pageCount: number): number => {
+    const normalized = token.trim().toLowerCase();
+
+    if (normalized === 'end' || normalized === 'last') {
+        return pageCount;
+    }
+
+    if (!/^\d+$/.test(normalized)) {
+        throw new PageRangeError(`Invalid page number: "${token.trim()}"`);
+    }
+
+    return parseInt(normalized, 10);
+};
+
+/**
+ * Parse a page range specification
+ *
+ * @param spec - Comma-separated ranges, e.g. "1-3,4,5-end"
+ * @param pageCount - Number of pages in the document
+ * @returns Ranges in the order they were specified
+ * @throws PageRangeError if the specification is invalid or out of bounds
+ */
+export const parsePageRanges = (spec: string, pageCount: number): PageRange[] => {
+    const parts = spec.split(',').map(part => part.trim()).filter(part => part !== '');
+
+    if (parts.length === 0) {
+        throw new PageRangeError('Page range specification is empty');
+    }
+
+    return parts.map((part) => {
+        const bounds = part.split('-');
+
+        if (bounds.length > 2) {
+            throw new PageRangeError(`Invalid page range: "${part}"`);
+        }
+
+        const start = parsePageNumber(bounds[0], pageCount);
+        const end = bounds.length === 2 ? parsePageNumber(bounds[1], pageCount) : start;
+
+        if (start < 1 || end < 1) {
+            throw new PageRangeError(`Invalid page range "${part}": pages start at 1`);
+        }
+        if (start > end) {
+            throw new PageRangeError(`Invalid page range "${part}": start page is after end page`);
+        }
+        if (end > pageCount) {
+            throw new PageRangeError(
+                `Invalid page range "${part}": document has only ${pageCount} page${pageCount === 1 ? '' : 's'}`
+            );
+        }
+
+        return { start, end };
+    });
+};
+
+/**
+ * Expand ranges into a list of page numbers (duplicates removed, original order kept)
+ *
+ * @param ranges - Page ranges
+ * @returns 1-based page numbers
+ */
+export const expandPageRanges = (ranges: PageRange[]): number[] => {
+    const pages = new Set<number>();
+
+    for (const range of ranges) {
+        for (let page = range.start; page <= range.end; page++) {
+            pages.add(page);
+        }
+    }
+
+    return Array.from(pages);
+};
+
+/**
+ * Format a range for use in filenames and messages ("3" or "1-3")
+ *
+ * @param range - Page range
+ * @returns Formatted range
+ */
+export const formatPageRange = (range: PageRange): string => {
+    return range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`;
+};
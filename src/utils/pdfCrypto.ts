@@ -0,0 +1,441 @@
+/**
+ * PDF Crypto Utility
+ *
+ * Primitives of the PDF standard security handler (ISO 32000-2, section 7.6.4):
+ * - Revision 3/4 (RC4-128 and AES-128) key, /O and /U computation
+ * - Revision 5/6 (AES-256) password hashing and /O, /U, /OE, /UE, /Perms values
+ * - Per-object RC4 and AES encryption and decryption
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * Password padding string (Algorithm 2, step a)
+ */
+const PASSWORD_PADDING = Buffer.from([
+    0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+    0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+/**
+ * Permission flags (bit positions are 1-based in the specification)
+ */
+export const PERMISSION_BITS = {
+    print: 1 << 2,
+    modify: 1 << 3,
+    copy: 1 << 4,
+    annotate: 1 << 5,
+    fillForms: 1 << 8,
+    accessibility: 1 << 9,
+    assemble: 1 << 10,
+    printHighQuality: 1 << 11,
+} as const;
+
+export type PdfPermission = keyof typeof PERMISSION_BITS;
+
+/**
+ * Reserved bits that must be set (7-8 and 13-32)
+ */
+const RESERVED_PERMISSION_BITS = 0xfffff0c0;
+
+/**
+ * Build the /P value for a set of allowed permissions
+ *
+ * @param allowed - Permissions granted to users who open the document with the user password
+ * @returns Signed 32-bit permission value
+ */
+export const buildPermissions = (allowed: PdfPermission[]): number => {
+    let value = RESERVED_PERMISSION_BITS;
+    for (const permission of allowed) {
+        value |= PERMISSION_BITS[permission];
+    }
+    return value | 0;
+};
+
+/**
+ * RC4 stream cipher (not available in OpenSSL 3 without the legacy provider)
+ */
+export const rc4 = (key: Buffer, data: Buffer): Buffer => {
+    const state = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) {
+        state[i] = i;
+    }
+
+    for (let i = 0, j = 0; i < 256; i++) {
+        j = (j + state[i] + key[i % key.length]) & 0xff;
+        [state[i], state[j]] = [state[j], state[i]];
+    }
+
+    const output = Buffer.alloc(data.length);
+    for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+        i = (i + 1) & 0xff;
+        j = (j + state[i]) & 0xff;
+        [state[i], state[j]] = [state[j], state[i]];
+        output[n] = data[n] ^ state[(state[i] + state[j]) & 0xff];
+    }
+
+    return output;
+};
+
+const md5 = (...parts: Buffer[]): Buffer => {
+    const hash = createHash('md5');
+    parts.forEach(part => hash.update(part));
+    return hash.digest();
+};
+
+const xorKey = (key: Buffer, value: number): Buffer => {
+    return Buffer.from(key.map(byte => byte ^ value));
+};
+
+const int32LE = (value: number): Buffer => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeInt32LE(value);
+    return buffer;
+};
+
+/**
+ * Pad or truncate a password to 32 bytes (Algorithm 2, step a)
+ */
+const padPassword = (password: Buffer): Buffer => {
+    return Buffer.concat([password.subarray(0, 32), PASSWORD_PADDING]).subarray(0, 32);
+};
+
+// ============================================
+// REVISION 2-4 (RC4 / AES-128)
+// ============================================
+
+/**
+ * Parameters of a revision 2-4 security handler
+ */
+export interface LegacyHandlerParams {
+    revision: number;
+    keyLength: number;          // File key length in bytes (5-16)
+    ownerValue: Buffer;         // /O
+    userValue: Buffer;          // /U
+    permissions: number;        // /P
+    documentId: Buffer;         // First element of the trailer /ID
+    encryptMetadata: boolean;
+}
+
+/**
+ * Compute the file encryption key from a user password (Algorithm 2)
+ */
+export const computeLegacyFileKey = (password: Buffer, params: LegacyHandlerParams): Buffer => {
+    const parts = [
+        padPassword(password),
+        params.ownerValue.subarray(0, 32),
+        int32LE(params.permissions),
+        params.documentId,
+    ];
+
+    if (params.revision >= 4 && !params.encryptMetadata) {
+        parts.push(Buffer.from([0xff, 0xff, 0xff, 0xff]));
+    }
+
+    let key = md5(...parts);
+
+    if (params.revision >= 3) {
+        for (let i = 0; i < 50; i++) {
+            key = md5(key.subarray(0, params.keyLength));
+        }
+    }
+
+    return key.subarray(0, params.keyLength);
+};
+
+/**
+ * Compute the RC4 key used to encrypt /O from the owner password (Algorithm 3, steps a-d)
+ */
+const computeOwnerKey = (ownerPassword: Buffer, revision: number, keyLength: number): Buffer => {
+    let key = md5(padPassword(ownerPassword));
+
+    if (revision >= 3) {
+        for (let i = 0; i < 50; i++) {
+            key = md5(key);
+        }
+    }
+
+    return key.subarray(0, revision >= 3 ? keyLength : 5);
+};
+
+/**
+ * Compute the /O value (Algorithm 3)
+ */
+export const computeLegacyOwnerValue = (
+    ownerPassword: Buffer,
+    userPassword: Buffer,
+    revision: number,
+    keyLength: number
+): Buffer => {
+    const key = computeOwnerKey(ownerPassword, revision, keyLength);
+    let value = rc4(key, padPassword(userPassword));
+
+    if (revision >= 3) {
+        for (let i = 1; i <= 19; i++) {
+            value = rc4(xorKey(key, i), value);
+        }
+    }
+
+    return value;
+};
+
+/**
+ * Compute the /U value from the file key (Algorithms 4 and 5)
+ */
+export const computeLegacyUserValue = (fileKey: Buffer, params: LegacyHandlerParams): Buffer => {
+    if (params.revision === 2) {
+        return rc4(fileKey, PASSWORD_PADDING);
+    }
+
+    let value = rc4(fileKey, md5(PASSWORD_PADDING, params.documentId));
+    for (let i = 1; i <= 19; i++) {
+        value = rc4(xorKey(fileKey, i), value);
+    }
+
+    // Arbitrary padding to 32 bytes
+    return Buffer.concat([value, Buffer.alloc(16)]);
+};
+
+/**
+ * Authenticate a user password and return the file key (Algorithm 6)
+ */
+export const authenticateLegacyUser = (password: Buffer, params: LegacyHandlerParams): Buffer | null => {
+    const fileKey = computeLegacyFileKey(password, params);
+    const expected = computeLegacyUserValue(fileKey, params);
+    const compareLength = params.revision >= 3 ? 16 : 32;
+
+    return expected.subarray(0, compareLength).equals(params.userValue.subarray(0, compareLength))
+        ? fileKey
+        : null;
+};
+
+/**
+ * Authenticate an owner password and return the file key (Algorithm 7)
+ */
+export const authenticateLegacyOwner = (password: Buffer, params: LegacyHandlerParams): Buffer | null => {
+    const key = computeOwnerKey(password, params.revision, params.keyLength);
+    let userPassword = params.ownerValue.subarray(0, 32);
+
+    if (params.revision === 2) {
+        userPassword = rc4(key, userPassword);
+    } else {
+        for (let i = 19; i >= 0; i--) {
+            userPassword = rc4(xorKey(key, i), userPassword);
+        }
+    }
+
+    return authenticateLegacyUser(userPassword, params);
+};
+
+/**
+ * Compute the key for a single object (Algorithm 1)
+ */
+export const computeObjectKey = (
+    fileKey: Buffer,
+    objectNumber: number,
+    generationNumber: number,
+    aes: boolean
+): Buffer => {
+    const suffix = Buffer.from([
+        objectNumber & 0xff,
+        (objectNumber >> 8) & 0xff,
+        (objectNumber >> 16) & 0xff,
+        generationNumber & 0xff,
+        (generationNumber >> 8) & 0xff,
+    ]);
+
+    const hash = md5(fileKey, suffix, aes ? Buffer.from('sAlT', 'latin1') : Buffer.alloc(0));
+    return hash.subarray(0, Math.min(fileKey.length + 5, 16));
+};
+
+// ============================================
+// REVISION 5-6 (AES-256)
+// ============================================
+
+/**
+ * Prepare a password for revision 5/6 (UTF-8, at most 127 bytes)
+ */
+export const encodeAesPassword = (password: string): Buffer => {
+    return Buffer.from(password.normalize('NFKC'), 'utf8').subarray(0, 127);
+};
+
+/**
+ * Compute the revision 6 password hash (Algorithm 2.B); revision 5 uses plain SHA-256
+ */
+export const computeAesHash = (
+    password: Buffer,
+    salt: Buffer,
+    userData: Buffer,
+    revision: number
+): Buffer => {
+    let key = createHash('sha256').update(password).update(salt).update(userData).digest();
+
+    if (revision < 6) {
+        return key;
+    }
+
+    for (let round = 0; ; round++) {
+        const block = Buffer.concat([password, key, userData]);
+        const repeated = Buffer.concat(Array(64).fill(block));
+
+        const cipher = createCipheriv('aes-128-cbc', key.subarray(0, 16), key.subarray(16, 32));
+        cipher.setAutoPadding(false);
+        const encrypted = Buffer.concat([cipher.update(repeated), cipher.final()]);
+
+        let remainder = 0;
+        for (let i = 0; i < 16; i++) {
+            remainder += encrypted[i];
+        }
+
+        const algorithm = ['sha256', 'sha384', 'sha512'][remainder % 3];
+        key = createHash(algorithm).update(encrypted).digest();
+
+        // At least 64 rounds, then stop once the last byte is <= (rounds done - 32)
+        const roundsDone = round + 1;
+        if (roundsDone >= 64 && encrypted[encrypted.length - 1] <= roundsDone - 32) {
+            break;
+        }
+    }
+
+    return key.subarray(0, 32);
+};
+
+const aes256NoPadding = (key: Buffer, data: Buffer, decrypt: boolean): Buffer => {
+    const cipher = decrypt
+        ? createDecipheriv('aes-256-cbc', key, Buffer.alloc(16))
+        : createCipheriv('aes-256-cbc', key, Buffer.alloc(16));
+    cipher.setAutoPadding(false);
+    return Buffer.concat([cipher.update(data), cipher.final()]);
+};
+
+/**
+ * Values written to the encryption dictionary for revision 6
+ */
+export interface AesHandlerValues {
+    ownerValue: Buffer;     // /O (48 bytes)
+    userValue: Buffer;      // /U (48 bytes)
+    ownerKey: Buffer;       // /OE (32 bytes)
+    userKey: Buffer;        // /UE (32 bytes)
+    perms: Buffer;          // /Perms (16 bytes)
+}
+
+/**
+ * Compute the encryption dictionary values for revision 6 (Algorithms 8, 9 and 10)
+ */
+export const computeAesHandlerValues = (
+    fileKey: Buffer,
+    userPassword: Buffer,
+    ownerPassword: Buffer,
+    permissions: number,
+    encryptMetadata: boolean
+): AesHandlerValues => {
+    const userValidationSalt = randomBytes(8);
+    const userKeySalt = randomBytes(8);
+    const userValue = Buffer.concat([
+        computeAesHash(userPassword, userValidationSalt, Buffer.alloc(0), 6),
+        userValidationSalt,
+        userKeySalt,
+    ]);
+    const userKey = aes256NoPadding(computeAesHash(userPassword, userKeySalt, Buffer.alloc(0), 6), fileKey, false);
+
+    const ownerValidationSalt = randomBytes(8);
+    const ownerKeySalt = randomBytes(8);
+    const ownerValue = Buffer.concat([
+        computeAesHash(ownerPassword, ownerValidationSalt, userValue, 6),
+        ownerValidationSalt,
+        ownerKeySalt,
+    ]);
+    const ownerKey = aes256NoPadding(computeAesHash(ownerPassword, ownerKeySalt, userValue, 6), fileKey, false);
+
+    const permsBlock = Buffer.concat([
+        int32LE(permissions),
+        Buffer.from([0xff, 0xff, 0xff, 0xff]),
+        Buffer.from(encryptMetadata ? 'Tadb' : 'Fadb', 'latin1'),
+        randomBytes(4),
+    ]);
+    const permsCipher = createCipheriv('aes-256-ecb', fileKey, null);
+    permsCipher.setAutoPadding(false);
+    const perms = Buffer.concat([permsCipher.update(permsBlock), permsCipher.final()]);
+
+    return { ownerValue, userValue, ownerKey, userKey, perms };
+};
+
+/**
+ * Authenticate a revision 5/6 password and return the file key (Algorithms 2.A, 11 and 12)
+ */
+export const authenticateAes = (
+    password: Buffer,
+    revision: number,
+    values: Pick<AesHandlerValues, 'ownerValue' | 'userValue' | 'ownerKey' | 'userKey'>
+): Buffer | null => {
+    const userData = values.userValue.subarray(0, 48);
+    const ownerHash = computeAesHash(password, values.ownerValue.subarray(32, 40), userData, revision);
+
+    if (ownerHash.equals(values.ownerValue.subarray(0, 32))) {
+        const key = computeAesHash(password, values.ownerValue.subarray(40, 48), userData, revision);
+        return aes256NoPadding(key, values.ownerKey.subarray(0, 32), true);
+    }
+
+    const userHash = computeAesHash(password, values.userValue.subarray(32, 40), Buffer.alloc(0), revision);
+
+    if (userHash.equals(values.userValue.subarray(0, 32))) {
+        const key = computeAesHash(password, values.userValue.subarray(40, 48), Buffer.alloc(0), revision);
+        return aes256NoPadding(key, values.userKey.subarray(0, 32), true);
+    }
+
+    return null;
+};
+
+// ============================================
+// OBJECT ENCRYPTION
+// ============================================
+
+/**
+ * Cipher used for strings and streams
+ */
+export type ObjectCipher = 'rc4' | 'aes-128' | 'aes-256' | 'identity';
+
+/**
+ * Encrypt string or stream data with an object key (or the file key for AES-256)
+ */
+export const encryptData = (cipher: ObjectCipher, key: Buffer, data: Buffer): Buffer => {
+    if (cipher === 'identity') {
+        return data;
+    }
+    if (cipher === 'rc4') {
+        return rc4(key, data);
+    }
+
+    const iv = randomBytes(16);
+    const aes = createCipheriv(cipher === 'aes-128' ? 'aes-128-cbc' : 'aes-256-cbc', key, iv);
+    return Buffer.concat([iv, aes.update(data), aes.final()]);
+};
+
+/**
+ * Decrypt string or stream data with an object key (or the file key for AES-256)
+ */
+export const decryptData = (cipher: ObjectCipher, key: Buffer, data: Buffer): Buffer => {
+    if (cipher === 'identity') {
+        return data;
+    }
+    if (cipher === 'rc4') {
+        return rc4(key, data);
+    }
+
+    // AES data is prefixed with a 16-byte IV; anything shorter is empty
+    if (data.length < 32) {
+        return Buffer.alloc(0);
+    }
+
+    const body = data.subarray(16, 16 + Math.floor((data.length - 16) / 16) * 16);
+    const aes = createDecipheriv(cipher === 'aes-128' ? 'aes-128-cbc' : 'aes-256-cbc', key, data.subarray(0, 16));
+    aes.setAutoPadding(false);
+    const decrypted = Buffer.concat([aes.update(body), aes.final()]);
+
+    // Strip PKCS#7 padding when it is well-formed
+    const padding = decrypted[decrypted.length - 1];
+    const validPadding = padding >= 1 && padding <= 16 &&
+        decrypted.subarray(decrypted.length - padding).every(byte => byte === padding);
+
+    return validPadding ? decrypted.subarray(0, decrypted.length - padding) : decrypted;
+};
@@ -0,0 +1,199 @@
+/**
+ * PDF Layout Utility
+ *
+ * Helpers for drawing on existing PDF pages with pdf-lib:
+ * - Hex color parsing
+ * - Standard font selection
+ * - Placement in "visual" coordinates that respect the page /Rotate entry
+ */
+
+import { PDFPage, RGB, StandardFonts, rgb } from 'pdf-lib';
+
+/**
+ * Standard font names accepted in request options
+ */
+export const STANDARD_FONT_NAMES: Record<string, StandardFonts> = {
+    'helvetica': StandardFonts.Helvetica,
+    'helvetica-bold': StandardFonts.HelveticaBold,
+    'helvetica-oblique': StandardFonts.HelveticaOblique,
+    'times': StandardFonts.TimesRoman,
+    'times-bold': StandardFonts.TimesRomanBold,
+    'times-italic': StandardFonts.TimesRomanItalic,
+    'courier': StandardFonts.Courier,
+    'courier-bold': StandardFonts.CourierBold,
+};
+
+/**
+ * Anchor positions on a page
+ */
+export type PagePosition =
+    | 'center'
+    | 'top-left' | 'top-center' | 'top-right'
+    | 'middle-left' | 'middle-right'
+    | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+export const PAGE_POSITIONS: PagePosition[] = [
+    'center',
+    'top-left', 'top-center', 'top-right',
+    'middle-left', 'middle-right',
+    'bottom-left', 'bottom-center', 'bottom-right',
+];
+
+/**
+ * Point in page coordinates (PDF user space, origin bottom-left)
+ */
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/**
+ * Parse a hex color (#rgb or #rrggbb)
+ *
+ * @param value - Hex color string
+ * @returns pdf-lib RGB color, or null if the value is not a valid hex color
+ */
+export const parseHexColor = (value: string): RGB | null => {
+    const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+
+    if (!match) {
+        return null;
+    }
+
+    const hex = match[1].length === 3
+        ? match[1].split('').map(char => char + char).join('')
+        : match[1];
+
+    return rgb(
+        parseInt(hex.slice(0, 2), 16) / 255,
+        parseInt(hex.slice(2, 4), 16) / 255,
+        parseInt(hex.slice(4, 6), 16) / 255
+    );
+};
+
+/**
+ * Normalize the page rotation to 0, 90, 180 or 270
+ */
+export const getPageRotation = (page: PDFPage): number => {
+    return ((Math.round(page.getRotation().angle / 90) * 90) % 360 + 360) % 360;
+};
+
+/**
+ * Get the page size as displayed by a viewer (width and height swap for 90/270)
+ *
+ * @param page - PDF page
+ * @returns Displayed width and height
+ */
+export const getVisualPageSize = (page: PDFPage): { width: number; height: number } => {
+    const { width, height } = page.getSize();
+    const rotation = getPageRotation(page);
+
+    return rotation === 90 || rotation === 270
+        ? { width: height, height: width }
+        : { width, height };
+};
+
+/**
+ * Convert a point in displayed coordinates to page user space
+ *
+ * @param page - PDF page
+ * @param point - Point relative to the bottom-left corner of the displayed page
+ * @returns Point in page user space
+ */
+export const toPageCoordinates = (page: PDFPage, point: Point): Point => {
+    const { width, height } = page.getSize();
+    const { x: left, y: bottom } = page.getMediaBox();
+
+    switch (getPageRotation(page)) {
+        case 90:
+            return { x: left + width - point.y, y: bottom + point.x };
+        case 180:
+            return { x: left + width - point.x, y: bottom + height - point.y };
+        case 270:
+            return { x: left + point.y, y: bottom + height - point.x };
+        default:
+            return { x: left + point.x, y: bottom + point.y };
+    }
+};
+
+/**
+ * Convert a displayed rotation to a rotation in page user space
+ *
+ * @param page - PDF page
+ * @param angle - Counter-clockwise angle as seen by the reader, in degrees
+ * @returns Angle to pass to pdf-lib draw operations
+ */
+export const toPageAngle = (page: PDFPage, angle: number): number => {
+    return angle + getPageRotation(page);
+};
+
+/**
+ * Compute the origin for drawing a box so that its center lands on a point
+ *
+ * pdf-lib rotates text and images around their bottom-left origin, so the
+ * origin has to be offset by the rotated half-size of the box.
+ *
+ * @param center - Desired center in page user space
+ * @param width - Box width
+ * @param height - Box height
+ * @param angle - Rotation in degrees (page user space)
+ * @returns Origin to pass to pdf-lib draw operations
+ */
+export const originForCenter = (center: Point, width: number, height: number, angle: number): Point => {
+    const radians = (angle * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+
+    return {
+        x: center.x - ((width / 2) * cos - (height / 2) * sin),
+        y: center.y - ((width / 2) * sin + (height / 2) * cos),
+    };
+};
+
+/**
+ * Size of the axis-aligned bounding box of a rotated box
+ */
+export const rotatedBounds = (width: number, height: number, angle: number): { width: number; height: number } => {
+    const radians = (angle * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+
+    return {
+        width: width * cos + height * sin,
+        height: width * sin + height * cos,
+    };
+};
+
+/**
+ * Compute the displayed center point of a box anchored at a page position
+ *
+ * @param pageSize - Displayed page size
+ * @param boxSize - Size of the (rotated) box to place
+ * @param position - Anchor position
+ * @param margin - Distance from the page edges
+ * @returns Center point in displayed coordinates
+ */
+export const anchorCenter = (
+    pageSize: { width: number; height: number },
+    boxSize: { width: number; height: number },
+    position: PagePosition,
+    margin: number
+): Point => {
+    const [vertical, horizontal] = position === 'center'
+        ? ['middle', 'center']
+        : position.split('-');
+
+    const x = horizontal === 'left'
+        ? margin + boxSize.width / 2
+        : horizontal === 'right'
+            ? pageSize.width - margin - boxSize.width / 2
+            : pageSize.width / 2;
+
+    const y = vertical === 'bottom'
+        ? margin + boxSize.height / 2
+        : vertical === 'top'
+            ? pageSize.height - margin - boxSize.height / 2
+            : pageSize.height / 2;
+
+    return { x, y };
+};
@@ -0,0 +1,35 @@
+/**
+ * Progress Utility
+ *
+ * Progress events reported by long-running operations (e.g. one event per
+ * rendered page) and warnings about content that was skipped, used to track
+ * asynchronous jobs.
+ */
+
+/**
+ * Progress of the current stage of an operation
+ */
+export interface ProgressEvent {
+    stage: string;  // Current step, e.g. "render" or "extract"
+    done: number;   // Units (pages, images) completed in this stage
+    total: number;  // Units in this stage
+}
+
+/**
+ * Receives progress events
+ */
+export type ProgressListener = (event: ProgressEvent) => void;
+
+/**
+ * Problem that did not stop the operation, e.g. an image that could not be extracted
+ */
+export interface ProgressWarning {
+    stage: string;   // Step in which the problem occurred
+    page?: number;   // Affected page, 1-based
+    message: string;
+}
+
+/**
+ * Receives warnings
+ */
+export type WarningListener = (warning: ProgressWarning) => void;
@@ -0,0 +1,517 @@
+/**
+ * TIFF Writer
+ *
+ * Writes multi-page baseline TIFF files from rendered RGBA pages. Each page
+ * is stored as a single strip, compressed with CCITT Group 4 (bilevel) or
+ * LZW with horizontal differencing (grayscale and RGB).
+ */
+
+/**
+ * Supported TIFF compression schemes
+ */
+export const TIFF_COMPRESSIONS = ['g4', 'lzw-gray', 'lzw-color'] as const;
+
+export type TiffCompression = typeof TIFF_COMPRESSIONS[number];
+
+/**
+ * Encoded TIFF page, ready to be written
+ */
+export interface TiffImage {
+    width: number;
+    height: number;
+    dpi: number;
+    compression: TiffCompression;
+    data: Buffer;   // Compressed strip
+}
+
+/**
+ * Gray level below which a pixel becomes black in bilevel images
+ */
+const BILEVEL_THRESHOLD = 128;
+
+// TIFF field types
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+/**
+ * Image file directory entry (rationals are stored as numerator/denominator pairs)
+ */
+interface IfdEntry {
+    tag: number;
+    type: typeof SHORT | typeof LONG | typeof RATIONAL;
+    values: number[];
+}
+
+/**
+ * MSB-first bit writer with a growable buffer
+ */
+class BitWriter {
+    private buffer: Uint8Array;
+    private length = 0;
+    private accumulator = 0;
+    private bitCount = 0;
+
+    constructor(initialSize = 65536) {
+        this.buffer = new Uint8Array(initialSize);
+    }
+
+    /**
+     * Append the lowest `bits` bits of `value` (at most 24 bits per call)
+     */
+    write(value: number, bits: number): void {
+        this.accumulator = (this.accumulator << bits) | value;
+        this.bitCount += bits;
+
+        while (this.bitCount >= 8) {
+            this.bitCount -= 8;
+            this.pushByte((this.accumulator >>> this.bitCount) & 0xff);
+        }
+        this.accumulator &= (1 << this.bitCount) - 1;
+    }
+
+    /**
+     * Pad the last byte with zero bits and return the written data
+     */
+    finish(): Buffer {
+        if (this.bitCount > 0) {
+            this.pushByte((this.accumulator << (8 - this.bitCount)) & 0xff);
+            this.accumulator = 0;
+            this.bitCount = 0;
+        }
+        return Buffer.from(this.buffer.buffer, this.buffer.byteOffset, this.length);
+    }
+
+    private pushByte(byte: number): void {
+        if (this.length === this.buffer.length) {
+            const grown = new Uint8Array(this.buffer.length * 2);
+            grown.set(this.buffer);
+            this.buffer = grown;
+        }
+        this.buffer[this.length++] = byte;
+    }
+}
+
+/**
+ * Convert bit strings to [code, length] pairs
+ */
+const toCodes = (bits: string[]): Array<[number, number]> =>
+    bits.map(code => [parseInt(code, 2), code.length]);
+
+// ITU-T T.4 run-length codes: terminating codes (0-63) and make-up codes (64-1728, step 64)
+const WHITE_TERMINATING = toCodes([
+    '00110101', '000111', '0111', '1000', '1011', '1100', '1110', '1111',
+    '10011', '10100', '00111', '01000', '001000', '000011', '110100', '110101',
+    '101010', '101011', '0100111', '0001100', '0001000', '0010111', '0000011', '0000100',
+    '0101000', '0101011', '0010011', '0100100', '0011000', '00000010', '00000011', '00011010',
+    '00011011', '00010010', '00010011', '00010100', '00010101', '00010110', '00010111', '00101000',
+    '00101001', '00101010', '00101011', '00101100', '00101101', '00000100', '00000101', '00001010',
+    '00001011', '01010010', '01010011', '01010100', '01010101', '00100100', '00100101', '01011000',
+    '01011001', '01011010', '01011011', '01001010', '01001011', '00110010', '00110011', '00110100',
+]);
+
+const WHITE_MAKEUP = toCodes([
+    '11011', '10010', '010111', '0110111', '00110110', '00110111', '01100100', '01100101',
+    '01101000', '01100111', '011001100', '011001101', '011010010', '011010011', '011010100', '011010101',
+    '011010110', '011010111', '011011000', '011011001', '011011010', '011011011', '010011000', '010011001',
+    '010011010', '011000', '010011011',
+]);
+
+const BLACK_TERMINATING = toCodes([
+    '0000110111', '010', '11', '10', '011', '0011', '0010', '00011',
+    '000101', '000100', '0000100', '0000101', '0000111', '00000100', '00000111', '000011000',
+    '0000010111', '0000011000', '0000001000', '00001100111', '00001101000', '00001101100', '00000110111', '00000101000',
+    '00000010111', '00000011000', '000011001010', '000011001011', '000011001100', '000011001101', '000001101000', '000001101001',
+    '000001101010', '000001101011', '000011010010', '000011010011', '000011010100', '000011010101', '000011010110', '000011010111',
+    '000001101100', '000001101101', '000011011010', '000011011011', '000001010100', '000001010101', '000001010110', '000001010111',
+    '000001100100', '000001100101', '000001010010', '000001010011', '000000100100', '000000110111', '000000111000', '000000100111',
+    '000000101000', '000001011000', '000001011001', '000000101011', '000000101100', '000001011010', '000001100110', '000001100111',
+]);
+
+const BLACK_MAKEUP = toCodes([
+    '0000001111', '000011001000', '000011001001', '000001011011', '000000110011', '000000110100', '000000110101', '0000001101100',
+    '0000001101101', '0000001001010', '0000001001011', '0000001001100', '0000001001101', '0000001110010', '0000001110011', '0000001110100',
+    '0000001110101', '0000001110110', '0000001110111', '0000001010010', '0000001010011', '0000001010100', '0000001010101', '0000001011010',
+    '0000001011011', '0000001100100', '0000001100101',
+]);
+
+// Make-up codes shared by both colors (1792-2560, step 64)
+const EXTENDED_MAKEUP = toCodes([
+    '00000001000', '00000001100', '00000001101', '000000010010', '000000010011', '000000010100', '000000010101', '000000010110',
+    '000000010111', '000000011100', '000000011101', '000000011110', '000000011111',
+]);
+
+// ITU-T T.6 two-dimensional mode codes
+const PASS_MODE: [number, number] = [0b0001, 4];
+const HORIZONTAL_MODE: [number, number] = [0b001, 3];
+const VERTICAL_MODES: Array<[number, number]> = toCodes([
+    '0000010', '000010', '010', '1', '011', '000011', '0000011', // a1 - b1 = -3 .. 3
+]);
+const EOL: [number, number] = [0b000000000001, 12];
+
+/**
+ * Write a run length as make-up codes followed by a terminating code
+ */
+const writeRun = (writer: BitWriter, run: number, black: boolean): void => {
+    const terminating = black ? BLACK_TERMINATING : WHITE_TERMINATING;
+    const makeup = black ? BLACK_MAKEUP : WHITE_MAKEUP;
+
+    while (run >= 2624) {
+        writer.write(...EXTENDED_MAKEUP[EXTENDED_MAKEUP.length - 1]);
+        run -= 2560;
+    }
+    if (run >= 64) {
+        const index = Math.floor(run / 64) - 1;
+        writer.write(...(index < makeup.length ? makeup[index] : EXTENDED_MAKEUP[index - makeup.length]));
+        run %= 64;
+    }
+    writer.write(...terminating[run]);
+};
+
+/**
+ * Positions where the color of a row changes (starting from white), followed by sentinels
+ */
+const changingElements = (black: Uint8Array, start: number, width: number): Int32Array => {
+    const changes: number[] = [];
+    let color = 0;
+
+    for (let x = 0; x < width; x++) {
+        if (black[start + x] !== color) {
+            changes.push(x);
+            color ^= 1;
+        }
+    }
+    changes.push(width, width, width);
+
+    return Int32Array.from(changes);
+};
+
+/**
+ * Encode a bilevel image with CCITT Group 4 (ITU-T T.6)
+ *
+ * @param black - One byte per pixel, 1 for black
+ */
+const encodeG4 = (black: Uint8Array, width: number, height: number): Buffer => {
+    const writer = new BitWriter();
+    let reference: Int32Array = Int32Array.from([width, width, width]); // Imaginary all-white line
+
+    for (let y = 0; y < height; y++) {
+        const coding = changingElements(black, y * width, width);
+        let a0 = -1;
+        let color = 0;
+        let ai = 0;
+        let bi = 0;
+
+        while (a0 < width) {
+            while (coding[ai] <= a0) ai++;
+            const a1 = coding[ai];
+            const a2 = coding[ai + 1];
+
+            // b1: first change on the reference line right of a0 to the opposite color;
+            // changes at even indexes switch to black
+            while (reference[bi] <= a0) bi++;
+            if (bi % 2 !== color) bi++;
+            const b1 = reference[bi];
+            const b2 = reference[bi + 1];
+
+            if (b2 < a1) {
+                writer.write(...PASS_MODE);
+                a0 = b2;
+            } else if (Math.abs(a1 - b1) <= 3) {
+                writer.write(...VERTICAL_MODES[a1 - b1 + 3]);
+                a0 = a1;
+                color ^= 1;
+            } else {
+                writer.write(...HORIZONTAL_MODE);
+                writeRun(writer, a1 - Math.max(a0, 0), color === 1);
+                writeRun(writer, a2 - a1, color === 0);
+                a0 = a2;
+            }
+
+            // The reference search restarts from the previous element after a0 moved
+            bi = Math.max(bi - 1, 0);
+        }
+
+        reference = coding;
+    }
+
+    // End of facsimile block
+    writer.write(...EOL);
+    writer.write(...EOL);
+
+    return writer.finish();
+};
+
+/**
+ * Encode data with TIFF LZW (MSB-first codes, early code width change)
+ */
+const encodeLzw = (data: Uint8Array): Buffer => {
+    const CLEAR = 256;
+    const EOI = 257;
+    const FIRST = 258;
+    const LIMIT = 4094;
+
+    const writer = new BitWriter(Math.max(1024, data.length >> 2));
+    const firstChild = new Int16Array(4096).fill(-1);
+    const nextSibling = new Int16Array(4096);
+    const suffix = new Uint8Array(4096);
+    let nextCode = FIRST;
+    let codeLength = 9;
+
+    const reset = (): void => {
+        firstChild.fill(-1, 0, 256);
+        nextCode = FIRST;
+        codeLength = 9;
+    };
+
+    writer.write(CLEAR, codeLength);
+
+    if (data.length === 0) {
+        writer.write(EOI, codeLength);
+        return writer.finish();
+    }
+
+    let prefix = data[0];
+
+    for (let i = 1; i < data.length; i++) {
+        const byte = data[i];
+        let child = firstChild[prefix];
+
+        while (child !== -1 && suffix[child] !== byte) {
+            child = nextSibling[child];
+        }
+        if (child !== -1) {
+            prefix = child;
+            continue;
+        }
+
+        writer.write(prefix, codeLength);
+
+        suffix[nextCode] = byte;
+        firstChild[nextCode] = -1;
+        nextSibling[nextCode] = firstChild[prefix];
+        firstChild[prefix] = nextCode;
+        nextCode++;
+
+        if (nextCode === LIMIT) {
+            writer.write(CLEAR, codeLength);
+            reset();
+        } else if (nextCode > (1 << codeLength) - 1) {
+            codeLength++;
+        }
+
+        prefix = byte;
+    }
+
+    // The decoder adds one more entry after the last code, which may widen EOI
+    writer.write(prefix, codeLength);
+    nextCode++;
+    if (nextCode === LIMIT) {
+        writer.write(CLEAR, codeLength);
+        codeLength = 9;
+    } else if (nextCode > (1 << codeLength) - 1) {
+        codeLength++;
+    }
+    writer.write(EOI, codeLength);
+
+    return writer.finish();
+};
+
+/**
+ * Apply the horizontal differencing predictor (TIFF Predictor 2) in place
+ */
+const applyPredictor = (samples: Uint8Array, width: number, height: number, samplesPerPixel: number): void => {
+    const rowLength = width * samplesPerPixel;
+
+    for (let y = 0; y < height; y++) {
+        const rowStart = y * rowLength;
+        for (let i = rowStart + rowLength - 1; i >= rowStart + samplesPerPixel; i--) {
+            samples[i] = (samples[i] - samples[i - samplesPerPixel]) & 0xff;
+        }
+    }
+};
+
+/**
+ * Composite a color component over white
+ */
+const overWhite = (value: number, alpha: number): number =>
+    Math.round((value * alpha + 255 * (255 - alpha)) / 255);
+
+/**
+ * Convert RGBA pixels to gray levels (ITU-R BT.601 luma)
+ */
+const toGray = (rgba: Uint8Array | Uint8ClampedArray, pixelCount: number): Uint8Array => {
+    const gray = new Uint8Array(pixelCount);
+
+    for (let i = 0, p = 0; i < pixelCount; i++, p += 4) {
+        const luma = (299 * rgba[p] + 587 * rgba[p + 1] + 114 * rgba[p + 2]) / 1000;
+        gray[i] = overWhite(luma, rgba[p + 3]);
+    }
+
+    return gray;
+};
+
+/**
+ * Compress a rendered page for a TIFF file
+ *
+ * @param rgba - RGBA pixels (e.g. canvas ImageData)
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @param dpi - Resolution stored in the file
+ * @param compression - Compression scheme (which also selects the color model)
+ * @returns Encoded page
+ */
+export const encodeTiffImage = (
+    rgba: Uint8Array | Uint8ClampedArray,
+    width: number,
+    height: number,
+    dpi: number,
+    compression: TiffCompression
+): TiffImage => {
+    const pixelCount = width * height;
+    let data: Buffer;
+
+    if (compression === 'g4') {
+        const gray = toGray(rgba, pixelCount);
+        for (let i = 0; i < pixelCount; i++) {
+            gray[i] = gray[i] < BILEVEL_THRESHOLD ? 1 : 0;
+        }
+        data = encodeG4(gray, width, height);
+    } else if (compression === 'lzw-gray') {
+        const gray = toGray(rgba, pixelCount);
+        applyPredictor(gray, width, height, 1);
+        data = encodeLzw(gray);
+    } else {
+        const rgb = new Uint8Array(pixelCount * 3);
+        for (let i = 0, p = 0; i < rgb.length; i += 3, p += 4) {
+            rgb[i] = overWhite(rgba[p], rgba[p + 3]);
+            rgb[i + 1] = overWhite(rgba[p + 1], rgba[p + 3]);
+            rgb[i + 2] = overWhite(rgba[p + 2], rgba[p + 3]);
+        }
+        applyPredictor(rgb, width, height, 3);
+        data = encodeLzw(rgb);
+    }
+
+    return { width, height, dpi, compression, data };
+};
+
+/**
+ * Build the directory entries of a page
+ */
+const buildEntries = (image: TiffImage, pageIndex: number, pageCount: number, stripOffset: number): IfdEntry[] => {
+    const resolution = [Math.round(image.dpi * 100), 100];
+    const bilevel = image.compression === 'g4';
+    const color = image.compression === 'lzw-color';
+
+    const entries: IfdEntry[] = [
+        { tag: 254, type: LONG, values: [2] },                               // NewSubfileType: page
+        { tag: 256, type: LONG, values: [image.width] },                     // ImageWidth
+        { tag: 257, type: LONG, values: [image.height] },                    // ImageLength
+        { tag: 258, type: SHORT, values: bilevel ? [1] : color ? [8, 8, 8] : [8] }, // BitsPerSample
+        { tag: 259, type: SHORT, values: [bilevel ? 4 : 5] },                // Compression: CCITT T.6 or LZW
+        { tag: 262, type: SHORT, values: [bilevel ? 0 : color ? 2 : 1] },    // Photometric: WhiteIsZero, RGB or BlackIsZero
+        { tag: 273, type: LONG, values: [stripOffset] },                     // StripOffsets
+        { tag: 277, type: SHORT, values: [color ? 3 : 1] },                  // SamplesPerPixel
+        { tag: 278, type: LONG, values: [image.height] },                    // RowsPerStrip
+        { tag: 279, type: LONG, values: [image.data.length] },               // StripByteCounts
+        { tag: 282, type: RATIONAL, values: resolution },                    // XResolution
+        { tag: 283, type: RATIONAL, values: resolution },                    // YResolution
+        { tag: 284, type: SHORT, values: [1] },                              // PlanarConfiguration: chunky
+        { tag: 296, type: SHORT, values: [2] },                              // ResolutionUnit: inch
+        { tag: 297, type: SHORT, values: [pageIndex, pageCount] },           // PageNumber
+    ];
+
+    if (bilevel) {
+        entries.push({ tag: 293, type: LONG, values: [0] });                 // T6Options
+    } else {
+        entries.push({ tag: 317, type: SHORT, values: [2] });                // Predictor: horizontal differencing
+    }
+
+    return entries.sort((a, b) => a.tag - b.tag);
+};
+
+/**
+ * Serialize an image file directory; values that do not fit into an entry follow it
+ *
+ * @returns Directory bytes and the position of its next-directory pointer
+ */
+const serializeIfd = (entries: IfdEntry[], ifdOffset: number): { buffer: Buffer; nextPointer: number } => {
+    const valueSize = (entry: IfdEntry): number => entry.values.length * (entry.type === SHORT ? 2 : 4);
+    const headerSize = 2 + entries.length * 12 + 4;
+    const extraSize = entries.reduce((size, entry) => size + (valueSize(entry) > 4 ? valueSize(entry) : 0), 0);
+    const buffer = Buffer.alloc(headerSize + extraSize);
+    let extraOffset = headerSize;
+
+    buffer.writeUInt16LE(entries.length, 0);
+
+    entries.forEach((entry, index) => {
+        const position = 2 + index * 12;
+        const size = valueSize(entry);
+        const count = entry.type === RATIONAL ? entry.values.length / 2 : entry.values.length;
+        let valuePosition = position + 8;
+
+        buffer.writeUInt16LE(entry.tag, position);
+        buffer.writeUInt16LE(entry.type, position + 2);
+        buffer.writeUInt32LE(count, position + 4);
+
+        if (size > 4) {
+            buffer.writeUInt32LE(ifdOffset + extraOffset, position + 8);
+            valuePosition = extraOffset;
+            extraOffset += size;
+        }
+
+        entry.values.forEach((value, valueIndex) => {
+            if (entry.type === SHORT) {
+                buffer.writeUInt16LE(value, valuePosition + valueIndex * 2);
+            } else {
+                buffer.writeUInt32LE(value, valuePosition + valueIndex * 4);
+            }
+        });
+    });
+
+    return { buffer, nextPointer: headerSize - 4 };
+};
+
+/**
+ * Write encoded pages into a multi-page TIFF file
+ *
+ * Each page's strip is followed by its directory.
+ *
+ * @param images - Encoded pages in order
+ * @returns TIFF file (little-endian)
+ */
+export const writeTiff = (images: TiffImage[]): Buffer => {
+    const header = Buffer.alloc(8);
+    const chunks: Buffer[] = [header];
+    let offset = header.length;
+    let previous: { buffer: Buffer; nextPointer: number } | null = null;
+
+    header.write('II', 0, 'latin1');
+    header.writeUInt16LE(42, 2);
+
+    images.forEach((image, index) => {
+        const stripOffset = offset;
+        chunks.push(image.data);
+        offset += image.data.length;
+
+        // Directories start on a word boundary
+        if (offset % 2 === 1) {
+            chunks.push(Buffer.alloc(1));
+            offset++;
+        }
+
+        const ifd = serializeIfd(buildEntries(image, index, images.length, stripOffset), offset);
+
+        if (previous) {
+            previous.buffer.writeUInt32LE(offset, previous.nextPointer);
+        } else {
+            header.writeUInt32LE(offset, 4);
+        }
+
+        chunks.push(ifd.buffer);
+        offset += ifd.buffer.length;
+        previous = ifd;
+    });
+
+    return Buffer.concat(chunks);
+};
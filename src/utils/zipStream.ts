@@ -0,0 +1,201 @@
+/**
+ * ZIP Stream Utility
+ *
+ * Streams ZIP archives to HTTP responses or files entry by entry. Each entry
+ * is written out before the next one is requested from the source, so memory
+ * stays bounded and clients receive data while later entries are still being
+ * produced.
+ */
+
+import archiver from 'archiver';
+import { Response } from 'express';
+import { createWriteStream } from 'fs';
+import { finished } from 'stream/promises';
+
+/**
+ * A single file in the archive
+ */
+export interface ZipEntry {
+    name: string;
+    source: Buffer | string;
+}
+
+/**
+ * Options for streaming a ZIP download
+ */
+export interface StreamZipOptions {
+    // Hold the archive back up to this many bytes: an archive that is complete
+    // within the limit is sent in one piece and returned (e.g. for caching),
+    // larger ones are streamed once they outgrow it
+    keepUpTo?: number;
+    // Called with an archive that is sent in one piece, before its headers
+    // are sent (e.g. to set an ETag)
+    beforeSend?: (archive: Buffer) => void;
+}
+
+/**
+ * Stream entries into a ZIP download
+ *
+ * The first entry is produced before any header is sent, so errors raised
+ * while loading the input (e.g. a wrong password) still reach the error
+ * handler as a normal response. Once the download has started, archive or
+ * source errors abort the response and are logged; a client disconnect stops
+ * the source. Archives held back by keepUpTo are sent with Content-Length.
+ *
+ * @param res - Express response
+ * @param filename - Download filename
+ * @param entries - Entries in archive order (async generators are closed when streaming stops)
+ * @param options - Streaming options
+ * @returns The complete archive if keepUpTo was set and the archive fits and
+ *   was sent; otherwise undefined
+ * @throws Error if the source fails before the first entry
+ */
+export const streamZip = async (
+    res: Response,
+    filename: string,
+    entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>,
+    options: StreamZipOptions = {}
+): Promise<Buffer | undefined> => {
+    const iterator = Symbol.asyncIterator in entries
+        ? entries[Symbol.asyncIterator]()
+        : (entries as Iterable<ZipEntry>)[Symbol.iterator]();
+
+    let result = await iterator.next();
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    const archive = archiver('zip', {
+        zlib: { level: 9 }, // Maximum compression
+    });
+
+    let failure: Error | null = null;
+    let rejectAborted: (error: Error) => void = () => undefined;
+    const aborted = new Promise<never>((_resolve, reject) => {
+        rejectAborted = reject;
+    });
+    aborted.catch(() => undefined); // Observed through the races below
+
+    const abort = (error: Error): void => {
+        if (failure) {
+            return;
+        }
+        failure = error;
+        rejectAborted(error);
+        archive.abort();
+        res.destroy();
+    };
+
+    archive.on('error', abort);
+    res.on('close', () => {
+        if (!res.writableFinished) {
+            abort(new Error('Client closed the connection'));
+        }
+    });
+
+    // Archive held back while it may still be sent in one piece (keepUpTo)
+    let held: Buffer[] | null = options.keepUpTo !== undefined ? [] : null;
+    let heldBytes = 0;
+
+    const hold = (chunk: Buffer): void => {
+        held!.push(chunk);
+        heldBytes += chunk.length;
+
+        if (heldBytes > options.keepUpTo!) {
+            // Too large: send what was held and stream the rest
+            archive.off('data', hold);
+            for (const part of held!) {
+                res.write(part);
+            }
+            held = null;
+            archive.pipe(res);
+        }
+    };
+
+    const ended = new Promise<void>(resolve => archive.once('end', () => resolve()));
+
+    if (held) {
+        archive.on('data', hold);
+    } else {
+        archive.pipe(res);
+    }
+
+    try {
+        while (!result.done) {
+            // archiver emits 'entry' once the entry is written, which waits for the response to drain
+            const written = new Promise<void>(resolve => archive.once('entry', () => resolve()));
+            archive.append(result.value.source, { name: result.value.name });
+            await Promise.race([written, aborted]);
+
+            result = await iterator.next();
+        }
+
+        await Promise.race([archive.finalize(), aborted]);
+
+        if (held) {
+            await Promise.race([ended, aborted]);
+        }
+
+        // Still held: the archive is complete and fits, so send it in one piece
+        if (held) {
+            const zip = Buffer.concat(held);
+            options.beforeSend?.(zip);
+            res.setHeader('Content-Length', zip.length);
+            res.end(zip);
+            return zip;
+        }
+    } catch (error) {
+        abort(error instanceof Error ? error : new Error(String(error)));
+        console.error(`ZIP download "${filename}" aborted:`, failure);
+    } finally {
+        // Stop the source (runs the generator's cleanup) when streaming ended early
+        if (!result.done) {
+            await iterator.return?.();
+        }
+    }
+
+    return undefined;
+};
+
+/**
+ * Write entries to a ZIP file
+ *
+ * @param path - Output file path
+ * @param entries - Entries in archive order (async generators are closed on failure)
+ * @returns Size of the ZIP file in bytes
+ * @throws Error if the source, the archive or the file fails; the file is left incomplete
+ */
+export const writeZipFile = async (
+    path: string,
+    entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>
+): Promise<number> => {
+    const output = createWriteStream(path);
+    const archive = archiver('zip', {
+        zlib: { level: 9 }, // Maximum compression
+    });
+
+    const failed = new Promise<never>((_resolve, reject) => {
+        archive.once('error', reject);
+        output.once('error', reject);
+    });
+    failed.catch(() => undefined); // Observed through the races below
+
+    archive.pipe(output);
+
+    try {
+        for await (const entry of entries) {
+            const written = new Promise<void>(resolve => archive.once('entry', () => resolve()));
+            archive.append(entry.source, { name: entry.name });
+            await Promise.race([written, failed]);
+        }
+
+        await Promise.race([archive.finalize(), failed]);
+        await Promise.race([finished(output), failed]);
+    } catch (error) {
+        archive.abort();
+        output.destroy();
+        throw error;
+    }
+
+    return archive.pointer();
+};
@@ -0,0 +1,129 @@
+/**
+ * Worker Messages
+ *
+ * Message protocol shared by the worker pool and its workers, plus helpers to
+ * move buffers and errors across the thread boundary.
+ */
+
+import { AppError } from '../middleware/errorHandler';
+import { ProgressEvent, ProgressWarning } from '../utils/progress';
+
+/**
+ * Messages sent from the pool to a worker
+ */
+export type WorkerRequest =
+  | { type: 'run'; id: number; task: string; args: unknown[] }  // Start a task (streams produce their first item)
+  | { type: 'next'; id: number }                                // Produce the next item of a stream
+  | { type: 'cancel'; id: number };                             // Stop a stream early
+
+/**
+ * Messages sent from a worker to the pool
+ */
+export type WorkerResponse =
+  | { type: 'ready' }                                           // Worker has loaded and accepts tasks
+  | { type: 'progress'; id: number; progress: ProgressEvent }   // Progress of a running task
+  | { type: 'warning'; id: number; warning: ProgressWarning }   // Problem that did not stop the task
+  | { type: 'yield'; id: number; value: unknown }               // Next item of a stream
+  | { type: 'done'; id: number; value?: unknown }               // Task result, or end of a stream
+  | { type: 'error'; id: number; error: SerializedError };
+
+/**
+ * Error data that survives structured cloning
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  statusCode?: number;
+  details?: unknown;
+}
+
+/**
+ * Convert an error thrown in a worker to plain data
+ */
+export const serializeError = (error: unknown): SerializedError => {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) };
+  }
+
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    statusCode: error instanceof AppError ? error.statusCode : undefined,
+    details: error instanceof AppError ? error.details : undefined,
+  };
+};
+
+/**
+ * Rebuild an error received from a worker
+ *
+ * Errors with a status code become AppErrors, so the error handler responds
+ * exactly as if the service had run on the main thread.
+ */
+export const deserializeError = (data: SerializedError): Error => {
+  const error = data.statusCode !== undefined
+    ? new AppError(data.statusCode, data.message, true, data.details)
+    : new Error(data.message);
+
+  error.name = data.name;
+  if (data.stack) {
+    error.stack = data.stack;
+  }
+
+  return error;
+};
+
+/**
+ * Collect the ArrayBuffers that can be transferred instead of copied
+ *
+ * Only buffers that own their whole ArrayBuffer are transferred; small Node
+ * buffers share a pooled ArrayBuffer and are copied.
+ *
+ * @param value - Message payload (buffers may be nested in arrays and objects)
+ * @returns Transfer list for postMessage
+ */
+export const collectTransferables = (value: unknown, found: Set<ArrayBuffer> = new Set()): ArrayBuffer[] => {
+  if (value instanceof Uint8Array) {
+    if (
+      value.buffer instanceof ArrayBuffer &&
+      value.byteOffset === 0 &&
+      value.byteLength === value.buffer.byteLength
+    ) {
+      found.add(value.buffer);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectTransferables(item, found));
+  } else if (isPlainObject(value)) {
+    Object.values(value).forEach(item => collectTransferables(item, found));
+  }
+
+  return [...found];
+};
+
+/**
+ * Turn received Uint8Arrays back into Buffers
+ *
+ * Structured cloning drops the Buffer prototype; the data is not copied.
+ *
+ * @param value - Received message payload
+ * @returns Payload with Buffers in place of Uint8Arrays
+ */
+export const reviveBuffers = <T>(value: T): T => {
+  if (value instanceof Uint8Array) {
+    return (Buffer.isBuffer(value) ? value : Buffer.from(value.buffer, value.byteOffset, value.byteLength)) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => reviveBuffers(item)) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, reviveBuffers(item)])
+    ) as T;
+  }
+
+  return value;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
@@ -0,0 +1,114 @@
+/**
+ * PDF Worker
+ *
+ * Worker thread entry point. Runs pdfTasks on request from the worker pool,
+ * one task at a time. Streamed tasks produce one item per request, so a page
+ * is only rendered once the main thread is ready for it.
+ */
+
+import { parentPort } from 'worker_threads';
+import { pdfTasks } from './pdfTasks';
+import { collectTransferables, reviveBuffers, serializeError, WorkerRequest, WorkerResponse } from './messages';
+import { TaskContext, TaskMap } from './workerPool';
+
+if (!parentPort) {
+  throw new Error('pdf.worker must be started as a worker thread');
+}
+
+const port = parentPort;
+
+// Streamed tasks in progress, by task id
+const streams = new Map<number, AsyncIterator<unknown>>();
+
+/**
+ * Post a response, transferring its buffers when possible
+ */
+const send = (response: WorkerResponse): void => {
+  const transfer = response.type === 'yield' || response.type === 'done' ? collectTransferables(response.value) : [];
+
+  try {
+    port.postMessage(response, transfer);
+  } catch {
+    // Buffers backed by external memory cannot be transferred; copy them instead
+    port.postMessage(response);
+  }
+};
+
+/**
+ * Produce the next item of a stream
+ */
+const step = async (id: number, iterator: AsyncIterator<unknown>): Promise<void> => {
+  const result = await iterator.next();
+
+  if (result.done) {
+    streams.delete(id);
+    send({ type: 'done', id });
+  } else {
+    send({ type: 'yield', id, value: result.value });
+  }
+};
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+
+/**
+ * Handle a single request from the pool
+ */
+const handle = async (request: WorkerRequest): Promise<void> => {
+  const { id } = request;
+
+  try {
+    switch (request.type) {
+      case 'run': {
+        const task = pdfTasks[request.task as keyof typeof pdfTasks] as TaskMap[string] | undefined;
+        if (!task) {
+          throw new Error(`Unknown worker task "${request.task}"`);
+        }
+
+        const context: TaskContext = {
+          onProgress: progress => send({ type: 'progress', id, progress }),
+          onWarning: warning => send({ type: 'warning', id, warning }),
+        };
+        const result = task(context, ...reviveBuffers(request.args));
+
+        if (isAsyncIterable(result)) {
+          const iterator = result[Symbol.asyncIterator]();
+          streams.set(id, iterator);
+          await step(id, iterator);
+        } else {
+          send({ type: 'done', id, value: await result });
+        }
+        break;
+      }
+
+      case 'next': {
+        const iterator = streams.get(id);
+        if (iterator) {
+          await step(id, iterator);
+        }
+        break;
+      }
+
+      case 'cancel': {
+        const iterator = streams.get(id);
+        streams.delete(id);
+        // Runs the generator's cleanup (e.g. destroying the PDF document)
+        await iterator?.return?.();
+        send({ type: 'done', id });
+        break;
+      }
+    }
+  } catch (error) {
+    streams.delete(id);
+    send({ type: 'error', id, error: serializeError(error) });
+  }
+};
+
+// Requests are handled in order, so a cancel waits for the item in progress
+let queue = Promise.resolve();
+
+port.on('message', (request: WorkerRequest) => {
+  queue = queue.then(() => handle(request));
+});
+
+send({ type: 'ready' });
@@ -0,0 +1,52 @@
+/**
+ * PDF Worker Tasks
+ *
+ * The CPU-heavy service operations that run in the worker pool. Tasks that
+ * return async generators are streamed to the main thread one item at a time.
+ */
+
+import { pdfConverterService, ConversionOptions, TiffConversionOptions, ThumbnailOptions, ContactSheetOptions, ExtractionOptions } from '../services/pdfConverter.service';
+import { pdfToDocxService, PdfToDocxOptions } from '../services/pdfToDocx.service';
+import { textToPdfService, TextToPdfOptions } from '../services/textToPdf.service';
+import { imageToPdfService, ImageData, ConversionOptions as ImageToPdfOptions } from '../services/imageToPdf.service';
+import { readFile } from 'fs/promises';
+import { TaskContext } from './workerPool';
+
+/**
+ * A PDF in memory, or the path of an upload kept on disk (read here, so the
+ * main thread never holds it)
+ */
+export type PdfSource = Buffer | string;
+
+const readPdf = async (source: PdfSource): Promise<Buffer> =>
+  typeof source === 'string' ? readFile(source) : source;
+
+export const pdfTasks = {
+  streamPdfToImages: async function* ({ onProgress }: TaskContext, source: PdfSource, options: ConversionOptions) {
+    yield* pdfConverterService.streamPdfToImages(await readPdf(source), { ...options, onProgress });
+  },
+
+  convertPdfToTiff: async ({ onProgress }: TaskContext, source: PdfSource, options: TiffConversionOptions) =>
+    pdfConverterService.convertPdfToTiff(await readPdf(source), { ...options, onProgress }),
+
+  renderThumbnail: (_context: TaskContext, pdfBuffer: Buffer, options: ThumbnailOptions) =>
+    pdfConverterService.renderThumbnail(pdfBuffer, options),
+
+  renderContactSheet: ({ onProgress }: TaskContext, pdfBuffer: Buffer, options: ContactSheetOptions) =>
+    pdfConverterService.renderContactSheet(pdfBuffer, { ...options, onProgress }),
+
+  streamPdfContent: async function* ({ onProgress, onWarning }: TaskContext, source: PdfSource, options: ExtractionOptions) {
+    yield* pdfConverterService.streamPdfContent(await readPdf(source), { ...options, onProgress, onWarning });
+  },
+
+  convertPdfToDocx: async ({ onProgress, onWarning }: TaskContext, source: PdfSource, options: PdfToDocxOptions) =>
+    pdfToDocxService.convertPdfToDocx(await readPdf(source), { ...options, onProgress, onWarning }),
+
+  convertTextToPdf: (_context: TaskContext, text: string, options: TextToPdfOptions) =>
+    textToPdfService.convertTextToPdf(text, options),
+
+  convertImagesToPdf: ({ onProgress }: TaskContext, images: ImageData[], options: ImageToPdfOptions) =>
+    imageToPdfService.convertImagesToPdf(images, { ...options, onProgress }),
+};
+
+export type PdfTasks = typeof pdfTasks;
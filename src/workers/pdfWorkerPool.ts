@@ -0,0 +1,18 @@
+/**
+ * PDF Worker Pool
+ *
+ * Shared pool that runs the PDF tasks in worker threads.
+ */
+
+import { extname, join } from 'path';
+import { env } from '../config/env';
+import { WorkerPool } from './workerPool';
+import { pdfTasks } from './pdfTasks';
+
+export const pdfWorkerPool = new WorkerPool({
+  // pdf.worker.ts under ts-node, pdf.worker.js once built
+  workerFile: join(__dirname, `pdf.worker${extname(__filename)}`),
+  tasks: pdfTasks,
+  size: env.WORKER_POOL_SIZE,
+  taskTimeoutMs: env.WORKER_TASK_TIMEOUT_MS,
+});
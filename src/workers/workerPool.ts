@@ -0,0 +1,555 @@
+/**
+ * Worker Pool
+ *
+ * Runs CPU-heavy tasks in worker threads so that PDF parsing and rendering do
+ * not block the event loop. Tasks wait in a FIFO queue until a worker is free.
+ * A task that exceeds its time limit or is aborted has its worker terminated,
+ * which stops the work at once; workers are replaced on demand.
+ */
+
+import { Worker } from 'worker_threads';
+import { AppError } from '../middleware/errorHandler';
+import { ProgressListener, WarningListener } from '../utils/progress';
+import { collectTransferables, deserializeError, reviveBuffers, WorkerRequest, WorkerResponse } from './messages';
+
+/**
+ * Passed to every task as its first argument
+ */
+export interface TaskContext {
+  onProgress: ProgressListener;  // Forwards progress events to the caller
+  onWarning: WarningListener;    // Forwards warnings to the caller
+}
+
+/**
+ * Functions a pool can run, by name
+ */
+export type TaskMap = Record<string, (context: TaskContext, ...args: any[]) => unknown>;
+
+/**
+ * Arguments of a task, without its context
+ */
+export type TaskArgs<F> = F extends (context: TaskContext, ...args: infer A) => unknown ? A : never;
+
+/**
+ * Names of the tasks that return async generators (see WorkerPool.stream)
+ */
+export type StreamTaskName<T extends TaskMap> = {
+  [K in keyof T]: ReturnType<T[K]> extends AsyncIterable<unknown> ? K : never;
+}[keyof T] & string;
+
+/**
+ * Names of the tasks that return a single result (see WorkerPool.run)
+ */
+export type RunTaskName<T extends TaskMap> = Exclude<keyof T & string, StreamTaskName<T>>;
+
+type StreamItem<R> = R extends AsyncIterable<infer Item> ? Item : never;
+
+/**
+ * Worker pool configuration
+ */
+export interface WorkerPoolOptions<T extends TaskMap> {
+  workerFile: string;     // Worker entry point (.js, or .ts when running under ts-node)
+  tasks: T;               // Task table, called directly when size is 0
+  size: number;           // Number of worker threads; 0 runs tasks on the main thread
+  taskTimeoutMs: number;  // Time limit per task, counted from the moment a worker picks it up
+}
+
+/**
+ * Per-task options
+ */
+export interface TaskOptions {
+  signal?: AbortSignal;   // Stops the task, e.g. when the client disconnects
+  timeoutMs?: number;     // Overrides the pool's time limit
+  onProgress?: ProgressListener;
+  onWarning?: WarningListener;
+}
+
+/**
+ * Pool state and task counters since startup
+ */
+export interface WorkerPoolMetrics {
+  size: number;           // Configured number of workers
+  workers: number;        // Worker threads running or starting
+  busy: number;           // Workers running a task
+  queued: number;         // Tasks waiting for a worker (queue depth)
+  peakQueued: number;     // Highest queue depth seen
+  completed: number;
+  failed: number;
+  timedOut: number;
+  cancelled: number;
+  averageWaitMs: number;  // Average time a task spent in the queue
+  averageRunMs: number;   // Average time a task occupied a worker
+}
+
+/**
+ * Error returned when a task exceeds its time limit
+ */
+export class TaskTimeoutError extends AppError {
+  constructor(timeoutMs: number) {
+    super(503, `The operation took longer than ${timeoutMs / 1000} seconds and was stopped.`);
+    this.name = 'TaskTimeoutError';
+  }
+}
+
+/**
+ * Error returned when a task is aborted before it finishes
+ */
+export class TaskCancelledError extends Error {
+  constructor() {
+    super('The operation was cancelled');
+    this.name = 'TaskCancelledError';
+  }
+}
+
+type TaskOutcome = 'completed' | 'failed' | 'timedOut' | 'cancelled';
+
+/**
+ * Promise for the next response of a task
+ */
+interface Deferred {
+  promise: Promise<WorkerResponse>;
+  settled: boolean;
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  ready: boolean;         // Modules are loaded; tasks are only handed to ready workers
+  task?: PendingTask;
+}
+
+interface PendingTask {
+  id: number;
+  request: Extract<WorkerRequest, { type: 'run' }>;
+  timeoutMs: number;
+  signal?: AbortSignal;
+  onAbort: () => void;
+  onProgress?: ProgressListener;
+  onWarning?: WarningListener;
+  state: 'queued' | 'running' | 'finished';
+  cancelling: boolean;    // A stream was stopped by its consumer
+  response: Deferred;
+  worker?: PoolWorker;
+  timer?: NodeJS.Timeout;
+  queuedAt: number;
+  startedAt?: number;
+}
+
+const createDeferred = (): Deferred => {
+  const deferred = { settled: false } as Deferred;
+  deferred.promise = new Promise<WorkerResponse>((resolve, reject) => {
+    deferred.resolve = resolve;
+    deferred.reject = reject;
+  });
+  // Failures are read through `promise` once the caller gets to it
+  deferred.promise.catch(() => undefined);
+  return deferred;
+};
+
+/**
+ * Worker Pool Class
+ */
+export class WorkerPool<T extends TaskMap> {
+  private readonly workers = new Set<PoolWorker>();
+  private idle: PoolWorker[] = [];
+  private readonly queue: PendingTask[] = [];
+  private nextId = 1;
+  private readonly stats = {
+    peakQueued: 0,
+    completed: 0,
+    failed: 0,
+    timedOut: 0,
+    cancelled: 0,
+    started: 0,
+    totalWaitMs: 0,
+    ran: 0,
+    totalRunMs: 0,
+  };
+
+  constructor(private readonly options: WorkerPoolOptions<T>) {
+    if (!Number.isInteger(options.size) || options.size < 0) {
+      throw new Error('Worker pool size must be a whole number of 0 or more');
+    }
+  }
+
+  /**
+   * Run a task and wait for its result
+   *
+   * Buffers in the arguments are transferred to the worker when they own
+   * their memory, and are no longer usable by the caller afterwards.
+   *
+   * @param task - Task name
+   * @param args - Task arguments (must be structured-cloneable)
+   * @param options - Abort signal and time limit
+   * @returns Task result
+   * @throws TaskTimeoutError if the task exceeds its time limit
+   * @throws TaskCancelledError if the signal aborts the task
+   */
+  async run<K extends RunTaskName<T>>(
+    task: K,
+    args: TaskArgs<T[K]>,
+    options: TaskOptions = {}
+  ): Promise<Awaited<ReturnType<T[K]>>> {
+    if (this.options.size === 0) {
+      return await this.options.tasks[task](this.inlineContext(options), ...args) as Awaited<ReturnType<T[K]>>;
+    }
+
+    const pending = this.enqueue(task, args, options);
+    const response = await pending.response.promise;
+
+    return reviveBuffers(response.type === 'done' ? response.value : undefined) as Awaited<ReturnType<T[K]>>;
+  }
+
+  /**
+   * Run a task that produces items one at a time
+   *
+   * The worker produces an item only when the previous one has been consumed,
+   * and keeps the task (and its time limit) running while the consumer is busy.
+   * Stopping the iteration early stops the task in the worker.
+   *
+   * @param task - Task name
+   * @param args - Task arguments (must be structured-cloneable)
+   * @param options - Abort signal and time limit
+   * @returns Async generator of the task's items
+   */
+  async *stream<K extends StreamTaskName<T>>(
+    task: K,
+    args: TaskArgs<T[K]>,
+    options: TaskOptions = {}
+  ): AsyncGenerator<StreamItem<ReturnType<T[K]>>, void, undefined> {
+    type Item = StreamItem<ReturnType<T[K]>>;
+
+    if (this.options.size === 0) {
+      yield* this.options.tasks[task](this.inlineContext(options), ...args) as AsyncIterable<Item>;
+      return;
+    }
+
+    const pending = this.enqueue(task, args, options);
+
+    try {
+      for (;;) {
+        const response = await pending.response.promise;
+        if (response.type !== 'yield') {
+          return;
+        }
+
+        yield reviveBuffers(response.value) as Item;
+
+        this.request(pending, { type: 'next', id: pending.id });
+      }
+    } finally {
+      await this.cancel(pending);
+    }
+  }
+
+  /**
+   * Current pool state and counters (worker tasks only)
+   */
+  getMetrics(): WorkerPoolMetrics {
+    const { peakQueued, completed, failed, timedOut, cancelled, started, totalWaitMs, ran, totalRunMs } = this.stats;
+
+    return {
+      size: this.options.size,
+      workers: this.workers.size,
+      busy: [...this.workers].filter(entry => entry.task).length,
+      queued: this.queue.length,
+      peakQueued,
+      completed,
+      failed,
+      timedOut,
+      cancelled,
+      averageWaitMs: started > 0 ? Math.round(totalWaitMs / started) : 0,
+      averageRunMs: ran > 0 ? Math.round(totalRunMs / ran) : 0,
+    };
+  }
+
+  /**
+   * Cancel all tasks and stop all workers
+   */
+  async destroy(): Promise<void> {
+    const workers = [...this.workers];
+    const tasks = [...this.queue, ...workers.flatMap(entry => entry.task ?? [])];
+
+    this.workers.clear();
+    this.idle = [];
+
+    for (const pending of tasks) {
+      this.finish(pending, 'cancelled');
+      this.settle(pending, new TaskCancelledError());
+    }
+
+    await Promise.all(workers.map(entry => entry.worker.terminate()));
+  }
+
+  /**
+   * Context for tasks run on the main thread
+   */
+  private inlineContext(options: TaskOptions): TaskContext {
+    return {
+      onProgress: event => options.onProgress?.(event),
+      onWarning: warning => options.onWarning?.(warning),
+    };
+  }
+
+  /**
+   * Queue a task and start it if a worker is available
+   */
+  private enqueue(task: string, args: unknown[], options: TaskOptions): PendingTask {
+    if (options.signal?.aborted) {
+      throw new TaskCancelledError();
+    }
+
+    const id = this.nextId++;
+    const pending: PendingTask = {
+      id,
+      request: { type: 'run', id, task, args },
+      timeoutMs: options.timeoutMs ?? this.options.taskTimeoutMs,
+      signal: options.signal,
+      onAbort: () => this.abort(pending),
+      onProgress: options.onProgress,
+      onWarning: options.onWarning,
+      state: 'queued',
+      cancelling: false,
+      response: createDeferred(),
+      queuedAt: Date.now(),
+    };
+
+    options.signal?.addEventListener('abort', pending.onAbort, { once: true });
+    this.queue.push(pending);
+    this.drain();
+    this.stats.peakQueued = Math.max(this.stats.peakQueued, this.queue.length);
+
+    return pending;
+  }
+
+  /**
+   * Hand queued tasks to idle workers, starting workers up to the pool size
+   */
+  private drain(): void {
+    while (this.queue.length > 0 && this.idle.length > 0) {
+      this.start(this.idle.pop()!, this.queue.shift()!);
+    }
+
+    // Workers that are still starting take the next tasks once ready
+    let starting = [...this.workers].filter(entry => !entry.ready).length;
+    while (this.queue.length > starting && this.workers.size < this.options.size) {
+      this.spawn();
+      starting++;
+    }
+  }
+
+  private start(entry: PoolWorker, pending: PendingTask): void {
+    entry.task = pending;
+    entry.worker.ref();
+    pending.worker = entry;
+    pending.state = 'running';
+    pending.startedAt = Date.now();
+
+    this.stats.started++;
+    this.stats.totalWaitMs += pending.startedAt - pending.queuedAt;
+
+    pending.timer = setTimeout(() => {
+      this.finish(pending, 'timedOut');
+      this.settle(pending, new TaskTimeoutError(pending.timeoutMs));
+      this.terminate(entry);
+    }, pending.timeoutMs);
+
+    this.post(entry, pending.request);
+  }
+
+  /**
+   * Ask the worker for the next response of a running task
+   */
+  private request(pending: PendingTask, message: WorkerRequest): void {
+    if (pending.state !== 'running' || !pending.worker) {
+      return;
+    }
+    pending.response = createDeferred();
+    this.post(pending.worker, message);
+  }
+
+  /**
+   * Stop a stream whose consumer has finished early
+   */
+  private async cancel(pending: PendingTask): Promise<void> {
+    if (pending.state === 'queued') {
+      this.finish(pending, 'cancelled');
+      return;
+    }
+    if (pending.state === 'running') {
+      pending.cancelling = true;
+      this.request(pending, { type: 'cancel', id: pending.id });
+      await pending.response.promise.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Stop a task whose signal was aborted
+   */
+  private abort(pending: PendingTask): void {
+    const entry = pending.state === 'running' ? pending.worker : undefined;
+
+    this.finish(pending, 'cancelled');
+    this.settle(pending, new TaskCancelledError());
+
+    if (entry) {
+      this.terminate(entry);
+    }
+  }
+
+  /**
+   * Mark a task as finished and record its outcome
+   */
+  private finish(pending: PendingTask, outcome: TaskOutcome): void {
+    if (pending.state === 'finished') {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    pending.signal?.removeEventListener('abort', pending.onAbort);
+
+    if (pending.state === 'queued') {
+      this.queue.splice(this.queue.indexOf(pending), 1);
+    } else if (pending.startedAt !== undefined) {
+      this.stats.ran++;
+      this.stats.totalRunMs += Date.now() - pending.startedAt;
+    }
+
+    pending.state = 'finished';
+    this.stats[outcome]++;
+  }
+
+  /**
+   * Deliver a response or failure to whoever is waiting on the task
+   */
+  private settle(pending: PendingTask, result: WorkerResponse | Error): void {
+    // A failure after the last response has been read is kept for the next read
+    if (pending.response.settled) {
+      pending.response = createDeferred();
+    }
+
+    pending.response.settled = true;
+    if (result instanceof Error) {
+      pending.response.reject(result);
+    } else {
+      pending.response.resolve(result);
+    }
+  }
+
+  private onMessage(entry: PoolWorker, response: WorkerResponse): void {
+    if (response.type === 'ready') {
+      entry.ready = true;
+      this.release(entry);
+      return;
+    }
+
+    const pending = entry.task;
+
+    // Ignore late responses for a task that has already finished
+    if (!pending || response.id !== pending.id) {
+      return;
+    }
+
+    switch (response.type) {
+      case 'progress':
+        pending.onProgress?.(response.progress);
+        break;
+      case 'warning':
+        pending.onWarning?.(response.warning);
+        break;
+      case 'yield':
+        this.settle(pending, response);
+        break;
+      case 'done':
+        this.finish(pending, pending.cancelling ? 'cancelled' : 'completed');
+        this.release(entry);
+        this.settle(pending, response);
+        break;
+      case 'error':
+        this.finish(pending, 'failed');
+        this.release(entry);
+        this.settle(pending, deserializeError(response.error));
+        break;
+    }
+  }
+
+  private onExit(entry: PoolWorker, error: Error): void {
+    // Workers stopped by the pool have already been removed
+    if (!this.workers.delete(entry)) {
+      return;
+    }
+
+    this.idle = this.idle.filter(idle => idle !== entry);
+
+    const pending = entry.task;
+    if (pending) {
+      this.finish(pending, 'failed');
+      this.settle(pending, error);
+    }
+
+    // A worker that cannot start would fail again; fail the waiting tasks instead
+    if (!entry.ready) {
+      for (const queued of [...this.queue]) {
+        this.finish(queued, 'failed');
+        this.settle(queued, new Error(`Worker failed to start: ${error.message}`));
+      }
+    }
+
+    this.drain();
+  }
+
+  /**
+   * Return a worker to the idle list (idle workers do not keep the process alive)
+   */
+  private release(entry: PoolWorker): void {
+    entry.task = undefined;
+    entry.worker.unref();
+    this.idle.push(entry);
+    this.drain();
+  }
+
+  /**
+   * Stop a worker immediately, abandoning its task
+   */
+  private terminate(entry: PoolWorker): void {
+    this.workers.delete(entry);
+    this.idle = this.idle.filter(idle => idle !== entry);
+    entry.task = undefined;
+
+    void entry.worker.terminate();
+    this.drain();
+  }
+
+  private spawn(): PoolWorker {
+    const { workerFile } = this.options;
+
+    // Under ts-node the worker has to register the TypeScript loader itself
+    const worker = workerFile.endsWith('.ts')
+      ? new Worker(`require('ts-node/register/transpile-only');\nrequire(${JSON.stringify(workerFile)});`, { eval: true })
+      : new Worker(workerFile);
+
+    const entry: PoolWorker = { worker, ready: false };
+
+    worker.on('message', (response: WorkerResponse) => this.onMessage(entry, response));
+    worker.on('error', error => this.onExit(entry, error));
+    worker.on('exit', code => this.onExit(entry, new Error(`Worker stopped unexpectedly (exit code ${code})`)));
+
+    this.workers.add(entry);
+    return entry;
+  }
+
+  /**
+   * Send a message, transferring its buffers when possible
+   */
+  private post(entry: PoolWorker, message: WorkerRequest): void {
+    const transfer = message.type === 'run' ? collectTransferables(message.args) : [];
+
+    try {
+      entry.worker.postMessage(message, transfer);
+    } catch {
+      // Buffers backed by external memory cannot be transferred; copy them instead
+      entry.worker.postMessage(message);
+    }
+  }
+}